@@ -7,5 +7,8 @@ sleep 2
 echo "Running Prisma DB Push..."
 npx prisma db push --accept-data-loss
 
+echo "Applying database guards..."
+npm run db:guards
+
 echo "Starting application..."
 exec npm run dev
@@ -0,0 +1,25 @@
+-- Database-level guards for recipes that Prisma can't express (triggers, partial indexes), applied after
+-- `prisma db push` (npm run db:guards). Safe to run repeatedly.
+
+-- Recipe status history rows are electronic signatures: once written they can't be changed or removed.
+
+CREATE OR REPLACE FUNCTION recipe_status_history_immutable() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'recipe_status_history is append-only; % is not allowed', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS recipe_status_history_no_change ON recipe_status_history;
+CREATE TRIGGER recipe_status_history_no_change
+  BEFORE UPDATE OR DELETE ON recipe_status_history
+  FOR EACH ROW EXECUTE FUNCTION recipe_status_history_immutable();
+
+DROP TRIGGER IF EXISTS recipe_status_history_no_truncate ON recipe_status_history;
+CREATE TRIGGER recipe_status_history_no_truncate
+  BEFORE TRUNCATE ON recipe_status_history
+  FOR EACH STATEMENT EXECUTE FUNCTION recipe_status_history_immutable();
+
+-- Only one version of a recipe can be active, even when two versions are activated at the same time
+CREATE UNIQUE INDEX IF NOT EXISTS recipes_one_active_version
+  ON recipes (recipe_id)
+  WHERE status = 'active';
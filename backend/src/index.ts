@@ -9,6 +9,7 @@ import authRoutes from './routes/auth';
 import userRoutes from './routes/users';
 import equipmentRoutes from './routes/equipment';
 import batchRoutes from './routes/batches';
+import telemetryRoutes from './routes/telemetry';
 import maintenanceRoutes from './routes/maintenance';
 import notificationRoutes from './routes/notifications';
 import exportRoutes from './routes/export';
@@ -18,7 +19,16 @@ import sdsRoutes from './routes/sds';
 import copilotRoutes from './routes/copilot';
 import uploadPlanRoutes from './routes/upload-plan';
 import recipeRoutes from './routes/recipes';
+import auditRoutes from './routes/audit';
+import unitsRoutes from './routes/units';
+import scheduleRoutes from './routes/schedule';
+import changeoverRoutes from './routes/changeovers';
+import maintenancePlanRoutes from './routes/maintenance-plans';
+import sparePartRoutes from './routes/spare-parts';
+import analyticsRoutes from './routes/analytics';
+import { isDemoMode } from './middleware/auth';
 import './services/emailService'; // Initialize email service
+import { startMaintenancePlanScheduler } from './services/maintenancePlanService';
 
 dotenv.config();
 
@@ -52,14 +62,22 @@ app.get('/health', (req, res) => {
 app.use('/auth', authRoutes);
 app.use('/users', userRoutes);
 app.use('/equipment', equipmentRoutes);
+app.use('/batches/:id/telemetry', telemetryRoutes);
 app.use('/batches', batchRoutes);
 app.use('/maintenance', maintenanceRoutes);
+app.use('/maintenance-plans', maintenancePlanRoutes);
+app.use('/spare-parts', sparePartRoutes);
 app.use('/notifications', notificationRoutes);
 app.use('/export', exportRoutes);
 app.use('/import', importRoutes);
 app.use('/materials', materialsRoutes);
 app.use('/sds', sdsRoutes);
 app.use('/recipes', recipeRoutes);
+app.use('/audit', auditRoutes);
+app.use('/units', unitsRoutes);
+app.use('/schedule', scheduleRoutes);
+app.use('/changeovers', changeoverRoutes);
+app.use('/analytics', analyticsRoutes);
 app.use('/api/copilot', copilotRoutes);
 app.use('/api/upload-plan', uploadPlanRoutes);
 
@@ -79,4 +97,10 @@ app.use('*', (req, res) => {
 
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  startMaintenancePlanScheduler();
+  if (isDemoMode()) {
+    console.warn('AUTH_DEMO_MODE is enabled - every request runs as the demo admin user');
+  } else if (process.env.AUTH_DEMO_MODE === 'true') {
+    console.warn('AUTH_DEMO_MODE is ignored when NODE_ENV=production');
+  }
 });
\ No newline at end of file
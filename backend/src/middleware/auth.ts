@@ -10,16 +10,62 @@ export interface AuthRequest extends Request {
     email: string;
     role: UserRole;
   };
+  sessionId?: number;
 }
 
+// Demo mode skips authentication entirely, so it must be switched on explicitly and never runs in production
+export const isDemoMode = () => process.env.AUTH_DEMO_MODE === 'true' && process.env.NODE_ENV !== 'production';
+
 export const authenticateToken = async (req: AuthRequest, res: Response, next: NextFunction) => {
-  // DEMO MODE: Bypass authentication and set default admin user
-  req.user = {
-    id: 1,
-    email: 'demo@example.com',
-    role: 'admin' as UserRole
-  };
-  next();
+  if (isDemoMode()) {
+    req.user = {
+      id: 1,
+      email: 'demo@example.com',
+      role: 'admin' as UserRole
+    };
+    return next();
+  }
+
+  const authHeader = req.headers.authorization;
+  const token = authHeader && authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null;
+
+  if (!token) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  let payload: { userId: number; sessionId: number };
+  try {
+    payload = jwt.verify(token, process.env.JWT_SECRET!) as { userId: number; sessionId: number };
+  } catch (error) {
+    const expired = error instanceof jwt.TokenExpiredError;
+    return res.status(401).json({ error: expired ? 'Token expired' : 'Invalid token', code: expired ? 'TOKEN_EXPIRED' : 'TOKEN_INVALID' });
+  }
+
+  try {
+    // The session must still be live, so logging out revokes access tokens immediately
+    const session = await prisma.session.findUnique({
+      where: { id: payload.sessionId },
+      include: {
+        user: { select: { id: true, email: true, role: true, active: true } }
+      }
+    });
+
+    if (!session || session.userId !== payload.userId || session.revokedAt || session.expiresAt < new Date()) {
+      return res.status(401).json({ error: 'Session expired', code: 'SESSION_REVOKED' });
+    }
+
+    if (!session.user.active) {
+      return res.status(401).json({ error: 'Account deactivated', code: 'USER_INACTIVE' });
+    }
+
+    const { active, ...user } = session.user;
+    req.user = user;
+    req.sessionId = session.id;
+    next();
+  } catch (error) {
+    console.error('Authentication error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 };
 
 export const requireRole = (allowedRoles: UserRole[]) => {
@@ -0,0 +1,82 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireReadAccess } from '../middleware/auth';
+import { analyticsService, AnalyticsRange } from '../services/analyticsService';
+import { bottleneckService } from '../services/bottleneckService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const rangeSchema = Joi.object({
+  start: Joi.date().iso().optional(), // Defaults to 7 days before `end`
+  end: Joi.date().iso().optional(), // Defaults to now
+  equipmentId: Joi.number().integer().positive().optional()
+});
+
+const DEFAULT_RANGE_DAYS = 7;
+
+// The date range from the query string, or a validation error message
+const parseRange = (query: unknown): { range?: AnalyticsRange; error?: string } => {
+  const { error, value } = rangeSchema.validate(query);
+  if (error) {
+    return { error: error.details[0].message };
+  }
+
+  const end = value.end ? new Date(value.end) : new Date();
+  const start = value.start ? new Date(value.start) : new Date(end.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+  if (start >= end) {
+    return { error: 'start must be before end' };
+  }
+  return { range: { start, end, equipmentId: value.equipmentId } };
+};
+
+// GET /analytics/equipment - Availability, utilization, schedule adherence and OEE per equipment over a date range
+router.get('/equipment', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const { range, error } = parseRange(req.query);
+    if (!range) {
+      return res.status(400).json({ error });
+    }
+
+    const analytics = await analyticsService.equipment(prisma, range);
+    res.json(analytics);
+  } catch (error) {
+    console.error('Error computing equipment analytics:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /analytics/bottlenecks - Equipment constraining throughput over a date range, ranked, with evidence
+router.get('/bottlenecks', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const { range, error } = parseRange(req.query);
+    if (!range) {
+      return res.status(400).json({ error });
+    }
+
+    const bottlenecks = await bottleneckService.analyze(prisma, range);
+    res.json(bottlenecks);
+  } catch (error) {
+    console.error('Error analyzing bottlenecks:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /analytics/adherence - Late starts, overruns and early finishes per equipment, product and week, with delay reasons
+router.get('/adherence', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const { range, error } = parseRange(req.query);
+    if (!range) {
+      return res.status(400).json({ error });
+    }
+
+    const report = await analyticsService.adherence(prisma, range);
+    res.json(report);
+  } catch (error) {
+    console.error('Error building adherence report:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
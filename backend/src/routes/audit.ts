@@ -0,0 +1,77 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireReadAccess, AuthRequest } from '../middleware/auth';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const querySchema = Joi.object({
+  entityType: Joi.string().optional(),
+  entityId: Joi.number().integer().positive().optional(),
+  userId: Joi.number().integer().positive().optional(),
+  action: Joi.string().valid('create', 'update', 'delete').optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+  limit: Joi.number().integer().min(1).max(500).default(100),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+// GET /audit - Query the audit trail
+router.get('/', authenticateToken, requireReadAccess, async (req: AuthRequest, res) => {
+  try {
+    const { error, value } = querySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const where: any = {};
+
+    if (value.entityType) {
+      where.entityType = value.entityType;
+    }
+
+    if (value.entityId) {
+      where.entityId = value.entityId;
+    }
+
+    if (value.userId) {
+      where.userId = value.userId;
+    }
+
+    if (value.action) {
+      where.action = value.action;
+    }
+
+    if (value.from || value.to) {
+      where.createdAt = {};
+      if (value.from) where.createdAt.gte = new Date(value.from);
+      if (value.to) where.createdAt.lte = new Date(value.to);
+    }
+
+    // User account changes are only visible to admins
+    if (req.user!.role !== 'admin') {
+      if (value.entityType === 'user') {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+      where.entityType = where.entityType || { not: 'user' };
+    }
+
+    const [total, entries] = await Promise.all([
+      prisma.auditLog.count({ where }),
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: value.limit,
+        skip: value.offset
+      })
+    ]);
+
+    res.json({ total, limit: value.limit, offset: value.offset, entries });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,8 +1,10 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import Joi from 'joi';
 import { PrismaClient } from '@prisma/client';
+import { authenticateToken, AuthRequest, isDemoMode } from '../middleware/auth';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -10,7 +12,7 @@ const prisma = new PrismaClient();
 const registerSchema = Joi.object({
   email: Joi.string().email().required(),
   password: Joi.string().min(6).required(),
-  role: Joi.string().valid('admin', 'planner', 'viewer').default('viewer')
+  role: Joi.any().strip() // Ignored: self-registered users are viewers, admins assign roles through /users
 });
 
 const loginSchema = Joi.object({
@@ -18,6 +20,43 @@ const loginSchema = Joi.object({
   password: Joi.string().required()
 });
 
+const refreshSchema = Joi.object({
+  refreshToken: Joi.string().required()
+});
+
+// Access tokens are short-lived; sessions are kept alive by rotating the refresh token
+const accessTokenExpiresIn = () => process.env.JWT_EXPIRES_IN || '15m';
+const refreshTokenExpiresDays = () => parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '7');
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const newRefreshToken = () => crypto.randomBytes(48).toString('base64url');
+
+const refreshExpiry = () => new Date(Date.now() + refreshTokenExpiresDays() * 24 * 60 * 60 * 1000);
+
+const signAccessToken = (userId: number, sessionId: number) =>
+  jwt.sign(
+    { userId, sessionId },
+    process.env.JWT_SECRET!,
+    { expiresIn: accessTokenExpiresIn() as jwt.SignOptions['expiresIn'] }
+  );
+
+// Start a new session and return its token pair; only the refresh token's hash is stored
+const createSession = async (userId: number, req: express.Request) => {
+  const refreshToken = newRefreshToken();
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: req.get('user-agent') || null,
+      ipAddress: req.ip || null,
+      expiresAt: refreshExpiry()
+    }
+  });
+
+  return { token: signAccessToken(userId, session.id), refreshToken };
+};
+
 // Register
 router.post('/register', async (req, res) => {
   try {
@@ -26,7 +65,7 @@ router.post('/register', async (req, res) => {
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    const { email, password, role } = value;
+    const { email, password } = value;
 
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
@@ -46,7 +85,7 @@ router.post('/register', async (req, res) => {
       data: {
         email,
         passwordHash,
-        role
+        role: 'viewer'
       },
       select: {
         id: true,
@@ -56,17 +95,13 @@ router.post('/register', async (req, res) => {
       }
     });
 
-    // Generate token
-    const token = jwt.sign(
-      { userId: user.id },
-      process.env.JWT_SECRET!,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '24h' }
-    );
+    const { token, refreshToken } = await createSession(user.id, req);
 
     res.status(201).json({
       message: 'User created successfully',
       user,
-      token
+      token,
+      refreshToken
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -99,12 +134,11 @@ router.post('/login', async (req, res) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    // Generate token
-    const token = jwt.sign(
-      { userId: user.id },
-      process.env.JWT_SECRET!,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '24h' }
-    );
+    if (!user.active) {
+      return res.status(401).json({ error: 'Account deactivated' });
+    }
+
+    const { token, refreshToken } = await createSession(user.id, req);
 
     res.json({
       message: 'Login successful',
@@ -113,7 +147,8 @@ router.post('/login', async (req, res) => {
         email: user.email,
         role: user.role
       },
-      token
+      token,
+      refreshToken
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -121,4 +156,92 @@ router.post('/login', async (req, res) => {
   }
 });
 
+// Refresh - exchange a refresh token for a new token pair
+router.post('/refresh', async (req, res) => {
+  try {
+    const { error, value } = refreshSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const tokenHash = hashToken(value.refreshToken);
+
+    // A rotated-out token being presented again means it has leaked, so end the whole session
+    const reused = await prisma.session.findUnique({ where: { previousTokenHash: tokenHash } });
+    if (reused) {
+      await prisma.session.update({
+        where: { id: reused.id },
+        data: { revokedAt: reused.revokedAt || new Date() }
+      });
+      console.warn(`Refresh token reuse detected for session ${reused.id}, session revoked`);
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { refreshTokenHash: tokenHash },
+      include: {
+        user: { select: { id: true, email: true, role: true, active: true } }
+      }
+    });
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+
+    if (!session.user.active) {
+      return res.status(401).json({ error: 'Account deactivated' });
+    }
+
+    // Rotate only if the token is still current, so of two concurrent refreshes with it only one succeeds
+    const refreshToken = newRefreshToken();
+    const rotated = await prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashToken(refreshToken),
+        previousTokenHash: tokenHash,
+        expiresAt: refreshExpiry(),
+        lastUsedAt: new Date()
+      }
+    });
+    if (rotated.count === 0) {
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+
+    const { active, ...user } = session.user;
+    res.json({
+      user,
+      token: signAccessToken(session.userId, session.id),
+      refreshToken
+    });
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Logout - revoke the session the refresh token belongs to
+router.post('/logout', async (req, res) => {
+  try {
+    const { error, value } = refreshSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    await prisma.session.updateMany({
+      where: { refreshTokenHash: hashToken(value.refreshToken), revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Current user
+router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
+  res.json({ user: req.user, demoMode: isDemoMode() });
+});
+
 export default router;
\ No newline at end of file
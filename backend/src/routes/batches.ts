@@ -1,7 +1,14 @@
 import express from 'express';
 import Joi from 'joi';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma, BatchEvent, BatchStatus } from '@prisma/client';
 import { authenticateToken, requireWriteAccess, requireReadAccess, AuthRequest } from '../middleware/auth';
+import { auditService } from '../services/auditService';
+import { inventoryService, InsufficientStockError } from '../services/inventoryService';
+import emailService from '../services/emailService';
+import { batchRecordService } from '../services/batchRecordService';
+import { equipmentCheckService } from '../services/equipmentCheckService';
+import { availabilityService } from '../services/availabilityService';
+import { changeoverService } from '../services/changeoverService';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -11,56 +18,83 @@ const batchEventSchema = Joi.object({
   batchNo: Joi.string().required(),
   productName: Joi.string().required(),
   batchSize: Joi.number().positive().optional(),
+  batchSizeUnit: Joi.string().allow('', null).optional(),
   startTimestamp: Joi.date().iso().required(),
   endTimestamp: Joi.date().iso().required(),
-  actualStart: Joi.date().iso().optional().allow(null),
-  actualEnd: Joi.date().iso().optional().allow(null),
-  inputs: Joi.object().optional()
+  delayReason: Joi.string().valid('breakdown', 'material_shortage', 'staffing', 'quality_hold', 'changeover', 'upstream_delay', 'other').allow(null).optional(),
+  delayNotes: Joi.string().allow('', null).optional(),
+  inputs: Joi.object().optional(),
+  autoCleaning: Joi.boolean().optional() // Book cleaning for product changeovers instead of refusing
+  // actualStart/actualEnd are only set by the start and complete transitions
 }).custom((value, helpers) => {
   if (new Date(value.endTimestamp) <= new Date(value.startTimestamp)) {
     return helpers.error('any.invalid', { message: 'End time must be after start time' });
   }
   
-  if (value.actualStart && value.actualEnd && new Date(value.actualEnd) <= new Date(value.actualStart)) {
-    return helpers.error('any.invalid', { message: 'Actual end time must be after actual start time' });
-  }
-  
   return value;
 });
 
-// Check for equipment conflicts
-const checkEquipmentConflict = async (equipmentId: number, startTime: Date, endTime: Date, excludeId?: number) => {
-  const conflictingEvents = await prisma.batchEvent.findMany({
-    where: {
-      equipmentId,
-      id: excludeId ? { not: excludeId } : undefined,
-      OR: [
-        {
-          AND: [
-            { startTimestamp: { lte: startTime } },
-            { endTimestamp: { gt: startTime } }
-          ]
-        },
-        {
-          AND: [
-            { startTimestamp: { lt: endTime } },
-            { endTimestamp: { gte: endTime } }
-          ]
-        },
-        {
-          AND: [
-            { startTimestamp: { gte: startTime } },
-            { endTimestamp: { lte: endTime } }
-          ]
-        }
-      ]
-    },
-    include: {
-      equipment: { select: { name: true } }
-    }
+const actualQuantitiesSchema = Joi.object({
+  materials: Joi.array().items(Joi.object({
+    id: Joi.number().integer().positive().required(),
+    actualQuantity: Joi.number().min(0).required().allow(null)
+  })).min(1).required()
+});
+
+const checkSchema = Joi.object({
+  equipmentId: Joi.number().integer().positive().required(),
+  batchSize: Joi.number().positive().optional().allow(null),
+  batchSizeUnit: Joi.string().allow('', null).optional(),
+  batchEventId: Joi.number().integer().positive().optional() // Existing batch whose materials are checked
+});
+
+const startSchema = Joi.object({
+  actualStart: Joi.date().iso().optional()
+});
+
+const completeSchema = Joi.object({
+  actualEnd: Joi.date().iso().optional()
+});
+
+// Legal status changes; status only moves through the transition endpoints, never through PUT
+const allowedTransitions: Record<BatchStatus, BatchStatus[]> = {
+  scheduled: ['started', 'cancelled'],
+  started: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+// Thrown inside transactions when the batch changed status between the check and the write
+class BatchTransitionError extends Error { }
+
+// Move a batch to a new status, guarding against a concurrent transition of the same batch
+const applyTransition = async (tx: Prisma.TransactionClient, req: AuthRequest, batch: BatchEvent, data: Prisma.BatchEventUpdateManyMutationInput) => {
+  const claimed = await tx.batchEvent.updateMany({
+    where: { id: batch.id, status: batch.status },
+    data
   });
+  if (claimed.count === 0) {
+    throw new BatchTransitionError('Batch status was changed by another request, please reload');
+  }
 
-  return conflictingEvents;
+  const updated = await tx.batchEvent.findUniqueOrThrow({
+    where: { id: batch.id },
+    include: { equipment: { select: { id: true, name: true } } }
+  });
+  await auditService.record(tx, req, { entityType: 'batch_event', entityId: batch.id, action: 'update', before: batch, after: updated });
+  return updated;
+};
+
+// Free the equipment if this batch is the one it is running
+const releaseEquipment = async (tx: Prisma.TransactionClient, req: AuthRequest, batch: BatchEvent) => {
+  const equipment = await tx.equipment.findUnique({ where: { id: batch.equipmentId } });
+  if (!equipment || equipment.currentBatchId !== batch.id) return;
+
+  const updated = await tx.equipment.update({
+    where: { id: equipment.id },
+    data: { status: 'available', currentBatchId: null }
+  });
+  await auditService.record(tx, req, { entityType: 'equipment', entityId: equipment.id, action: 'update', before: equipment, after: updated });
 };
 
 // GET /batches - Get all batch events
@@ -114,7 +148,10 @@ router.get('/:id', authenticateToken, requireReadAccess, async (req, res) => {
     const batchEvent = await prisma.batchEvent.findUnique({
       where: { id },
       include: {
-        equipment: { select: { id: true, name: true } }
+        equipment: { select: { id: true, name: true } },
+        materials: {
+          include: { material: { select: { id: true, name: true, unit: true, currentQuantity: true } } }
+        }
       }
     });
 
@@ -129,6 +166,26 @@ router.get('/:id', authenticateToken, requireReadAccess, async (req, res) => {
   }
 });
 
+// POST /batches/check - Capacity and material-of-construction issues for a batch before saving
+router.post('/check', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const { error, value } = checkSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const lines = value.batchEventId
+      ? await prisma.batchMaterial.findMany({ where: { batchEventId: value.batchEventId }, select: { materialId: true } })
+      : [];
+
+    const issues = await equipmentCheckService.check(prisma, { ...value, materialIds: lines.map(line => line.materialId) });
+    res.json({ issues });
+  } catch (error) {
+    console.error('Error checking batch:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // POST /batches - Create batch event
 router.post('/', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
@@ -139,32 +196,49 @@ router.post('/', authenticateToken, requireWriteAccess, async (req: AuthRequest,
 
     const { equipmentId, startTimestamp, endTimestamp } = value;
 
-    // Check for conflicts
-    const conflicts = await checkEquipmentConflict(
+    // Batches and maintenance can't share equipment
+    const availability = await availabilityService.check(prisma, {
       equipmentId,
-      new Date(startTimestamp),
-      new Date(endTimestamp)
-    );
-
-    if (conflicts.length > 0) {
-      return res.status(400).json({
-        error: 'Equipment conflict detected',
-        message: `Equipment "${conflicts[0].equipment.name}" is already scheduled during this time period`,
-        conflicts: conflicts.map(c => ({
-          id: c.id,
-          batchNo: c.batchNo,
-          productName: c.productName,
-          startTimestamp: c.startTimestamp,
-          endTimestamp: c.endTimestamp
-        }))
-      });
+      startTimestamp: new Date(startTimestamp),
+      endTimestamp: new Date(endTimestamp),
+      type: 'batch'
+    });
+
+    if (!availability.available) {
+      return res.status(400).json(availabilityService.conflictResponse(availability));
     }
 
-    const batchEvent = await prisma.batchEvent.create({
-      data: value,
-      include: {
-        equipment: { select: { id: true, name: true } }
-      }
+    const issues = await equipmentCheckService.check(prisma, value);
+    const blocking = equipmentCheckService.blockingMessage(issues);
+    if (blocking) {
+      return res.status(400).json({ error: blocking, issues });
+    }
+
+    const { autoCleaning, ...data } = value;
+
+    // Switching products needs cleaning between this batch and its neighbours
+    const changeovers = await changeoverService.check(prisma, {
+      equipmentId,
+      batchNo: value.batchNo,
+      productName: value.productName,
+      startTimestamp: new Date(startTimestamp),
+      endTimestamp: new Date(endTimestamp)
+    });
+    const changeoverBlocking = changeoverService.blockingMessage(changeovers, autoCleaning);
+    if (changeoverBlocking) {
+      return res.status(400).json({ error: 'Cleaning changeover required', message: changeoverBlocking, changeovers });
+    }
+
+    const batchEvent = await prisma.$transaction(async (tx) => {
+      const created = await tx.batchEvent.create({
+        data,
+        include: {
+          equipment: { select: { id: true, name: true } }
+        }
+      });
+      await auditService.record(tx, req, { entityType: 'batch_event', entityId: created.id, action: 'create', after: created });
+      await changeoverService.insertCleaning(tx, req, changeovers);
+      return created;
     });
 
     res.status(201).json(batchEvent);
@@ -175,7 +249,7 @@ router.post('/', authenticateToken, requireWriteAccess, async (req: AuthRequest,
 });
 
 // PUT /batches/:id - Update batch event
-router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
+router.put('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id);
     const { error, value } = batchEventSchema.validate(req.body);
@@ -186,38 +260,86 @@ router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
 
     const { equipmentId, startTimestamp, endTimestamp } = value;
 
-    // Check for conflicts (excluding current event)
-    const conflicts = await checkEquipmentConflict(
+    const current = await prisma.batchEvent.findUnique({ where: { id } });
+    if (!current) {
+      return res.status(404).json({ error: 'Batch event not found' });
+    }
+
+    // A started batch is holding its equipment, so it can only move while still scheduled
+    if (current.equipmentId !== equipmentId && current.status !== 'scheduled') {
+      return res.status(400).json({ error: `Only a scheduled batch can move to other equipment; this batch is ${current.status}` });
+    }
+
+    // Check availability (excluding current event)
+    const availability = await availabilityService.check(prisma, {
       equipmentId,
-      new Date(startTimestamp),
-      new Date(endTimestamp),
-      id
-    );
-
-    if (conflicts.length > 0) {
-      return res.status(400).json({
-        error: 'Equipment conflict detected',
-        message: `Equipment is already scheduled during this time period`,
-        conflicts: conflicts.map(c => ({
-          id: c.id,
-          batchNo: c.batchNo,
-          productName: c.productName,
-          startTimestamp: c.startTimestamp,
-          endTimestamp: c.endTimestamp
-        }))
-      });
+      startTimestamp: new Date(startTimestamp),
+      endTimestamp: new Date(endTimestamp),
+      type: 'batch',
+      excludeId: id
+    });
+
+    if (!availability.available) {
+      return res.status(400).json(availabilityService.conflictResponse(availability));
     }
 
-    const batchEvent = await prisma.batchEvent.update({
-      where: { id },
-      data: value,
-      include: {
-        equipment: { select: { id: true, name: true } }
+    const lines = await prisma.batchMaterial.findMany({ where: { batchEventId: id }, select: { materialId: true } });
+    const issues = await equipmentCheckService.check(prisma, { ...value, materialIds: lines.map(line => line.materialId) });
+    const blocking = equipmentCheckService.blockingMessage(issues);
+    if (blocking) {
+      return res.status(400).json({ error: blocking, issues });
+    }
+
+    const { autoCleaning, ...data } = value;
+
+    // Changeovers are only rechecked when the batch moves or changes product, so recording actuals
+    // on an old batch isn't blocked by rules added since
+    const rescheduled = current.equipmentId !== equipmentId ||
+      current.productName !== value.productName ||
+      current.startTimestamp.getTime() !== new Date(startTimestamp).getTime() ||
+      current.endTimestamp.getTime() !== new Date(endTimestamp).getTime();
+
+    const changeovers = rescheduled
+      ? await changeoverService.check(prisma, {
+        equipmentId,
+        batchNo: value.batchNo,
+        productName: value.productName,
+        startTimestamp: new Date(startTimestamp),
+        endTimestamp: new Date(endTimestamp),
+        excludeId: id
+      })
+      : [];
+    const changeoverBlocking = changeoverService.blockingMessage(changeovers, autoCleaning);
+    if (changeoverBlocking) {
+      return res.status(400).json({ error: 'Cleaning changeover required', message: changeoverBlocking, changeovers });
+    }
+
+    const batchEvent = await prisma.$transaction(async (tx) => {
+      const before = await tx.batchEvent.findUniqueOrThrow({ where: { id } });
+      // Guarded on the status checked above, so a batch started meanwhile isn't moved off its equipment
+      const claimed = await tx.batchEvent.updateMany({
+        where: { id, status: current.status },
+        data
+      });
+      if (claimed.count === 0) {
+        throw new BatchTransitionError('Batch status was changed by another request, please reload');
       }
+      const updated = await tx.batchEvent.findUniqueOrThrow({
+        where: { id },
+        include: {
+          equipment: { select: { id: true, name: true } }
+        }
+      });
+      await auditService.record(tx, req, { entityType: 'batch_event', entityId: id, action: 'update', before, after: updated });
+      await changeoverService.insertCleaning(tx, req, changeovers);
+      return updated;
     });
 
     res.json(batchEvent);
   } catch (error: any) {
+    if (error instanceof BatchTransitionError) {
+      return res.status(409).json({ error: error.message });
+    }
     if (error.code === 'P2025') {
       return res.status(404).json({ error: 'Batch event not found' });
     }
@@ -226,17 +348,296 @@ router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
   }
 });
 
+// POST /batches/:id/start - Start a scheduled batch
+router.post('/:id/start', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { error, value } = startSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const batch = await prisma.batchEvent.findUnique({
+      where: { id },
+      include: { equipment: true }
+    });
+
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch event not found' });
+    }
+
+    if (!allowedTransitions[batch.status].includes('started')) {
+      return res.status(400).json({ error: `Cannot start a ${batch.status} batch` });
+    }
+
+    const { equipment, ...batchEvent } = batch;
+
+    if (equipment.status === 'maintenance' || equipment.status === 'offline') {
+      return res.status(400).json({ error: `Equipment "${equipment.name}" is ${equipment.status}` });
+    }
+
+    if (equipment.currentBatchId && equipment.currentBatchId !== id) {
+      return res.status(400).json({ error: `Equipment "${equipment.name}" is still running batch event ${equipment.currentBatchId}` });
+    }
+
+    const shortages = await inventoryService.findShortages(prisma, id);
+    if (shortages.length > 0) {
+      return res.status(400).json({ error: 'Insufficient inventory', shortages });
+    }
+
+    const started = await prisma.$transaction(async (tx) => {
+      const updated = await applyTransition(tx, req, batchEvent, {
+        status: 'started',
+        actualStart: value.actualStart ? new Date(value.actualStart) : new Date()
+      });
+
+      const equipmentAfter = await tx.equipment.update({
+        where: { id: equipment.id },
+        data: { status: 'in_use', currentBatchId: id }
+      });
+      await auditService.record(tx, req, { entityType: 'equipment', entityId: equipment.id, action: 'update', before: equipment, after: equipmentAfter });
+
+      const materialTransactions = await inventoryService.consumeForStart(tx, req, updated);
+
+      return { ...updated, materialTransactions };
+    });
+
+    res.json(started);
+  } catch (error: any) {
+    if (error instanceof InsufficientStockError) {
+      return res.status(400).json({ error: error.message, shortages: error.shortages });
+    }
+    if (error instanceof BatchTransitionError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Error starting batch event:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /batches/:id/complete - Complete a running batch
+router.post('/:id/complete', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { error, value } = completeSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const batch = await prisma.batchEvent.findUnique({ where: { id } });
+
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch event not found' });
+    }
+
+    if (!allowedTransitions[batch.status].includes('completed')) {
+      return res.status(400).json({ error: `Cannot complete a ${batch.status} batch` });
+    }
+
+    const actualEnd = value.actualEnd ? new Date(value.actualEnd) : new Date();
+    if (batch.actualStart && actualEnd <= batch.actualStart) {
+      return res.status(400).json({ error: 'Actual end time must be after actual start time' });
+    }
+
+    const completed = await prisma.$transaction(async (tx) => {
+      const updated = await applyTransition(tx, req, batch, { status: 'completed', actualEnd });
+      await releaseEquipment(tx, req, batch);
+      const materialVariance = await inventoryService.reconcileOnComplete(tx, req, updated);
+
+      return { ...updated, materialVariance };
+    });
+
+    // Notify outside the transaction; a failed email must not undo the completion
+    emailService.notifyBatchComplete(id);
+
+    res.json(completed);
+  } catch (error: any) {
+    if (error instanceof InsufficientStockError) {
+      return res.status(400).json({ error: error.message, shortages: error.shortages });
+    }
+    if (error instanceof BatchTransitionError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Error completing batch event:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /batches/:id/cancel - Cancel a scheduled or running batch
+router.post('/:id/cancel', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const batch = await prisma.batchEvent.findUnique({ where: { id } });
+
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch event not found' });
+    }
+
+    if (!allowedTransitions[batch.status].includes('cancelled')) {
+      return res.status(400).json({ error: `Cannot cancel a ${batch.status} batch` });
+    }
+
+    const cancelled = await prisma.$transaction(async (tx) => {
+      const updated = await applyTransition(tx, req, batch, { status: 'cancelled' });
+      await releaseEquipment(tx, req, batch);
+      return updated;
+    });
+
+    res.json(cancelled);
+  } catch (error: any) {
+    if (error instanceof BatchTransitionError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Error cancelling batch event:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /batches/:id/materials - Record actual material quantities used by a batch
+router.put('/:id/materials', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { error, value } = actualQuantitiesSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const batchEvent = await prisma.batchEvent.findUnique({
+      where: { id },
+      include: { materials: true }
+    });
+
+    if (!batchEvent) {
+      return res.status(404).json({ error: 'Batch event not found' });
+    }
+
+    // Stock has already been settled against the actuals of a completed batch
+    if (batchEvent.status === 'completed' || batchEvent.status === 'cancelled') {
+      return res.status(400).json({ error: `Cannot change material quantities of a ${batchEvent.status} batch` });
+    }
+
+    const unknown = value.materials.filter((m: any) => !batchEvent.materials.some(line => line.id === m.id));
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: `Material lines ${unknown.map((m: any) => m.id).join(', ')} do not belong to this batch` });
+    }
+
+    const materials = await prisma.$transaction(async (tx) => {
+      for (const { id: lineId, actualQuantity } of value.materials) {
+        const before = batchEvent.materials.find(line => line.id === lineId);
+        const updated = await tx.batchMaterial.update({
+          where: { id: lineId },
+          data: { actualQuantity }
+        });
+        await auditService.record(tx, req, { entityType: 'batch_material', entityId: lineId, action: 'update', before, after: updated });
+      }
+
+      return tx.batchMaterial.findMany({
+        where: { batchEventId: id },
+        include: { material: { select: { id: true, name: true, unit: true } } }
+      });
+    });
+
+    res.json(materials);
+  } catch (error) {
+    console.error('Error updating batch materials:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /batches/:id/genealogy - Lots each material of a batch was drawn from
+router.get('/:id/genealogy', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const batchEvent = await prisma.batchEvent.findUnique({
+      where: { id },
+      select: { id: true, batchNo: true, productName: true, status: true, actualStart: true, actualEnd: true }
+    });
+
+    if (!batchEvent) {
+      return res.status(404).json({ error: 'Batch event not found' });
+    }
+
+    res.json({
+      batchEvent,
+      materials: await batchRecordService.genealogy(prisma, id)
+    });
+  } catch (error) {
+    console.error('Error fetching batch genealogy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /batches/:id/record - Electronic batch record as JSON
+router.get('/:id/record', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const record = await batchRecordService.assemble(prisma, parseInt(req.params.id));
+
+    if (!record) {
+      return res.status(404).json({ error: 'Batch event not found' });
+    }
+
+    res.json(record);
+  } catch (error) {
+    console.error('Error assembling batch record:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /batches/:id/record.pdf - Printable electronic batch record
+router.get('/:id/record.pdf', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const record = await batchRecordService.assemble(prisma, parseInt(req.params.id));
+
+    if (!record) {
+      return res.status(404).json({ error: 'Batch event not found' });
+    }
+
+    const filename = `batch-record-${record.batchEvent.batchNo.replace(/[^\w.-]+/g, '_')}.pdf`;
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    batchRecordService.renderPdf(record, res);
+  } catch (error) {
+    console.error('Error generating batch record PDF:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // DELETE /batches/:id - Delete batch event
-router.delete('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
+router.delete('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id);
 
-    await prisma.batchEvent.delete({
-      where: { id }
+    const batch = await prisma.batchEvent.findUnique({ where: { id } });
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch event not found' });
+    }
+
+    // A started batch holds its equipment and has drawn stock, and a completed one is a record; cancel instead
+    if (batch.status === 'started' || batch.status === 'completed') {
+      return res.status(400).json({ error: `A ${batch.status} batch can't be deleted${batch.status === 'started' ? '; cancel it instead' : ''}` });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.batchEvent.deleteMany({
+        where: { id, status: batch.status }
+      });
+      if (deleted.count === 0) {
+        throw new BatchTransitionError('Batch status was changed by another request, please reload');
+      }
+      await auditService.record(tx, req, { entityType: 'batch_event', entityId: id, action: 'delete', before: batch });
     });
 
     res.json({ message: 'Batch event deleted successfully' });
   } catch (error: any) {
+    if (error instanceof BatchTransitionError) {
+      return res.status(409).json({ error: error.message });
+    }
     if (error.code === 'P2025') {
       return res.status(404).json({ error: 'Batch event not found' });
     }
@@ -0,0 +1,136 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireWriteAccess, requireReadAccess, AuthRequest } from '../middleware/auth';
+import { auditService } from '../services/auditService';
+import { changeoverService } from '../services/changeoverService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const ruleSchema = Joi.object({
+  equipmentId: Joi.number().integer().positive().required(),
+  fromProduct: Joi.string().trim().required(),
+  toProduct: Joi.string().trim().required(),
+  cleaningMinutes: Joi.number().integer().min(0).required(),
+  notes: Joi.string().allow('', null).optional()
+});
+
+const violationsSchema = Joi.object({
+  start: Joi.date().iso().optional(),
+  end: Joi.date().iso().optional(),
+  equipmentId: Joi.number().integer().positive().optional()
+});
+
+// GET /changeovers - List changeover rules, optionally for one piece of equipment
+router.get('/', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const { equipmentId } = req.query;
+
+    const rules = await prisma.changeoverRule.findMany({
+      where: equipmentId ? { equipmentId: parseInt(equipmentId as string) } : undefined,
+      include: { equipment: { select: { id: true, name: true } } },
+      orderBy: [{ equipmentId: 'asc' }, { fromProduct: 'asc' }, { toProduct: 'asc' }]
+    });
+
+    res.json(rules);
+  } catch (error) {
+    console.error('Error fetching changeover rules:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /changeovers/violations - Consecutive batches of different products without enough cleaning between them
+router.get('/violations', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const { error, value } = violationsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const violations = await changeoverService.violations(prisma, value);
+    res.json(violations);
+  } catch (error) {
+    console.error('Error checking changeovers:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /changeovers - Create a changeover rule
+router.post('/', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const { error, value } = ruleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const rule = await prisma.$transaction(async (tx) => {
+      const created = await tx.changeoverRule.create({ data: value });
+      await auditService.record(tx, req, { entityType: 'changeover_rule', entityId: created.id, action: 'create', after: created });
+      return created;
+    });
+
+    res.status(201).json(rule);
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      return res.status(409).json({ error: 'A rule for this equipment and product pair already exists' });
+    }
+    if (error.code === 'P2003') {
+      return res.status(400).json({ error: 'Equipment not found' });
+    }
+    console.error('Error creating changeover rule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /changeovers/:id - Update a changeover rule
+router.put('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { error, value } = ruleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const rule = await prisma.$transaction(async (tx) => {
+      const before = await tx.changeoverRule.findUnique({ where: { id } });
+      const updated = await tx.changeoverRule.update({ where: { id }, data: value });
+      await auditService.record(tx, req, { entityType: 'changeover_rule', entityId: id, action: 'update', before, after: updated });
+      return updated;
+    });
+
+    res.json(rule);
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Changeover rule not found' });
+    }
+    if (error.code === 'P2002') {
+      return res.status(409).json({ error: 'A rule for this equipment and product pair already exists' });
+    }
+    console.error('Error updating changeover rule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /changeovers/:id - Delete a changeover rule
+router.delete('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    await prisma.$transaction(async (tx) => {
+      const before = await tx.changeoverRule.findUnique({ where: { id } });
+      await tx.changeoverRule.delete({ where: { id } });
+      await auditService.record(tx, req, { entityType: 'changeover_rule', entityId: id, action: 'delete', before });
+    });
+
+    res.json({ message: 'Changeover rule deleted successfully' });
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Changeover rule not found' });
+    }
+    console.error('Error deleting changeover rule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
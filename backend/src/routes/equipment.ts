@@ -2,6 +2,7 @@ import express from 'express';
 import Joi from 'joi';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken, requireWriteAccess, requireReadAccess, AuthRequest } from '../middleware/auth';
+import { auditService } from '../services/auditService';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -15,6 +16,7 @@ const equipmentSchema = Joi.object({
   sizeUnit: Joi.string().allow('', null).optional(),
   capacity: Joi.number().allow(null).optional(),
   capacityUnit: Joi.string().allow('', null).optional(),
+  minimumFillPercent: Joi.number().min(0).max(100).allow(null).optional(),
   materialOfConstruction: Joi.string().allow('', null).optional(),
   isCustom: Joi.boolean().default(true)
 });
@@ -97,16 +99,20 @@ router.post('/', authenticateToken, requireWriteAccess, async (req: AuthRequest,
       return res.status(400).json({ error: 'Equipment with this name already exists' });
     }
 
-    const equipment = await prisma.equipment.create({
-      data: {
-        ...value,
-        createdByUserId: req.user!.id
-      },
-      include: {
-        createdBy: {
-          select: { id: true, email: true }
+    const equipment = await prisma.$transaction(async (tx) => {
+      const created = await tx.equipment.create({
+        data: {
+          ...value,
+          createdByUserId: req.user!.id
+        },
+        include: {
+          createdBy: {
+            select: { id: true, email: true }
+          }
         }
-      }
+      });
+      await auditService.record(tx, req, { entityType: 'equipment', entityId: created.id, action: 'create', after: created });
+      return created;
     });
 
     res.status(201).json(equipment);
@@ -117,7 +123,7 @@ router.post('/', authenticateToken, requireWriteAccess, async (req: AuthRequest,
 });
 
 // PUT /equipment/:id - Update equipment
-router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
+router.put('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id);
     const { error, value } = equipmentSchema.validate(req.body);
@@ -138,14 +144,19 @@ router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
       return res.status(400).json({ error: 'Equipment with this name already exists' });
     }
 
-    const equipment = await prisma.equipment.update({
-      where: { id },
-      data: value,
-      include: {
-        createdBy: {
-          select: { id: true, email: true }
+    const equipment = await prisma.$transaction(async (tx) => {
+      const before = await tx.equipment.findUnique({ where: { id } });
+      const updated = await tx.equipment.update({
+        where: { id },
+        data: value,
+        include: {
+          createdBy: {
+            select: { id: true, email: true }
+          }
         }
-      }
+      });
+      await auditService.record(tx, req, { entityType: 'equipment', entityId: id, action: 'update', before, after: updated });
+      return updated;
     });
 
     res.json(equipment);
@@ -159,7 +170,7 @@ router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
 });
 
 // DELETE /equipment/:id - Delete equipment
-router.delete('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
+router.delete('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id);
 
@@ -187,8 +198,11 @@ router.delete('/:id', authenticateToken, requireWriteAccess, async (req, res) =>
       });
     }
 
-    await prisma.equipment.delete({
-      where: { id }
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.equipment.delete({
+        where: { id }
+      });
+      await auditService.record(tx, req, { entityType: 'equipment', entityId: id, action: 'delete', before: deleted });
     });
 
     res.json({ message: 'Equipment deleted successfully' });
@@ -2,6 +2,7 @@ import express from 'express';
 import ExcelJS from 'exceljs';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken, requireReadAccess, AuthRequest } from '../middleware/auth';
+import { analyticsService, AdherenceGroup } from '../services/analyticsService';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -63,6 +64,7 @@ router.get('/events.xlsx', authenticateToken, requireReadAccess, async (req: Aut
       { header: 'Batch No', key: 'batchNo', width: 15 },
       { header: 'Product Name', key: 'productName', width: 25 },
       { header: 'Batch Size', key: 'batchSize', width: 15 },
+      { header: 'Batch Size Unit', key: 'batchSizeUnit', width: 15 },
       { header: 'Planned Start', key: 'startTimestamp', width: 20 },
       { header: 'Planned End', key: 'endTimestamp', width: 20 },
       { header: 'Actual Start', key: 'actualStart', width: 20 },
@@ -77,6 +79,7 @@ router.get('/events.xlsx', authenticateToken, requireReadAccess, async (req: Aut
         batchNo: event.batchNo,
         productName: event.productName,
         batchSize: event.batchSize?.toString(),
+        batchSizeUnit: event.batchSizeUnit,
         startTimestamp: event.startTimestamp,
         endTimestamp: event.endTimestamp,
         actualStart: event.actualStart,
@@ -227,4 +230,113 @@ router.get('/summary.xlsx', authenticateToken, requireReadAccess, async (req: Au
   }
 });
 
-export default router;
\ No newline at end of file
+// GET /export/adherence.xlsx - Export the schedule adherence report
+router.get('/adherence.xlsx', authenticateToken, requireReadAccess, async (req: AuthRequest, res) => {
+  try {
+    const { startDate, endDate, equipmentId } = req.query;
+
+    // Same default range as GET /analytics/adherence
+    const end = endDate ? new Date(endDate as string) : new Date();
+    const start = startDate ? new Date(startDate as string) : new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      return res.status(400).json({ error: 'Invalid date range' });
+    }
+
+    const report = await analyticsService.adherence(prisma, {
+      start,
+      end,
+      equipmentId: equipmentId ? parseInt(equipmentId as string) : undefined
+    });
+
+    const workbook = new ExcelJS.Workbook();
+
+    // One sheet per grouping, with the same columns
+    const groupSheets: [string, AdherenceGroup[]][] = [
+      ['By Equipment', report.byEquipment],
+      ['By Product', report.byProduct],
+      ['By Week', report.byWeek],
+      ['Totals', [report.totals]]
+    ];
+    const sheets = groupSheets.map(([name, groups]) => {
+      const sheet = workbook.addWorksheet(name);
+      sheet.columns = [
+        { header: 'Group', key: 'label', width: 25 },
+        { header: 'Events', key: 'events', width: 10 },
+        { header: 'On Time', key: 'onTime', width: 10 },
+        { header: 'Late Starts', key: 'lateStarts', width: 12 },
+        { header: 'Late Start Minutes', key: 'lateStartMinutes', width: 18 },
+        { header: 'Overruns', key: 'overruns', width: 10 },
+        { header: 'Overrun Minutes', key: 'overrunMinutes', width: 16 },
+        { header: 'Early Finishes', key: 'earlyFinishes', width: 14 },
+        { header: 'Delay Reasons', key: 'reasons', width: 40 }
+      ];
+      groups.forEach(group => {
+        sheet.addRow({
+          ...group,
+          reasons: Object.entries(group.reasons).map(([reason, count]) => `${reason}: ${count}`).join(', ')
+        });
+      });
+      return sheet;
+    });
+
+    const reasonSheet = workbook.addWorksheet('Delay Reasons');
+    reasonSheet.columns = [
+      { header: 'Reason', key: 'reason', width: 20 },
+      { header: 'Delayed Events', key: 'events', width: 15 },
+      { header: 'Delay Minutes', key: 'delayMinutes', width: 15 }
+    ];
+    report.byReason.forEach(row => reasonSheet.addRow(row));
+
+    const eventSheet = workbook.addWorksheet('Events');
+    eventSheet.columns = [
+      { header: 'Type', key: 'type', width: 12 },
+      { header: 'ID', key: 'id', width: 8 },
+      { header: 'Event', key: 'label', width: 30 },
+      { header: 'Equipment', key: 'equipment', width: 20 },
+      { header: 'Week', key: 'week', width: 12 },
+      { header: 'Planned Start', key: 'startTimestamp', width: 20 },
+      { header: 'Planned End', key: 'endTimestamp', width: 20 },
+      { header: 'Actual Start', key: 'actualStart', width: 20 },
+      { header: 'Actual End', key: 'actualEnd', width: 20 },
+      { header: 'Start Delay (min)', key: 'startDelayMinutes', width: 16 },
+      { header: 'Overrun (min)', key: 'overrunMinutes', width: 14 },
+      { header: 'Finish Delta (min)', key: 'finishDeltaMinutes', width: 17 },
+      { header: 'Late Start', key: 'lateStart', width: 10 },
+      { header: 'Overrun', key: 'overrun', width: 10 },
+      { header: 'Early Finish', key: 'earlyFinish', width: 12 },
+      { header: 'Delay Reason', key: 'delayReason', width: 18 },
+      { header: 'Delay Notes', key: 'delayNotes', width: 40 }
+    ];
+    report.events.forEach(event => {
+      eventSheet.addRow({
+        ...event,
+        equipment: event.equipment.name,
+        lateStart: event.lateStart ? 'Yes' : '',
+        overrun: event.overrun ? 'Yes' : '',
+        earlyFinish: event.earlyFinish ? 'Yes' : ''
+      });
+    });
+
+    // Style headers
+    [...sheets, reasonSheet, eventSheet].forEach(sheet => {
+      sheet.getRow(1).font = { bold: true };
+      sheet.getRow(1).fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFE0E0E0' }
+      };
+    });
+
+    const filename = `schedule_adherence_${new Date().toISOString().split('T')[0]}.xlsx`;
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    await workbook.xlsx.write(res);
+    res.end();
+  } catch (error) {
+    console.error('Error exporting adherence report:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
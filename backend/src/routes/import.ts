@@ -1,8 +1,17 @@
 import express from 'express';
 import multer from 'multer';
+import fs from 'fs';
+import Joi from 'joi';
+import ExcelJS from 'exceljs';
+import { PrismaClient } from '@prisma/client';
 import { authenticateToken, requireWriteAccess, AuthRequest } from '../middleware/auth';
+import { auditService } from '../services/auditService';
+import { equipmentCheckService } from '../services/equipmentCheckService';
+import { availabilityService, BookingType } from '../services/availabilityService';
+import { changeoverService, ChangeoverViolation } from '../services/changeoverService';
 
 const router = express.Router();
+const prisma = new PrismaClient();
 
 // Configure multer for file uploads
 const upload = multer({
@@ -12,7 +21,7 @@ const upload = multer({
   },
   fileFilter: (req, file, cb) => {
     // Only allow Excel files
-    if (file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' || 
+    if (file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
         file.mimetype === 'application/vnd.ms-excel' ||
         file.originalname.endsWith('.xlsx') ||
         file.originalname.endsWith('.xls')) {
@@ -23,52 +32,462 @@ const upload = multer({
   }
 });
 
-// POST /import - Import Excel file (placeholder)
+// Sheet names and column headers match what GET /export/events.xlsx writes
+const BATCH_SHEET = 'Batch Events';
+const MAINTENANCE_SHEET = 'Maintenance Events';
+
+const batchRowSchema = Joi.object({
+  id: Joi.number().integer().positive().optional().allow(null).label('ID'),
+  batchNo: Joi.string().required().label('Batch No'),
+  productName: Joi.string().required().label('Product Name'),
+  batchSize: Joi.number().positive().optional().allow(null).label('Batch Size'),
+  batchSizeUnit: Joi.string().optional().allow(null).label('Batch Size Unit'),
+  startTimestamp: Joi.date().required().label('Planned Start'),
+  endTimestamp: Joi.date().greater(Joi.ref('startTimestamp')).required().label('Planned End'),
+  actualStart: Joi.date().optional().allow(null).label('Actual Start'),
+  actualEnd: Joi.date().optional().allow(null).label('Actual End'),
+  inputs: Joi.object().optional().allow(null).label('Inputs')
+});
+
+const maintenanceRowSchema = Joi.object({
+  id: Joi.number().integer().positive().optional().allow(null).label('ID'),
+  reason: Joi.string().valid('scheduled', 'breakdown', 'preventive', 'cleaning', 'upgrade').required().label('Reason'),
+  expectedDuration: Joi.string().optional().allow(null, '').label('Expected Duration'),
+  supervisorName: Joi.string().optional().allow(null, '').label('Supervisor'),
+  startTimestamp: Joi.date().required().label('Planned Start'),
+  endTimestamp: Joi.date().greater(Joi.ref('startTimestamp')).required().label('Planned End'),
+  actualStart: Joi.date().optional().allow(null).label('Actual Start'),
+  actualEnd: Joi.date().optional().allow(null).label('Actual End'),
+  spareParts: Joi.alternatives().try(Joi.object(), Joi.array()).optional().allow(null).label('Spare Parts'),
+  changesMade: Joi.string().optional().allow(null, '').label('Changes Made')
+});
+
+interface RowResult {
+  sheet: string;
+  row: number;
+  status: 'valid' | 'created' | 'updated' | 'error';
+  id?: number;
+  errors?: string[];
+  conflicts?: Array<{ type: BookingType; id: number | null; label: string; startTimestamp: Date; endTimestamp: Date; source: 'database' | 'file' }>;
+  changeovers?: ChangeoverViolation[];
+}
+
+// A scheduled slot already accepted from this file, so later rows can't double-book it
+interface PlannedSlot {
+  type: BookingType;
+  equipmentId: number;
+  label: string;
+  productName?: string; // Batches
+  reason?: string; // Maintenance
+  start: Date;
+  end: Date;
+}
+
+// Unwrap rich text, formulas and hyperlinks into a plain value; blank cells become null
+const cellValue = (cell: ExcelJS.Cell): unknown => {
+  const value: any = cell.value;
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date || typeof value !== 'object') {
+    return typeof value === 'string' && value.trim() === '' ? null : value;
+  }
+  if (value.richText) return value.richText.map((part: any) => part.text).join('');
+  if (value.result !== undefined) return value.result;
+  if (value.text !== undefined) return value.text;
+  return null;
+};
+
+const parseJsonCell = (value: unknown, column: string, errors: string[]) => {
+  if (value === null) return null;
+  if (typeof value !== 'string') {
+    errors.push(`"${column}" must be JSON`);
+    return null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    errors.push(`"${column}" is not valid JSON`);
+    return null;
+  }
+};
+
+// Read a worksheet into header-keyed records, matching headers case-insensitively
+const readSheet = (sheet: ExcelJS.Worksheet) => {
+  const headers: Record<number, string> = {};
+  sheet.getRow(1).eachCell((cell, colNumber) => {
+    headers[colNumber] = String(cellValue(cell) ?? '').trim().toLowerCase();
+  });
+
+  const rows: Array<{ row: number; values: Record<string, unknown> }> = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const values: Record<string, unknown> = {};
+    row.eachCell((cell, colNumber) => {
+      if (headers[colNumber]) values[headers[colNumber]] = cellValue(cell);
+    });
+    if (Object.values(values).some(value => value !== null)) {
+      rows.push({ row: rowNumber, values });
+    }
+  });
+
+  return rows;
+};
+
+const text = (values: Record<string, unknown>, key: string) =>
+  values[key] === null || values[key] === undefined ? null : String(values[key]);
+
+const findSheet = (workbook: ExcelJS.Workbook, name: string) =>
+  workbook.worksheets.find(sheet => sheet.name.trim().toLowerCase() === name.toLowerCase());
+
+const overlaps = (slot: PlannedSlot, equipmentId: number, start: Date, end: Date) =>
+  slot.equipmentId === equipmentId && slot.start < end && slot.end > start;
+
+// POST /import - Import batch and maintenance events from an Excel file
 router.post('/', authenticateToken, requireWriteAccess, upload.single('file'), async (req: AuthRequest, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' });
+  }
+
+  const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === 'true';
+
   try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No file uploaded' });
+    const workbook = new ExcelJS.Workbook();
+    try {
+      await workbook.xlsx.readFile(req.file.path);
+    } catch (error) {
+      return res.status(400).json({ error: 'Could not read Excel file' });
+    }
+
+    const batchSheet = findSheet(workbook, BATCH_SHEET);
+    const maintenanceSheet = findSheet(workbook, MAINTENANCE_SHEET);
+
+    if (!batchSheet && !maintenanceSheet) {
+      return res.status(400).json({
+        error: `Workbook must contain a "${BATCH_SHEET}" or "${MAINTENANCE_SHEET}" sheet`
+      });
     }
 
-    // TODO: Implement Excel parsing and data import
-    // For now, just return a placeholder response
-    
-    console.log('File uploaded:', {
-      filename: req.file.originalname,
-      size: req.file.size,
-      mimetype: req.file.mimetype,
-      path: req.file.path
+    // Equipment may be referenced by display name or by its equipment ID
+    const equipment = await prisma.equipment.findMany({
+      select: { id: true, name: true, equipmentId: true }
+    });
+    const resolveEquipment = (reference: unknown) => {
+      if (reference === null) return undefined;
+      const key = String(reference).trim().toLowerCase();
+      return equipment.find(e => e.name.toLowerCase() === key || e.equipmentId?.toLowerCase() === key);
+    };
+
+    const results: RowResult[] = [];
+    const plannedSlots: PlannedSlot[] = [];
+
+    // Rows a preview has accepted on this equipment; a real import has already saved them
+    const pendingOn = (equipmentId: number) => ({
+      batches: plannedSlots
+        .filter(slot => slot.type === 'batch' && slot.equipmentId === equipmentId)
+        .map(slot => ({ id: null, batchNo: slot.label, productName: slot.productName!, startTimestamp: slot.start, endTimestamp: slot.end })),
+      maintenance: plannedSlots
+        .filter(slot => slot.type === 'maintenance' && slot.equipmentId === equipmentId)
+        .map(slot => ({ reason: slot.reason!, startTimestamp: slot.start, endTimestamp: slot.end }))
     });
 
-    // Cleanup uploaded file
-    const fs = require('fs');
-    fs.unlinkSync(req.file.path);
+    // Maintenance goes first so cleaning rows in the file count towards the changeovers of batch rows
+    for (const { row, values } of maintenanceSheet ? readSheet(maintenanceSheet) : []) {
+      const errors: string[] = [];
+      const match = resolveEquipment(values['equipment']);
+      if (!match) {
+        errors.push(values['equipment'] === null || values['equipment'] === undefined
+          ? '"Equipment" is required'
+          : `Equipment "${values['equipment']}" not found`);
+      }
+
+      const spareParts = parseJsonCell(values['spare parts'] ?? null, 'Spare Parts', errors);
+
+      const { error, value } = maintenanceRowSchema.validate({
+        id: values['id'] ?? null,
+        reason: text(values, 'reason')?.trim().toLowerCase() ?? undefined,
+        expectedDuration: text(values, 'expected duration'),
+        supervisorName: text(values, 'supervisor'),
+        startTimestamp: values['planned start'] ?? undefined,
+        endTimestamp: values['planned end'] ?? undefined,
+        actualStart: values['actual start'] ?? null,
+        actualEnd: values['actual end'] ?? null,
+        spareParts,
+        changesMade: text(values, 'changes made')
+      }, { abortEarly: false });
+
+      if (error) {
+        errors.push(...error.details.map(detail => detail.message));
+      }
+
+      if (errors.length > 0 || !match) {
+        results.push({ sheet: MAINTENANCE_SHEET, row, status: 'error', errors });
+        continue;
+      }
+
+      const existing = value.id ? await prisma.maintenanceEvent.findUnique({ where: { id: value.id } }) : null;
+      if (value.id && !existing) {
+        results.push({ sheet: MAINTENANCE_SHEET, row, status: 'error', errors: [`Maintenance event ${value.id} not found`] });
+        continue;
+      }
+
+      // Maintenance can't be imported over a batch or other maintenance on the same equipment
+      const start = new Date(value.startTimestamp);
+      const end = new Date(value.endTimestamp);
+      const availability = await availabilityService.check(prisma, {
+        equipmentId: match.id,
+        startTimestamp: start,
+        endTimestamp: end,
+        type: 'maintenance',
+        excludeId: value.id || undefined
+      });
+      const conflicts: NonNullable<RowResult['conflicts']> = [
+        ...availability.conflicts.map(c => ({
+          type: c.type,
+          id: c.id,
+          label: c.label,
+          startTimestamp: c.startTimestamp,
+          endTimestamp: c.endTimestamp,
+          source: 'database' as const
+        })),
+        ...plannedSlots.filter(slot => overlaps(slot, match.id, start, end)).map(slot => ({
+          type: slot.type,
+          id: null,
+          label: slot.label,
+          startTimestamp: slot.start,
+          endTimestamp: slot.end,
+          source: 'file' as const
+        }))
+      ];
+
+      if (!availability.available || conflicts.length > 0) {
+        results.push({
+          sheet: MAINTENANCE_SHEET,
+          row,
+          status: 'error',
+          errors: [availability.message || `Equipment "${match.name}" is already booked by an earlier row in this file`],
+          conflicts
+        });
+        continue;
+      }
+
+      plannedSlots.push({ type: 'maintenance', equipmentId: match.id, label: `Maintenance: ${value.reason}`, reason: value.reason, start, end });
+
+      if (dryRun) {
+        results.push({ sheet: MAINTENANCE_SHEET, row, status: 'valid', id: value.id || undefined });
+        continue;
+      }
+
+      const data = {
+        equipmentId: match.id,
+        reason: value.reason,
+        expectedDuration: value.expectedDuration || null,
+        supervisorName: value.supervisorName || null,
+        startTimestamp: start,
+        endTimestamp: end,
+        actualStart: value.actualStart ? new Date(value.actualStart) : null,
+        actualEnd: value.actualEnd ? new Date(value.actualEnd) : null,
+        spareParts: value.spareParts ?? undefined,
+        changesMade: value.changesMade || null
+      };
+
+      const maintenanceEvent = await prisma.$transaction(async (tx) => {
+        const saved = existing
+          ? await tx.maintenanceEvent.update({ where: { id: existing.id }, data })
+          : await tx.maintenanceEvent.create({ data });
+
+        await auditService.record(tx, req, {
+          entityType: 'maintenance_event',
+          entityId: saved.id,
+          action: existing ? 'update' : 'create',
+          before: existing,
+          after: saved
+        });
+
+        return saved;
+      });
+
+      results.push({ sheet: MAINTENANCE_SHEET, row, status: existing ? 'updated' : 'created', id: maintenanceEvent.id });
+    }
+
+    for (const { row, values } of batchSheet ? readSheet(batchSheet) : []) {
+      const errors: string[] = [];
+      const match = resolveEquipment(values['equipment']);
+      if (!match) {
+        errors.push(values['equipment'] === null || values['equipment'] === undefined
+          ? '"Equipment" is required'
+          : `Equipment "${values['equipment']}" not found`);
+      }
+
+      const inputs = parseJsonCell(values['inputs'] ?? null, 'Inputs', errors);
+
+      const { error, value } = batchRowSchema.validate({
+        id: values['id'] ?? null,
+        batchNo: text(values, 'batch no') ?? undefined,
+        productName: text(values, 'product name') ?? undefined,
+        batchSize: values['batch size'] ?? null,
+        batchSizeUnit: text(values, 'batch size unit'),
+        startTimestamp: values['planned start'] ?? undefined,
+        endTimestamp: values['planned end'] ?? undefined,
+        actualStart: values['actual start'] ?? null,
+        actualEnd: values['actual end'] ?? null,
+        inputs
+      }, { abortEarly: false });
+
+      if (error) {
+        errors.push(...error.details.map(detail => detail.message));
+      }
+
+      if (errors.length > 0 || !match) {
+        results.push({ sheet: BATCH_SHEET, row, status: 'error', errors });
+        continue;
+      }
+
+      const existing = value.id ? await prisma.batchEvent.findUnique({ where: { id: value.id } }) : null;
+      if (value.id && !existing) {
+        results.push({ sheet: BATCH_SHEET, row, status: 'error', errors: [`Batch event ${value.id} not found`] });
+        continue;
+      }
+
+      const start = new Date(value.startTimestamp);
+      const end = new Date(value.endTimestamp);
+      const availability = await availabilityService.check(prisma, {
+        equipmentId: match.id,
+        startTimestamp: start,
+        endTimestamp: end,
+        type: 'batch',
+        excludeId: value.id || undefined
+      });
+      const conflicts: NonNullable<RowResult['conflicts']> = [
+        ...availability.conflicts.map(c => ({
+          type: c.type,
+          id: c.id,
+          label: c.label,
+          startTimestamp: c.startTimestamp,
+          endTimestamp: c.endTimestamp,
+          source: 'database' as const
+        })),
+        ...plannedSlots.filter(slot => overlaps(slot, match.id, start, end)).map(slot => ({
+          type: slot.type,
+          id: null,
+          label: slot.label,
+          startTimestamp: slot.start,
+          endTimestamp: slot.end,
+          source: 'file' as const
+        }))
+      ];
+
+      if (!availability.available || conflicts.length > 0) {
+        results.push({
+          sheet: BATCH_SHEET,
+          row,
+          status: 'error',
+          errors: [availability.message || `Equipment "${match.name}" is already booked by an earlier row in this file`],
+          conflicts
+        });
+        continue;
+      }
+
+      const lines = value.id
+        ? await prisma.batchMaterial.findMany({ where: { batchEventId: value.id }, select: { materialId: true } })
+        : [];
+      const issues = await equipmentCheckService.check(prisma, {
+        equipmentId: match.id,
+        batchSize: value.batchSize,
+        batchSizeUnit: value.batchSizeUnit,
+        materialIds: lines.map(line => line.materialId)
+      });
+      if (equipmentCheckService.blockingMessage(issues)) {
+        results.push({
+          sheet: BATCH_SHEET,
+          row,
+          status: 'error',
+          errors: issues.filter(issue => issue.severity === 'error').map(issue => issue.message)
+        });
+        continue;
+      }
+
+      // Switching products needs cleaning between this batch and its neighbours. Like PUT /batches, an
+      // existing batch is only rechecked when it moves or changes product.
+      const rescheduled = !existing ||
+        existing.equipmentId !== match.id ||
+        existing.productName !== value.productName ||
+        existing.startTimestamp.getTime() !== start.getTime() ||
+        existing.endTimestamp.getTime() !== end.getTime();
+      const changeovers = rescheduled
+        ? await changeoverService.check(prisma, {
+          equipmentId: match.id,
+          batchNo: value.batchNo,
+          productName: value.productName,
+          startTimestamp: start,
+          endTimestamp: end,
+          excludeId: existing?.id,
+          pending: dryRun ? pendingOn(match.id) : undefined
+        })
+        : [];
+      const changeoverBlocking = changeoverService.blockingMessage(changeovers);
+      if (changeoverBlocking) {
+        results.push({ sheet: BATCH_SHEET, row, status: 'error', errors: [changeoverBlocking], changeovers });
+        continue;
+      }
+
+      plannedSlots.push({ type: 'batch', equipmentId: match.id, label: value.batchNo, productName: value.productName, start, end });
+
+      if (dryRun) {
+        results.push({ sheet: BATCH_SHEET, row, status: 'valid', id: value.id || undefined });
+        continue;
+      }
+
+      const data = {
+        equipmentId: match.id,
+        batchNo: value.batchNo,
+        productName: value.productName,
+        batchSize: value.batchSize,
+        batchSizeUnit: value.batchSizeUnit,
+        startTimestamp: start,
+        endTimestamp: end,
+        actualStart: value.actualStart ? new Date(value.actualStart) : null,
+        actualEnd: value.actualEnd ? new Date(value.actualEnd) : null,
+        inputs: value.inputs ?? undefined
+      };
+
+      const batchEvent = await prisma.$transaction(async (tx) => {
+        const saved = existing
+          ? await tx.batchEvent.update({ where: { id: existing.id }, data })
+          : await tx.batchEvent.create({ data });
+
+        await auditService.record(tx, req, {
+          entityType: 'batch_event',
+          entityId: saved.id,
+          action: existing ? 'update' : 'create',
+          before: existing,
+          after: saved
+        });
+
+        return saved;
+      });
+
+      results.push({ sheet: BATCH_SHEET, row, status: existing ? 'updated' : 'created', id: batchEvent.id });
+    }
+
+    results.sort((x, y) => (x.sheet === y.sheet ? x.row - y.row : x.sheet === BATCH_SHEET ? -1 : 1));
 
     res.json({
-      message: 'Excel import feature not yet implemented',
-      fileInfo: {
-        originalName: req.file.originalname,
-        size: req.file.size,
-        uploadedBy: req.user?.email
+      dryRun,
+      fileName: req.file.originalname,
+      summary: {
+        total: results.length,
+        valid: results.filter(r => r.status === 'valid').length,
+        created: results.filter(r => r.status === 'created').length,
+        updated: results.filter(r => r.status === 'updated').length,
+        errors: results.filter(r => r.status === 'error').length
       },
-      status: 'placeholder',
-      todo: [
-        'Parse Excel file using ExcelJS',
-        'Validate data format and required columns',
-        'Check for equipment conflicts',
-        'Create batch events and maintenance events',
-        'Return import summary with success/error counts'
-      ]
+      results
     });
   } catch (error: any) {
     console.error('Error in import route:', error);
-    
-    if (error.message === 'Only Excel files are allowed') {
-      return res.status(400).json({ error: error.message });
-    }
-    
     res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    fs.unlink(req.file.path, () => undefined);
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,187 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, MaintenancePlan } from '@prisma/client';
+import { authenticateToken, requireWriteAccess, requireReadAccess, AuthRequest } from '../middleware/auth';
+import { auditService } from '../services/auditService';
+import { maintenancePlanService } from '../services/maintenancePlanService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const planSchema = Joi.object({
+  equipmentId: Joi.number().integer().positive().required(),
+  name: Joi.string().trim().required(),
+  triggerType: Joi.string().valid('calendar', 'runtime_hours', 'batch_count').required(),
+  interval: Joi.number().integer().min(1).required(), // Days, run hours or batches
+  durationMinutes: Joi.number().integer().min(1).required(),
+  supervisorEmail: Joi.string().email().allow('', null).optional(),
+  notes: Joi.string().allow('', null).optional(),
+  active: Joi.boolean().default(true)
+});
+
+const generateSchema = Joi.object({
+  planId: Joi.number().integer().positive().optional()
+});
+
+const planInclude = {
+  equipment: { select: { id: true, name: true } },
+  supervisor: { select: { id: true, email: true } }
+};
+
+const withStatus = async <T extends MaintenancePlan>(plan: T) => ({
+  ...plan,
+  status: await maintenancePlanService.status(prisma, plan)
+});
+
+// Swap the supervisor's email for their user id; undefined when no user has that email
+const resolveSupervisor = async (value: any) => {
+  const { supervisorEmail, ...data } = value;
+  if (!supervisorEmail) {
+    return { ...data, supervisorUserId: null };
+  }
+  const supervisor = await prisma.user.findUnique({ where: { email: supervisorEmail }, select: { id: true } });
+  return supervisor ? { ...data, supervisorUserId: supervisor.id } : undefined;
+};
+
+// GET /maintenance-plans - List preventive maintenance plans with their current status
+router.get('/', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const { equipmentId } = req.query;
+
+    const plans = await prisma.maintenancePlan.findMany({
+      where: equipmentId ? { equipmentId: parseInt(equipmentId as string) } : undefined,
+      include: planInclude,
+      orderBy: [{ equipmentId: 'asc' }, { name: 'asc' }]
+    });
+
+    res.json(await Promise.all(plans.map(withStatus)));
+  } catch (error) {
+    console.error('Error fetching maintenance plans:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /maintenance-plans/:id - Get a maintenance plan with its status and generated events
+router.get('/:id', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const plan = await prisma.maintenancePlan.findUnique({
+      where: { id },
+      include: {
+        ...planInclude,
+        maintenanceEvents: { orderBy: { startTimestamp: 'desc' } }
+      }
+    });
+
+    if (!plan) {
+      return res.status(404).json({ error: 'Maintenance plan not found' });
+    }
+
+    res.json(await withStatus(plan));
+  } catch (error) {
+    console.error('Error fetching maintenance plan:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /maintenance-plans - Create a maintenance plan
+router.post('/', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const { error, value } = planSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const data = await resolveSupervisor(value);
+    if (!data) {
+      return res.status(400).json({ error: 'No user with the supervisor email' });
+    }
+
+    const plan = await prisma.$transaction(async (tx) => {
+      const created = await tx.maintenancePlan.create({ data, include: planInclude });
+      await auditService.record(tx, req, { entityType: 'maintenance_plan', entityId: created.id, action: 'create', after: created });
+      return created;
+    });
+
+    res.status(201).json(await withStatus(plan));
+  } catch (error: any) {
+    if (error.code === 'P2003') {
+      return res.status(400).json({ error: 'Equipment not found' });
+    }
+    console.error('Error creating maintenance plan:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /maintenance-plans/generate - Book PM events for plans falling due now instead of waiting for the hourly job
+router.post('/generate', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const { error, value } = generateSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const result = await maintenancePlanService.generate(prisma, req, { planId: value.planId });
+    res.json(result);
+  } catch (error) {
+    console.error('Error generating preventive maintenance:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /maintenance-plans/:id - Update a maintenance plan
+router.put('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { error, value } = planSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const data = await resolveSupervisor(value);
+    if (!data) {
+      return res.status(400).json({ error: 'No user with the supervisor email' });
+    }
+
+    const plan = await prisma.$transaction(async (tx) => {
+      const before = await tx.maintenancePlan.findUnique({ where: { id } });
+      const updated = await tx.maintenancePlan.update({ where: { id }, data, include: planInclude });
+      await auditService.record(tx, req, { entityType: 'maintenance_plan', entityId: id, action: 'update', before, after: updated });
+      return updated;
+    });
+
+    res.json(await withStatus(plan));
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Maintenance plan not found' });
+    }
+    if (error.code === 'P2003') {
+      return res.status(400).json({ error: 'Equipment not found' });
+    }
+    console.error('Error updating maintenance plan:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /maintenance-plans/:id - Delete a maintenance plan; events it generated are kept
+router.delete('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.maintenancePlan.delete({ where: { id } });
+      await auditService.record(tx, req, { entityType: 'maintenance_plan', entityId: id, action: 'delete', before: deleted });
+    });
+
+    res.json({ message: 'Maintenance plan deleted successfully' });
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Maintenance plan not found' });
+    }
+    console.error('Error deleting maintenance plan:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -2,6 +2,9 @@ import express from 'express';
 import Joi from 'joi';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken, requireWriteAccess, requireReadAccess, AuthRequest } from '../middleware/auth';
+import { auditService } from '../services/auditService';
+import { availabilityService } from '../services/availabilityService';
+import { sparePartService, InsufficientPartsError, PartNotFittedError } from '../services/sparePartService';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -11,12 +14,18 @@ const maintenanceEventSchema = Joi.object({
   reason: Joi.string().valid('scheduled', 'breakdown', 'preventive', 'cleaning', 'upgrade').required(),
   expectedDuration: Joi.string().optional(),
   supervisorName: Joi.string().optional(),
-  spareParts: Joi.object().optional(),
+  spareParts: Joi.object().optional(), // Free-text parts from before the spare parts catalogue
+  parts: Joi.array().items(Joi.object({
+    sparePartId: Joi.number().integer().positive().required(),
+    quantity: Joi.number().positive().required()
+  })).optional(), // Replaces the parts reserved for the event
   changesMade: Joi.string().optional(),
   startTimestamp: Joi.date().iso().required(),
   endTimestamp: Joi.date().iso().required(),
   actualStart: Joi.date().iso().optional().allow(null),
-  actualEnd: Joi.date().iso().optional().allow(null)
+  actualEnd: Joi.date().iso().optional().allow(null),
+  delayReason: Joi.string().valid('breakdown', 'material_shortage', 'staffing', 'quality_hold', 'changeover', 'upstream_delay', 'other').allow(null).optional(),
+  delayNotes: Joi.string().allow('', null).optional()
 }).custom((value, helpers) => {
   if (new Date(value.endTimestamp) <= new Date(value.startTimestamp)) {
     return helpers.error('any.invalid', { message: 'End time must be after start time' });
@@ -29,6 +38,18 @@ const maintenanceEventSchema = Joi.object({
   return value;
 });
 
+const partSelect = { id: true, partNumber: true, name: true, unit: true };
+
+const partErrorResponse = (error: unknown) => {
+  if (error instanceof InsufficientPartsError) {
+    return { error: error.message, shortages: error.shortages };
+  }
+  if (error instanceof PartNotFittedError) {
+    return { error: error.message };
+  }
+  return null;
+};
+
 // GET /maintenance - Get all maintenance events
 router.get('/', authenticateToken, requireReadAccess, async (req: AuthRequest, res) => {
   try {
@@ -64,7 +85,9 @@ router.get('/', authenticateToken, requireReadAccess, async (req: AuthRequest, r
     const maintenanceEvents = await prisma.maintenanceEvent.findMany({
       where,
       include: {
-        equipment: { select: { id: true, name: true } }
+        equipment: { select: { id: true, name: true } },
+        maintenancePlan: { select: { id: true, name: true } },
+        parts: { include: { sparePart: { select: partSelect } } }
       },
       orderBy: { startTimestamp: 'asc' }
     });
@@ -84,7 +107,9 @@ router.get('/:id', authenticateToken, requireReadAccess, async (req, res) => {
     const maintenanceEvent = await prisma.maintenanceEvent.findUnique({
       where: { id },
       include: {
-        equipment: { select: { id: true, name: true } }
+        equipment: { select: { id: true, name: true } },
+        maintenancePlan: { select: { id: true, name: true } },
+        parts: { include: { sparePart: { select: partSelect } } }
       }
     });
 
@@ -107,22 +132,59 @@ router.post('/', authenticateToken, requireWriteAccess, async (req: AuthRequest,
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    const maintenanceEvent = await prisma.maintenanceEvent.create({
-      data: value,
-      include: {
-        equipment: { select: { id: true, name: true } }
+    // Maintenance can't be booked over a batch or other maintenance on the same equipment
+    const availability = await availabilityService.check(prisma, {
+      equipmentId: value.equipmentId,
+      startTimestamp: new Date(value.startTimestamp),
+      endTimestamp: new Date(value.endTimestamp),
+      type: 'maintenance'
+    });
+
+    if (!availability.available) {
+      return res.status(400).json(availabilityService.conflictResponse(availability));
+    }
+
+    const { parts, ...data } = value;
+    const partIds: number[] = (parts || []).map((p: { sparePartId: number }) => p.sparePartId);
+    const stockBefore = await sparePartService.stockLevels(prisma, partIds);
+
+    // Parts are reserved with the event, and consumed straight away when it is recorded as done
+    const maintenanceEvent = await prisma.$transaction(async (tx) => {
+      const event = await tx.maintenanceEvent.create({ data });
+      if (parts) {
+        await sparePartService.reserve(tx, req, event, parts);
       }
+      if (event.actualEnd) {
+        await sparePartService.consume(tx, req, event.id);
+      }
+
+      const created = await tx.maintenanceEvent.findUniqueOrThrow({
+        where: { id: event.id },
+        include: {
+          equipment: { select: { id: true, name: true } },
+          maintenancePlan: { select: { id: true, name: true } },
+          parts: { include: { sparePart: { select: partSelect } } }
+        }
+      });
+      await auditService.record(tx, req, { entityType: 'maintenance_event', entityId: created.id, action: 'create', after: created });
+      return created;
     });
 
+    await sparePartService.notifyLowStock(prisma, await sparePartService.crossedReorderPoint(prisma, stockBefore));
+
     res.status(201).json(maintenanceEvent);
   } catch (error) {
+    const partError = partErrorResponse(error);
+    if (partError) {
+      return res.status(400).json(partError);
+    }
     console.error('Error creating maintenance event:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // PUT /maintenance/:id - Update maintenance event
-router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
+router.put('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id);
     const { error, value } = maintenanceEventSchema.validate(req.body);
@@ -131,31 +193,81 @@ router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    const maintenanceEvent = await prisma.maintenanceEvent.update({
-      where: { id },
-      data: value,
-      include: {
-        equipment: { select: { id: true, name: true } }
+    const availability = await availabilityService.check(prisma, {
+      equipmentId: value.equipmentId,
+      startTimestamp: new Date(value.startTimestamp),
+      endTimestamp: new Date(value.endTimestamp),
+      type: 'maintenance',
+      excludeId: id
+    });
+
+    if (!availability.available) {
+      return res.status(400).json(availabilityService.conflictResponse(availability));
+    }
+
+    const { parts, ...data } = value;
+    const current = await prisma.maintenanceEvent.findUnique({ where: { id }, include: { parts: true } });
+    if (!current) {
+      return res.status(404).json({ error: 'Maintenance event not found' });
+    }
+
+    const consumed = current.parts.some(p => p.consumedQuantity !== null);
+    if (parts && consumed) {
+      return res.status(400).json({ error: 'Parts were consumed when this maintenance was completed and can no longer be changed' });
+    }
+
+    const partIds = [...current.parts.map(p => p.sparePartId), ...(parts || []).map((p: { sparePartId: number }) => p.sparePartId)];
+    const stockBefore = await sparePartService.stockLevels(prisma, partIds);
+
+    // Recording an actual end completes the maintenance and consumes its reserved parts
+    const maintenanceEvent = await prisma.$transaction(async (tx) => {
+      const before = await tx.maintenanceEvent.findUnique({ where: { id } });
+      await tx.maintenanceEvent.update({ where: { id }, data });
+      if (parts) {
+        await sparePartService.reserve(tx, req, { id, equipmentId: data.equipmentId }, parts);
+      }
+      if (data.actualEnd && !consumed) {
+        await sparePartService.consume(tx, req, id);
       }
+
+      const updated = await tx.maintenanceEvent.findUniqueOrThrow({
+        where: { id },
+        include: {
+          equipment: { select: { id: true, name: true } },
+          maintenancePlan: { select: { id: true, name: true } },
+          parts: { include: { sparePart: { select: partSelect } } }
+        }
+      });
+      await auditService.record(tx, req, { entityType: 'maintenance_event', entityId: id, action: 'update', before, after: updated });
+      return updated;
     });
 
+    await sparePartService.notifyLowStock(prisma, await sparePartService.crossedReorderPoint(prisma, stockBefore));
+
     res.json(maintenanceEvent);
   } catch (error: any) {
     if (error.code === 'P2025') {
       return res.status(404).json({ error: 'Maintenance event not found' });
     }
+    const partError = partErrorResponse(error);
+    if (partError) {
+      return res.status(400).json(partError);
+    }
     console.error('Error updating maintenance event:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // DELETE /maintenance/:id - Delete maintenance event
-router.delete('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
+router.delete('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id);
 
-    await prisma.maintenanceEvent.delete({
-      where: { id }
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.maintenanceEvent.delete({
+        where: { id }
+      });
+      await auditService.record(tx, req, { entityType: 'maintenance_event', entityId: id, action: 'delete', before: deleted });
     });
 
     res.json({ message: 'Maintenance event deleted successfully' });
@@ -2,6 +2,9 @@ import express from 'express';
 import { PrismaClient } from '@prisma/client';
 import Joi from 'joi';
 import { authenticateToken, requireWriteAccess, AuthRequest } from '../middleware/auth';
+import { auditService } from '../services/auditService';
+import { inventoryService, InsufficientStockError, LotUnavailableError } from '../services/inventoryService';
+import { mrpService } from '../services/mrpService';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -20,12 +23,41 @@ const materialSchema = Joi.object({
   unit: Joi.string().required(),
   minimumStock: Joi.number().required(),
   supplier: Joi.string().optional().allow(''),
+  leadTimeDays: Joi.number().integer().min(0).optional().allow(null),
   costPerUnit: Joi.number().optional(),
+  density: Joi.number().positive().optional().allow(null),
   casNumber: Joi.string().optional().allow(''),
   safetyTags: Joi.array().items(Joi.string()).optional()
 });
 
-// ... (transactionSchema remains the same)
+const transactionSchema = Joi.object({
+  materialId: Joi.number().integer().positive().required(),
+  batchEventId: Joi.number().integer().positive().optional().allow(null),
+  lotId: Joi.number().integer().positive().optional().allow(null),
+  transactionType: Joi.string().valid('consumed', 'received', 'adjusted').required(),
+  quantity: Joi.number().min(0).required(),
+  notes: Joi.string().optional().allow('')
+});
+
+const mrpQuerySchema = Joi.object({
+  horizonDays: Joi.number().integer().min(1).max(365).optional(),
+  materialId: Joi.number().integer().positive().optional()
+});
+
+const lotSchema = Joi.object({
+  lotNumber: Joi.string().required(),
+  supplier: Joi.string().optional().allow(''),
+  receivedDate: Joi.date().iso().optional(),
+  expiryDate: Joi.date().iso().optional().allow(null),
+  status: Joi.string().valid('quarantine', 'released', 'rejected').default('quarantine'),
+  quantity: Joi.number().positive().required(),
+  notes: Joi.string().optional().allow('')
+});
+
+const lotUpdateSchema = Joi.object({
+  status: Joi.string().valid('quarantine', 'released', 'rejected').optional(),
+  expiryDate: Joi.date().iso().optional().allow(null)
+}).min(1);
 
 // Lookup GHS Tags via AI and PubChem
 router.post('/lookup-ghs', authenticateToken, async (req, res) => {
@@ -184,6 +216,22 @@ router.get('/low-stock', authenticateToken, async (req, res) => {
   }
 });
 
+// Material requirements plan: projected balances against upcoming batches, with purchase suggestions
+router.get('/mrp', authenticateToken, async (req, res) => {
+  try {
+    const { error, value } = mrpQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const projection = await mrpService.project(prisma, value);
+    res.json(projection);
+  } catch (error) {
+    console.error('Error building material requirements plan:', error);
+    res.status(500).json({ error: 'Failed to build material requirements plan' });
+  }
+});
+
 // Get single material
 router.get('/:id', authenticateToken, async (req, res) => {
   try {
@@ -215,36 +263,43 @@ router.get('/:id', authenticateToken, async (req, res) => {
 });
 
 // Create material
-router.post('/', authenticateToken, requireWriteAccess, async (req, res) => {
+router.post('/', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const { error, value } = materialSchema.validate(req.body);
     if (error) {
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    const material = await prisma.material.create({
-      data: {
-        materialId: value.materialId,
-        name: value.name,
-        currentQuantity: value.currentQuantity,
-        unit: value.unit,
-        minimumStock: value.minimumStock,
-        supplier: value.supplier,
-        costPerUnit: value.costPerUnit,
-        casNumber: value.casNumber,
-        safetyTags: value.safetyTags
-      }
-    });
+    const material = await prisma.$transaction(async (tx) => {
+      const created = await tx.material.create({
+        data: {
+          materialId: value.materialId,
+          name: value.name,
+          currentQuantity: value.currentQuantity,
+          unit: value.unit,
+          minimumStock: value.minimumStock,
+          supplier: value.supplier,
+          leadTimeDays: value.leadTimeDays,
+          costPerUnit: value.costPerUnit,
+          density: value.density,
+          casNumber: value.casNumber,
+          safetyTags: value.safetyTags
+        }
+      });
+
+      // Create initial transaction
+      await tx.inventoryTransaction.create({
+        data: {
+          materialId: created.id,
+          transactionType: 'received',
+          quantity: value.currentQuantity,
+          remainingBalance: value.currentQuantity,
+          notes: 'Initial inventory'
+        }
+      });
 
-    // Create initial transaction
-    await prisma.inventoryTransaction.create({
-      data: {
-        materialId: material.id,
-        transactionType: 'received',
-        quantity: value.currentQuantity,
-        remainingBalance: value.currentQuantity,
-        notes: 'Initial inventory'
-      }
+      await auditService.record(tx, req, { entityType: 'material', entityId: created.id, action: 'create', after: created });
+      return created;
     });
 
     res.status(201).json(material);
@@ -255,7 +310,7 @@ router.post('/', authenticateToken, requireWriteAccess, async (req, res) => {
 });
 
 // Update material
-router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
+router.put('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
     const { error, value } = materialSchema.validate(req.body);
@@ -263,19 +318,26 @@ router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    const material = await prisma.material.update({
-      where: { id: parseInt(id) },
-      data: {
-        materialId: value.materialId,
-        name: value.name,
-        currentQuantity: value.currentQuantity,
-        unit: value.unit,
-        minimumStock: value.minimumStock,
-        supplier: value.supplier,
-        costPerUnit: value.costPerUnit,
-        casNumber: value.casNumber,
-        safetyTags: value.safetyTags
-      }
+    const material = await prisma.$transaction(async (tx) => {
+      const before = await tx.material.findUnique({ where: { id: parseInt(id) } });
+      const updated = await tx.material.update({
+        where: { id: parseInt(id) },
+        data: {
+          materialId: value.materialId,
+          name: value.name,
+          currentQuantity: value.currentQuantity,
+          unit: value.unit,
+          minimumStock: value.minimumStock,
+          supplier: value.supplier,
+          leadTimeDays: value.leadTimeDays,
+          costPerUnit: value.costPerUnit,
+          density: value.density,
+          casNumber: value.casNumber,
+          safetyTags: value.safetyTags
+        }
+      });
+      await auditService.record(tx, req, { entityType: 'material', entityId: updated.id, action: 'update', before, after: updated });
+      return updated;
     });
 
     res.json(material);
@@ -286,11 +348,14 @@ router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
 });
 
 // Delete material
-router.delete('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
+router.delete('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    await prisma.material.delete({
-      where: { id: parseInt(id) }
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.material.delete({
+        where: { id: parseInt(id) }
+      });
+      await auditService.record(tx, req, { entityType: 'material', entityId: deleted.id, action: 'delete', before: deleted });
     });
 
     res.json({ message: 'Material deleted successfully' });
@@ -301,7 +366,7 @@ router.delete('/:id', authenticateToken, requireWriteAccess, async (req, res) =>
 });
 
 // Create inventory transaction
-router.post('/transactions', authenticateToken, requireWriteAccess, async (req, res) => {
+router.post('/transactions', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const { error, value } = transactionSchema.validate(req.body);
     if (error) {
@@ -317,42 +382,227 @@ router.post('/transactions', authenticateToken, requireWriteAccess, async (req,
       return res.status(404).json({ error: 'Material not found' });
     }
 
-    let newQuantity = Number(material.currentQuantity);
+    const transactions = await prisma.$transaction(async (tx) => {
+      if (value.transactionType === 'consumed') {
+        return inventoryService.consume(tx, req, value);
+      }
 
-    if (value.transactionType === 'consumed') {
-      newQuantity -= value.quantity;
-    } else if (value.transactionType === 'received') {
-      newQuantity += value.quantity;
-    } else if (value.transactionType === 'adjusted') {
-      newQuantity = value.quantity; // Set to absolute value
+      if (value.transactionType === 'received') {
+        return inventoryService.receive(tx, req, value);
+      }
+
+      // Adjusted: a stock count sets an absolute quantity, for one lot or for the material as a whole.
+      // Read inside the transaction so a concurrent consume or receive isn't overwritten.
+      const before = await tx.material.findUniqueOrThrow({ where: { id: material.id } });
+      let updated;
+
+      if (value.lotId) {
+        const lot = await tx.materialLot.findFirst({ where: { id: value.lotId, materialId: material.id } });
+        if (!lot) {
+          throw new LotUnavailableError('Lot not found for this material');
+        }
+
+        // Guarded on the counted-over quantity, so a concurrent draw from the lot isn't lost from the material total
+        const claimed = await tx.materialLot.updateMany({
+          where: { id: lot.id, quantity: lot.quantity },
+          data: { quantity: value.quantity }
+        });
+        if (claimed.count === 0) {
+          throw new LotUnavailableError('Lot quantity changed while adjusting, please retry');
+        }
+        const updatedLot = await tx.materialLot.findUniqueOrThrow({ where: { id: lot.id } });
+        await auditService.record(tx, req, { entityType: 'material_lot', entityId: lot.id, action: 'update', before: lot, after: updatedLot });
+
+        // The material total moves by the lot's difference
+        updated = await tx.material.update({
+          where: { id: material.id },
+          data: { currentQuantity: { increment: value.quantity - Number(lot.quantity) } }
+        });
+      } else {
+        const lotted = await tx.materialLot.aggregate({ _sum: { quantity: true }, where: { materialId: material.id } });
+        if (value.quantity < Number(lotted._sum.quantity ?? 0)) {
+          throw new LotUnavailableError('Adjusted quantity is less than the stock held in lots; adjust the lots instead');
+        }
+
+        updated = await tx.material.update({
+          where: { id: material.id },
+          data: { currentQuantity: value.quantity }
+        });
+      }
+
+      const created = await tx.inventoryTransaction.create({
+        data: {
+          materialId: value.materialId,
+          batchEventId: value.batchEventId,
+          lotId: value.lotId,
+          transactionType: value.transactionType,
+          quantity: value.quantity,
+          remainingBalance: updated.currentQuantity,
+          notes: value.notes
+        }
+      });
+
+      await auditService.record(tx, req, { entityType: 'inventory_transaction', entityId: created.id, action: 'create', after: created });
+      await auditService.record(tx, req, { entityType: 'material', entityId: updated.id, action: 'update', before, after: updated });
+      return [created];
+    });
+
+    res.status(201).json(transactions);
+  } catch (error: any) {
+    if (error instanceof InsufficientStockError) {
+      return res.status(400).json({ error: error.message, shortages: error.shortages });
     }
+    if (error instanceof LotUnavailableError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating transaction:', error);
+    res.status(500).json({ error: 'Failed to create transaction' });
+  }
+});
 
-    if (newQuantity < 0) {
-      return res.status(400).json({ error: 'Insufficient inventory' });
+// Get lots for a material, soonest expiry first
+router.get('/:id/lots', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const lots = await prisma.materialLot.findMany({
+      where: { materialId: parseInt(id) },
+      orderBy: [{ expiryDate: { sort: 'asc', nulls: 'last' } }, { receivedDate: 'asc' }]
+    });
+
+    res.json(lots);
+  } catch (error) {
+    console.error('Error fetching lots:', error);
+    res.status(500).json({ error: 'Failed to fetch lots' });
+  }
+});
+
+// Receive a new lot into stock
+router.post('/:id/lots', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const materialId = parseInt(req.params.id);
+    const { error, value } = lotSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const material = await prisma.material.findUnique({ where: { id: materialId } });
+    if (!material) {
+      return res.status(404).json({ error: 'Material not found' });
     }
 
-    // Create transaction
-    const transaction = await prisma.inventoryTransaction.create({
-      data: {
-        materialId: value.materialId,
-        batchEventId: value.batchEventId,
-        transactionType: value.transactionType,
+    const lot = await prisma.$transaction(async (tx) => {
+      const created = await tx.materialLot.create({
+        data: {
+          materialId,
+          lotNumber: value.lotNumber,
+          supplier: value.supplier || material.supplier,
+          receivedDate: value.receivedDate,
+          expiryDate: value.expiryDate,
+          status: value.status,
+          initialQuantity: value.quantity,
+          quantity: 0
+        }
+      });
+      await auditService.record(tx, req, { entityType: 'material_lot', entityId: created.id, action: 'create', after: created });
+
+      await inventoryService.receive(tx, req, {
+        materialId,
+        lotId: created.id,
         quantity: value.quantity,
-        remainingBalance: newQuantity,
-        notes: value.notes
-      }
+        notes: value.notes || `Received lot ${value.lotNumber}`
+      });
+
+      return tx.materialLot.findUniqueOrThrow({ where: { id: created.id } });
+    });
+
+    res.status(201).json(lot);
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      return res.status(409).json({ error: 'A lot with this number already exists for this material' });
+    }
+    console.error('Error receiving lot:', error);
+    res.status(500).json({ error: 'Failed to receive lot' });
+  }
+});
+
+// Release, quarantine or reject a lot, or correct its expiry date
+router.put('/lots/:lotId', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const lotId = parseInt(req.params.lotId);
+    const { error, value } = lotUpdateSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const lot = await prisma.$transaction(async (tx) => {
+      const before = await tx.materialLot.findUniqueOrThrow({ where: { id: lotId } });
+      const updated = await tx.materialLot.update({
+        where: { id: lotId },
+        data: value
+      });
+      await auditService.record(tx, req, { entityType: 'material_lot', entityId: lotId, action: 'update', before, after: updated });
+      return updated;
+    });
+
+    res.json(lot);
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Lot not found' });
+    }
+    console.error('Error updating lot:', error);
+    res.status(500).json({ error: 'Failed to update lot' });
+  }
+});
+
+// Forward genealogy: every batch that drew from a lot, for recalls
+router.get('/lots/:lotId/genealogy', authenticateToken, async (req, res) => {
+  try {
+    const lotId = parseInt(req.params.lotId);
+
+    const lot = await prisma.materialLot.findUnique({
+      where: { id: lotId },
+      include: { material: { select: { id: true, name: true, unit: true, materialId: true } } }
     });
 
-    // Update material quantity
-    await prisma.material.update({
-      where: { id: value.materialId },
-      data: { currentQuantity: newQuantity }
+    if (!lot) {
+      return res.status(404).json({ error: 'Lot not found' });
+    }
+
+    const transactions = await prisma.inventoryTransaction.findMany({
+      where: { lotId, batchEventId: { not: null }, transactionType: { in: ['consumed', 'received'] } },
+      include: {
+        batchEvent: {
+          select: {
+            id: true,
+            batchNo: true,
+            productName: true,
+            status: true,
+            actualStart: true,
+            actualEnd: true,
+            equipment: { select: { id: true, name: true } }
+          }
+        }
+      },
+      orderBy: { timestamp: 'asc' }
     });
 
-    res.status(201).json(transaction);
+    // Net quantity per batch (returns of unused material are subtracted)
+    const batches = new Map<number, { batchEvent: NonNullable<(typeof transactions)[number]['batchEvent']>; quantity: number }>();
+    for (const t of transactions) {
+      const entry = batches.get(t.batchEventId!) || { batchEvent: t.batchEvent!, quantity: 0 };
+      entry.quantity += t.transactionType === 'consumed' ? Number(t.quantity) : -Number(t.quantity);
+      batches.set(t.batchEventId!, entry);
+    }
+
+    res.json({
+      lot,
+      batches: Array.from(batches.values())
+        .filter(b => b.quantity > 0)
+        .map(b => ({ ...b.batchEvent, quantity: Math.round(b.quantity * 100) / 100 }))
+    });
   } catch (error) {
-    console.error('Error creating transaction:', error);
-    res.status(500).json({ error: 'Failed to create transaction' });
+    console.error('Error fetching lot genealogy:', error);
+    res.status(500).json({ error: 'Failed to fetch lot genealogy' });
   }
 });
 
@@ -365,6 +615,9 @@ router.get('/:id/transactions', authenticateToken, async (req, res) => {
       include: {
         batchEvent: {
           select: { batchNo: true, productName: true }
+        },
+        lot: {
+          select: { lotNumber: true }
         }
       },
       orderBy: { timestamp: 'desc' }
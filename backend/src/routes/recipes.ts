@@ -1,11 +1,839 @@
 import express from 'express';
-import { PrismaClient } from '@prisma/client';
-import { authenticateToken, requireWriteAccess, requireReadAccess } from '../middleware/auth';
+import Joi from 'joi';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { PrismaClient, Prisma, RecipeStatus, SignatureMeaning, UserRole } from '@prisma/client';
+import { authenticateToken, requireWriteAccess, requireReadAccess, AuthRequest } from '../middleware/auth';
 import { aiService } from '../services/aiService';
+import { unitsService, UnitConversionError } from '../services/unitsService';
+import { equipmentCheckService } from '../services/equipmentCheckService';
+import { availabilityService } from '../services/availabilityService';
+import { schedulerService, BookingConflictError } from '../services/schedulerService';
+import { ChangeoverRequiredError } from '../services/changeoverService';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
+// Validated request bodies
+interface RecipeStepInput {
+    id?: number;
+    stepNumber?: number;
+    name: string;
+    description?: string | null;
+    equipmentId?: number | null;
+    duration?: number | null;
+    temperature?: number | null;
+    temperatureUnit?: string | null;
+    pressure?: number | null;
+    pressureUnit?: string | null;
+    instructions?: string | null;
+    processParameters?: Prisma.InputJsonObject | null;
+}
+
+interface RecipeMaterialInput {
+    materialId: number;
+    stepNumber?: number | null;
+    quantity: number;
+    unit: string;
+    timingNotes?: string | null;
+}
+
+interface RecipeInput {
+    recipeId?: string | null;
+    name: string;
+    product: string;
+    yield?: number | null;
+    yieldUnit?: string | null;
+    totalTime?: number | null;
+    description?: string | null;
+    steps: RecipeStepInput[];
+    materials: RecipeMaterialInput[];
+}
+
+// A recipe with the content its signatures cover
+type RecipeWithContent = Prisma.RecipeGetPayload<{ include: { steps: true; materials: true } }>;
+
+const recipeStepSchema = Joi.object<RecipeStepInput>({
+    id: Joi.number().integer().positive().optional(), // Existing step to keep (and carry SDS links from)
+    stepNumber: Joi.number().integer().positive().optional(),
+    name: Joi.string().required(),
+    description: Joi.string().allow('', null).optional(),
+    equipmentId: Joi.number().integer().positive().allow(null).optional(),
+    duration: Joi.number().integer().min(0).allow(null).optional(),
+    temperature: Joi.number().allow(null).optional(),
+    temperatureUnit: Joi.string().allow('', null).optional(),
+    pressure: Joi.number().allow(null).optional(),
+    pressureUnit: Joi.string().allow('', null).optional(),
+    instructions: Joi.string().allow('', null).optional(),
+    processParameters: Joi.object().allow(null).optional()
+});
+
+const recipeMaterialSchema = Joi.object<RecipeMaterialInput>({
+    materialId: Joi.number().integer().positive().required(),
+    stepNumber: Joi.number().integer().positive().allow(null).optional(),
+    quantity: Joi.number().positive().required(),
+    unit: Joi.string().required(),
+    timingNotes: Joi.string().allow('', null).optional()
+});
+
+const recipeSchema = Joi.object<RecipeInput>({
+    recipeId: Joi.string().allow('', null).optional(),
+    name: Joi.string().required(),
+    product: Joi.string().required(),
+    yield: Joi.number().positive().allow(null).optional(),
+    yieldUnit: Joi.string().allow('', null).optional(),
+    totalTime: Joi.number().integer().min(0).allow(null).optional(),
+    description: Joi.string().allow('', null).optional(),
+    steps: Joi.array().items(recipeStepSchema).default([]),
+    materials: Joi.array().items(recipeMaterialSchema).default([])
+}).custom((value: RecipeInput, helpers) => {
+    const stepNumbers = value.steps.map((step, index) => step.stepNumber || index + 1);
+    if (new Set(stepNumbers).size !== stepNumbers.length) {
+        return helpers.error('recipe.duplicateStep');
+    }
+
+    const unknownStep = value.materials.find(m => m.stepNumber && !stepNumbers.includes(m.stepNumber));
+    if (unknownStep) {
+        return helpers.error('recipe.unknownStep', { stepNumber: unknownStep.stepNumber });
+    }
+
+    return value;
+}).messages({
+    'recipe.duplicateStep': 'Step numbers must be unique',
+    'recipe.unknownStep': 'Material references unknown step {#stepNumber}'
+});
+
+const listQuerySchema = Joi.object({
+    status: Joi.string().valid(...Object.values(RecipeStatus)).optional(),
+    product: Joi.string().optional(),
+    search: Joi.string().optional(),
+    latestOnly: Joi.string().valid('true', 'false').optional()
+});
+
+const signatureSchema = Joi.object({
+    password: Joi.string().required(),
+    comment: Joi.string().allow('', null).optional()
+});
+
+const scheduleSchema = Joi.object({
+    batchNo: Joi.string().required(),
+    productName: Joi.string().optional(),
+    batchSize: Joi.number().positive().required(),
+    batchSizeUnit: Joi.string().optional(), // Defaults to the recipe's yield unit
+    startTimestamp: Joi.date().iso().required(),
+    autoCleaning: Joi.boolean().default(false) // Book cleaning for product changeovers instead of refusing
+});
+
+const recipeDetailInclude = {
+    steps: {
+        include: {
+            reactionContext: true,
+            equipment: true,
+            sdsLinks: {
+                include: {
+                    sds: { select: { id: true, chemicalName: true, casNumber: true } }
+                }
+            }
+        },
+        orderBy: { stepNumber: 'asc' as const }
+    },
+    materials: {
+        include: {
+            material: true
+        }
+    },
+    createdBy: {
+        select: { email: true }
+    },
+    approvedBy: {
+        select: { email: true }
+    }
+};
+
+// Statuses whose content is locked; edits go into a new version instead
+const LOCKED_STATUSES = ['approved', 'active'];
+
+// Recipe lifecycle: draft -> approved -> active -> obsolete. The signature's meaning is fixed by the
+// transition, so a signer can't record an approval as anything else. A review signs a draft without
+// changing its status.
+const TRANSITIONS: Record<string, { from: RecipeStatus[]; to: RecipeStatus; roles: UserRole[]; meaning: SignatureMeaning }> = {
+    review: { from: ['draft'], to: 'draft', roles: ['admin', 'planner'], meaning: 'reviewed' },
+    approve: { from: ['draft'], to: 'approved', roles: ['admin'], meaning: 'approved' },
+    activate: { from: ['approved'], to: 'active', roles: ['admin', 'planner'], meaning: 'released' },
+    obsolete: { from: ['draft', 'approved', 'active'], to: 'obsolete', roles: ['admin'], meaning: 'obsoleted' }
+};
+
+// Thrown inside transactions for payload problems that can only be detected against the database
+class RecipeValidationError extends Error { }
+
+// Thrown inside a transition's transaction when the recipe, as read there, can't make the transition
+class RecipeTransitionError extends Error {
+    constructor(public status: number, public body: { error: string; message?: string }) {
+        super(body.error);
+    }
+}
+
+// Units that can't be compared with what they refer to: material quantities must convert to the
+// material's stock unit, and step conditions must be a known temperature or pressure unit
+const checkRecipeUnits = async (value: RecipeInput) => {
+    const errors: string[] = [];
+
+    const materials = await prisma.material.findMany({
+        where: { id: { in: value.materials.map(m => m.materialId) } },
+        select: { id: true, name: true, unit: true, density: true }
+    });
+
+    for (const m of value.materials) {
+        const material = materials.find(candidate => candidate.id === m.materialId);
+        if (!material) {
+            errors.push(`Material ${m.materialId} does not exist`);
+        } else if (!unitsService.canConvert(m.unit, material.unit, material.density === null ? null : Number(material.density))) {
+            errors.push(`${material.name}: ${m.unit} cannot be converted to its stock unit ${material.unit}${material.density === null ? ' (set a density to convert between mass and volume)' : ''}`);
+        }
+    }
+
+    for (const [index, step] of value.steps.entries()) {
+        const stepNumber = step.stepNumber || index + 1;
+        if (step.temperatureUnit && unitsService.dimensionOf(step.temperatureUnit) !== 'temperature') {
+            errors.push(`Step ${stepNumber}: "${step.temperatureUnit}" is not a temperature unit`);
+        }
+        if (step.pressureUnit && unitsService.dimensionOf(step.pressureUnit) !== 'pressure') {
+            errors.push(`Step ${stepNumber}: "${step.pressureUnit}" is not a pressure unit`);
+        }
+    }
+
+    return errors;
+};
+
+// Map validated payload fields onto Recipe columns
+const recipeData = (value: RecipeInput) => ({
+    name: value.name,
+    product: value.product,
+    yield: value.yield,
+    yieldUnit: value.yieldUnit,
+    description: value.description,
+    totalTime: value.totalTime ?? (value.steps.length > 0
+        ? value.steps.reduce((sum, step) => sum + (step.duration || 0), 0)
+        : null)
+});
+
+const stepData = (step: RecipeStepInput, index: number) => ({
+    stepNumber: step.stepNumber || index + 1,
+    name: step.name,
+    description: step.description,
+    equipmentId: step.equipmentId,
+    duration: step.duration,
+    temperature: step.temperature,
+    temperatureUnit: step.temperatureUnit,
+    pressure: step.pressure,
+    pressureUnit: step.pressureUnit,
+    instructions: step.instructions,
+    processParameters: step.processParameters ?? Prisma.JsonNull
+});
+
+// Create steps and materials for a brand new recipe row. Steps that reference a step of
+// another version (via id) get that step's SDS links copied across.
+const createChildren = async (tx: Prisma.TransactionClient, recipeId: number, value: RecipeInput) => {
+    for (const [index, step] of value.steps.entries()) {
+        const created = await tx.recipeStep.create({
+            data: { recipeId, ...stepData(step, index) }
+        });
+
+        if (step.id) {
+            const links = await tx.recipeStepSDS.findMany({ where: { recipeStepId: step.id } });
+            if (links.length > 0) {
+                await tx.recipeStepSDS.createMany({
+                    data: links.map(link => ({ recipeStepId: created.id, sdsId: link.sdsId, notes: link.notes }))
+                });
+            }
+        }
+    }
+
+    if (value.materials.length > 0) {
+        await tx.recipeMaterial.createMany({
+            data: value.materials.map(m => ({ recipeId, ...m }))
+        });
+    }
+};
+
+// Update a draft in place: keep steps that are referenced by id, delete the rest, add new ones
+const replaceChildren = async (tx: Prisma.TransactionClient, recipeId: number, value: RecipeInput) => {
+    const existingSteps = await tx.recipeStep.findMany({ where: { recipeId } });
+    const keptIds = value.steps.flatMap(s => (s.id ? [s.id] : []));
+
+    const foreign = keptIds.filter(id => !existingSteps.some(s => s.id === id));
+    if (foreign.length > 0) {
+        throw new RecipeValidationError(`Steps ${foreign.join(', ')} do not belong to this recipe`);
+    }
+
+    await tx.recipeStep.deleteMany({ where: { recipeId, id: { notIn: keptIds } } });
+
+    // Park kept steps on negative numbers first so reordering can't trip the (recipeId, stepNumber) constraint
+    for (const id of keptIds) {
+        await tx.recipeStep.update({ where: { id }, data: { stepNumber: -id } });
+    }
+
+    for (const [index, step] of value.steps.entries()) {
+        if (step.id) {
+            await tx.recipeStep.update({ where: { id: step.id }, data: stepData(step, index) });
+        } else {
+            await tx.recipeStep.create({ data: { recipeId, ...stepData(step, index) } });
+        }
+    }
+
+    await tx.recipeMaterial.deleteMany({ where: { recipeId } });
+    if (value.materials.length > 0) {
+        await tx.recipeMaterial.createMany({
+            data: value.materials.map(m => ({ recipeId, ...m }))
+        });
+    }
+};
+
+// Fingerprint of the recipe content a signature applies to
+const hashRecipeContent = (recipe: RecipeWithContent) => {
+    const content = {
+        recipeId: recipe.recipeId,
+        version: recipe.version,
+        name: recipe.name,
+        product: recipe.product,
+        yield: recipe.yield?.toString() ?? null,
+        yieldUnit: recipe.yieldUnit,
+        steps: recipe.steps.map(step => ({
+            stepNumber: step.stepNumber,
+            name: step.name,
+            equipmentId: step.equipmentId,
+            duration: step.duration,
+            temperature: step.temperature?.toString() ?? null,
+            temperatureUnit: step.temperatureUnit,
+            pressure: step.pressure?.toString() ?? null,
+            pressureUnit: step.pressureUnit,
+            instructions: step.instructions,
+            processParameters: step.processParameters
+        })),
+        materials: recipe.materials.map(m => ({
+            materialId: m.materialId,
+            stepNumber: m.stepNumber,
+            quantity: m.quantity.toString(),
+            unit: m.unit
+        }))
+    };
+
+    return crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex');
+};
+
+// GET /recipes - List recipes
+router.get('/', authenticateToken, requireReadAccess, async (req, res) => {
+    try {
+        const { error, value } = listQuerySchema.validate(req.query);
+        if (error) {
+            return res.status(400).json({ error: error.details[0].message });
+        }
+
+        const { status, product, search, latestOnly } = value;
+
+        const where: Prisma.RecipeWhereInput = {};
+
+        if (status) {
+            where.status = status;
+        }
+
+        if (product) {
+            where.product = { equals: product, mode: 'insensitive' };
+        }
+
+        if (search) {
+            where.OR = [
+                { name: { contains: search, mode: 'insensitive' } },
+                { product: { contains: search, mode: 'insensitive' } },
+                { recipeId: { contains: search, mode: 'insensitive' } }
+            ];
+        }
+
+        const recipes = await prisma.recipe.findMany({
+            where,
+            include: {
+                createdBy: { select: { email: true } },
+                _count: { select: { steps: true, materials: true, batches: true } }
+            },
+            orderBy: [{ name: 'asc' }, { version: 'desc' }]
+        });
+
+        // Optionally collapse each recipe family down to its newest version
+        const result = latestOnly === 'true'
+            ? recipes.filter((recipe, index) =>
+                !recipe.recipeId || recipes.findIndex(r => r.recipeId === recipe.recipeId) === index)
+            : recipes;
+
+        res.json(result);
+    } catch (error) {
+        console.error('Error fetching recipes:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /recipes - Create recipe with nested steps and materials
+router.post('/', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+    try {
+        const { error, value } = recipeSchema.validate(req.body);
+        if (error) {
+            return res.status(400).json({ error: error.details[0].message });
+        }
+
+        const unitErrors = await checkRecipeUnits(value);
+        if (unitErrors.length > 0) {
+            return res.status(400).json({ error: unitErrors.join('; ') });
+        }
+
+        if (value.recipeId) {
+            const existing = await prisma.recipe.findFirst({ where: { recipeId: value.recipeId } });
+            if (existing) {
+                return res.status(409).json({ error: 'Recipe with this ID already exists' });
+            }
+        }
+
+        const recipe = await prisma.$transaction(async (tx) => {
+            const created = await tx.recipe.create({
+                data: {
+                    ...recipeData(value),
+                    recipeId: value.recipeId || null,
+                    version: 1,
+                    status: 'draft',
+                    createdByUserId: req.user!.id
+                }
+            });
+
+            // Every version shares the custom ID, so make sure there is one
+            if (!created.recipeId) {
+                await tx.recipe.update({
+                    where: { id: created.id },
+                    data: { recipeId: `RCP-${created.id.toString().padStart(4, '0')}` }
+                });
+            }
+
+            await createChildren(tx, created.id, value);
+
+            return tx.recipe.findUnique({ where: { id: created.id }, include: recipeDetailInclude });
+        });
+
+        res.status(201).json(recipe);
+    } catch (error: any) {
+        // Another request created the same recipe ID between the check and the insert
+        if (error.code === 'P2002') {
+            return res.status(409).json({ error: 'Recipe with this ID already exists' });
+        }
+        console.error('Error creating recipe:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// PUT /recipes/:id - Update a draft in place, or create a new version of an approved/active recipe
+router.put('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        const { error, value } = recipeSchema.validate(req.body);
+        if (error) {
+            return res.status(400).json({ error: error.details[0].message });
+        }
+
+        const unitErrors = await checkRecipeUnits(value);
+        if (unitErrors.length > 0) {
+            return res.status(400).json({ error: unitErrors.join('; ') });
+        }
+
+        const current = await prisma.recipe.findUnique({ where: { id } });
+        if (!current) {
+            return res.status(404).json({ error: 'Recipe not found' });
+        }
+
+        if (current.status === 'obsolete') {
+            return res.status(400).json({ error: 'Obsolete recipes cannot be edited' });
+        }
+
+        if (LOCKED_STATUSES.includes(current.status)) {
+            const recipe = await prisma.$transaction(async (tx) => {
+                const latest = await tx.recipe.aggregate({
+                    where: { recipeId: current.recipeId },
+                    _max: { version: true }
+                });
+
+                const created = await tx.recipe.create({
+                    data: {
+                        ...recipeData(value),
+                        recipeId: current.recipeId,
+                        version: (latest._max.version || current.version) + 1,
+                        status: 'draft',
+                        createdByUserId: req.user!.id
+                    }
+                });
+
+                await createChildren(tx, created.id, value);
+
+                return tx.recipe.findUnique({ where: { id: created.id }, include: recipeDetailInclude });
+            });
+
+            return res.status(201).json({
+                message: `Recipe is ${current.status}; changes saved as version ${recipe!.version}`,
+                versionCreated: true,
+                recipe
+            });
+        }
+
+        const recipe = await prisma.$transaction(async (tx) => {
+            // Still a draft: a concurrent approval must not be followed by an in-place edit
+            const claimed = await tx.recipe.updateMany({
+                where: { id, status: 'draft' },
+                data: recipeData(value)
+            });
+            if (claimed.count === 0) {
+                throw new RecipeTransitionError(409, { error: 'Recipe is no longer a draft, please reload' });
+            }
+
+            await replaceChildren(tx, id, value);
+
+            return tx.recipe.findUnique({ where: { id }, include: recipeDetailInclude });
+        });
+
+        res.json({ versionCreated: false, recipe });
+    } catch (error: any) {
+        if (error instanceof RecipeValidationError) {
+            return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof RecipeTransitionError) {
+            return res.status(error.status).json(error.body);
+        }
+        if (error.code === 'P2002') {
+            return res.status(409).json({ error: 'Another version was created concurrently, please retry' });
+        }
+        console.error('Error updating recipe:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// DELETE /recipes/:id - Delete a draft recipe
+router.delete('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+
+        const recipe = await prisma.recipe.findUnique({
+            where: { id },
+            include: { _count: { select: { batches: true } } }
+        });
+
+        if (!recipe) {
+            return res.status(404).json({ error: 'Recipe not found' });
+        }
+
+        if (recipe.status !== 'draft') {
+            return res.status(400).json({
+                error: 'Only draft recipes can be deleted',
+                message: `This recipe is ${recipe.status}; mark it obsolete instead`
+            });
+        }
+
+        if (recipe._count.batches > 0) {
+            return res.status(400).json({
+                error: 'Cannot delete recipe with associated batches',
+                message: `This recipe is used by ${recipe._count.batches} batch events`
+            });
+        }
+
+        await prisma.recipe.delete({
+            where: { id }
+        });
+
+        res.json({ message: 'Recipe deleted successfully' });
+    } catch (error: any) {
+        if (error.code === 'P2025') {
+            return res.status(404).json({ error: 'Recipe not found' });
+        }
+        console.error('Error deleting recipe:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /recipes/:id/versions - List every version of a recipe
+router.get('/:id/versions', authenticateToken, requireReadAccess, async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+
+        const recipe = await prisma.recipe.findUnique({ where: { id } });
+        if (!recipe) {
+            return res.status(404).json({ error: 'Recipe not found' });
+        }
+
+        const versions = await prisma.recipe.findMany({
+            where: recipe.recipeId ? { recipeId: recipe.recipeId } : { id },
+            select: {
+                id: true,
+                recipeId: true,
+                version: true,
+                status: true,
+                approvedAt: true,
+                createdAt: true,
+                createdBy: { select: { email: true } },
+                approvedBy: { select: { email: true } }
+            },
+            orderBy: { version: 'desc' }
+        });
+
+        res.json(versions);
+    } catch (error) {
+        console.error('Error fetching recipe versions:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /recipes/:id/review | /approve | /activate | /obsolete - Signed lifecycle transitions
+Object.entries(TRANSITIONS).forEach(([action, transition]) => {
+    router.post(`/:id/${action}`, authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+        try {
+            const id = parseInt(req.params.id);
+            const { error, value } = signatureSchema.validate(req.body);
+            if (error) {
+                return res.status(400).json({ error: error.details[0].message });
+            }
+
+            if (!transition.roles.includes(req.user!.role)) {
+                return res.status(403).json({ error: `Only ${transition.roles.join(' or ')} users can ${action} recipes` });
+            }
+
+            // The signature is the signer re-entering their own password
+            const signer = await prisma.user.findUnique({ where: { id: req.user!.id } });
+            if (!signer || !(await bcrypt.compare(value.password, signer.passwordHash))) {
+                return res.status(401).json({ error: 'Signature verification failed' });
+            }
+
+            const updated = await prisma.$transaction(async (tx) => {
+                // Read inside the transaction so the checks and the signed hash cover the content being transitioned
+                const recipe = await tx.recipe.findUnique({
+                    where: { id },
+                    include: {
+                        steps: { orderBy: { stepNumber: 'asc' } },
+                        materials: { orderBy: { id: 'asc' } }
+                    }
+                });
+
+                if (!recipe) {
+                    throw new RecipeTransitionError(404, { error: 'Recipe not found' });
+                }
+
+                if (!transition.from.includes(recipe.status)) {
+                    throw new RecipeTransitionError(400, {
+                        error: 'Invalid status transition',
+                        message: `Cannot ${action} a recipe that is ${recipe.status}`
+                    });
+                }
+
+                // Reviews and approvals are a second person's sign-off on the content
+                const signsContent = action === 'review' || action === 'approve';
+
+                if (signsContent && recipe.createdByUserId === signer.id) {
+                    throw new RecipeTransitionError(403, { error: `Recipes must be ${transition.meaning} by someone other than their author` });
+                }
+
+                if (signsContent && recipe.steps.length === 0) {
+                    throw new RecipeTransitionError(400, { error: `Cannot ${action} a recipe without steps` });
+                }
+
+                // Claim the transition; a concurrent transition or edit of the recipe changes its status or
+                // updatedAt, so only one request gets to sign
+                const claimed = await tx.recipe.updateMany({
+                    where: { id, status: recipe.status, updatedAt: recipe.updatedAt },
+                    data: {
+                        status: transition.to,
+                        ...(transition.to === 'approved' && {
+                            approvedByUserId: signer.id,
+                            approvedAt: new Date()
+                        })
+                    }
+                });
+                if (claimed.count === 0) {
+                    throw new RecipeTransitionError(409, { error: 'Recipe was changed by another request, please reload' });
+                }
+
+                const signature = {
+                    signedByUserId: signer.id,
+                    signerEmail: signer.email,
+                    signerRole: signer.role,
+                    comment: value.comment || null,
+                    contentHash: hashRecipeContent(recipe)
+                };
+
+                // Only one version of a recipe can be active; activating supersedes the others
+                if (transition.to === 'active' && recipe.recipeId) {
+                    const superseded = await tx.recipe.findMany({
+                        where: { recipeId: recipe.recipeId, status: 'active', id: { not: id } }
+                    });
+
+                    for (const old of superseded) {
+                        await tx.recipe.update({ where: { id: old.id }, data: { status: 'obsolete' } });
+                        await tx.recipeStatusHistory.create({
+                            data: {
+                                ...signature,
+                                recipeId: old.id,
+                                fromStatus: 'active',
+                                toStatus: 'obsolete',
+                                meaning: 'obsoleted',
+                                comment: `Superseded by version ${recipe.version}`,
+                                contentHash: hashRecipeContent(await tx.recipe.findUniqueOrThrow({
+                                    where: { id: old.id },
+                                    include: {
+                                        steps: { orderBy: { stepNumber: 'asc' } },
+                                        materials: { orderBy: { id: 'asc' } }
+                                    }
+                                }))
+                            }
+                        });
+                    }
+                }
+
+                await tx.recipeStatusHistory.create({
+                    data: {
+                        ...signature,
+                        recipeId: id,
+                        fromStatus: recipe.status,
+                        toStatus: transition.to,
+                        meaning: transition.meaning
+                    }
+                });
+
+                return tx.recipe.findUniqueOrThrow({ where: { id }, include: recipeDetailInclude });
+            });
+
+            res.json(updated);
+        } catch (error: any) {
+            if (error instanceof RecipeTransitionError) {
+                return res.status(error.status).json(error.body);
+            }
+            // Another version was activated at the same time (one active version per recipe, see prisma/sql)
+            if (error.code === 'P2002') {
+                return res.status(409).json({ error: 'Another version of this recipe was activated concurrently, please reload' });
+            }
+            console.error(`Error during recipe ${action}:`, error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+});
+
+// POST /recipes/:id/schedule - Create a scheduled batch from a recipe, one booking per step
+router.post('/:id/schedule', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        const { error, value } = scheduleSchema.validate(req.body);
+        if (error) {
+            return res.status(400).json({ error: error.details[0].message });
+        }
+
+        const recipe = await schedulerService.loadRecipe(prisma, id);
+
+        if (!recipe) {
+            return res.status(404).json({ error: 'Recipe not found' });
+        }
+
+        const problem = schedulerService.recipeProblem(recipe);
+        if (problem) {
+            return res.status(400).json(problem);
+        }
+
+        let plan: ReturnType<typeof schedulerService.planMaterials>;
+        try {
+            plan = schedulerService.planMaterials(recipe, value.batchSize, value.batchSizeUnit);
+        } catch (error) {
+            if (error instanceof UnitConversionError) {
+                return res.status(400).json({ error: error.message });
+            }
+            throw error;
+        }
+
+        const bookings = schedulerService.layoutSteps(recipe, new Date(value.startTimestamp));
+
+        const conflicts = [];
+        for (const booking of bookings) {
+            const availability = await availabilityService.check(prisma, {
+                equipmentId: booking.step.equipmentId!,
+                startTimestamp: booking.startTimestamp,
+                endTimestamp: booking.endTimestamp,
+                type: 'batch'
+            });
+
+            if (!availability.available) {
+                conflicts.push({
+                    stepNumber: booking.step.stepNumber,
+                    stepName: booking.step.name,
+                    equipment: booking.step.equipment?.name,
+                    startTimestamp: booking.startTimestamp,
+                    endTimestamp: booking.endTimestamp,
+                    message: availability.message,
+                    equipmentStatus: availability.equipment?.status ?? null,
+                    conflicts: availability.conflicts
+                });
+            }
+        }
+
+        if (conflicts.length > 0) {
+            return res.status(400).json({
+                error: 'Equipment conflict detected',
+                message: `${conflicts.length} recipe step(s) overlap existing bookings or use unavailable equipment`,
+                conflicts
+            });
+        }
+
+        const issues = await schedulerService.checkBookings(prisma, recipe, bookings, plan.batchSize, plan.batchSizeUnit);
+        const blocking = equipmentCheckService.blockingMessage(issues);
+        if (blocking) {
+            return res.status(400).json({ error: blocking, issues });
+        }
+
+        const batchEvents = await prisma.$transaction(tx => schedulerService.createBookings(tx, req, {
+            recipe,
+            bookings,
+            plannedMaterials: plan.plannedMaterials,
+            batchNo: value.batchNo,
+            productName: value.productName,
+            batchSize: plan.batchSize,
+            batchSizeUnit: plan.batchSizeUnit,
+            autoCleaning: value.autoCleaning
+        }));
+
+        res.status(201).json({
+            message: `Scheduled ${batchEvents.length} bookings for batch ${value.batchNo}`,
+            scaleFactor: plan.scaleFactor,
+            warnings: issues,
+            batchEvents
+        });
+    } catch (error) {
+        if (error instanceof BookingConflictError) {
+            return res.status(409).json({
+                ...availabilityService.conflictResponse(error.availability),
+                message: `${error.message}. Nothing was scheduled; try again.`,
+                stepNumber: error.booking.step.stepNumber
+            });
+        }
+        if (error instanceof ChangeoverRequiredError) {
+            return res.status(400).json({ error: 'Cleaning changeover required', message: error.message, changeovers: error.violations });
+        }
+        console.error('Error scheduling recipe:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /recipes/:id/history - Signed status history
+router.get('/:id/history', authenticateToken, requireReadAccess, async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+
+        const history = await prisma.recipeStatusHistory.findMany({
+            where: { recipeId: id },
+            orderBy: { signedAt: 'asc' }
+        });
+
+        res.json(history);
+    } catch (error) {
+        console.error('Error fetching recipe history:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
 // POST /recipes/:id/analyze - Trigger AI analysis for recipe steps
 router.post('/:id/analyze', authenticateToken, requireWriteAccess, async (req, res) => {
     try {
@@ -108,23 +936,7 @@ router.get('/:id', authenticateToken, requireReadAccess, async (req, res) => {
         const id = parseInt(req.params.id);
         const recipe = await prisma.recipe.findUnique({
             where: { id },
-            include: {
-                steps: {
-                    include: {
-                        reactionContext: true,
-                        equipment: true
-                    },
-                    orderBy: { stepNumber: 'asc' }
-                },
-                materials: {
-                    include: {
-                        material: true
-                    }
-                },
-                createdBy: {
-                    select: { email: true }
-                }
-            }
+            include: recipeDetailInclude
         });
 
         if (!recipe) {
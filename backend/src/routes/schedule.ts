@@ -0,0 +1,153 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireWriteAccess, AuthRequest } from '../middleware/auth';
+import { availabilityService } from '../services/availabilityService';
+import { ChangeoverRequiredError } from '../services/changeoverService';
+import { equipmentCheckService } from '../services/equipmentCheckService';
+import { schedulerService } from '../services/schedulerService';
+import { UnitConversionError } from '../services/unitsService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const orderSchema = Joi.object({
+  recipeId: Joi.number().integer().positive().required(),
+  batchNo: Joi.string().required(),
+  batchSize: Joi.number().positive().required(),
+  batchSizeUnit: Joi.string().optional(), // Defaults to the recipe's yield unit
+  productName: Joi.string().optional(),
+  dueDate: Joi.date().iso().required(),
+  priority: Joi.number().integer().min(1).max(5).default(3), // 1 is most urgent
+  earliestStart: Joi.date().iso().optional()
+});
+
+const optimizeSchema = Joi.object({
+  orders: Joi.array().items(orderSchema).min(1).max(100).required(),
+  startFrom: Joi.date().iso().optional(), // Defaults to now
+  horizonDays: Joi.number().integer().min(1).max(365).default(60)
+});
+
+// A proposed batch to book, as returned by /optimize
+const acceptSchema = Joi.object({
+  batches: Joi.array().items(Joi.object({
+    recipeId: Joi.number().integer().positive().required(),
+    batchNo: Joi.string().required(),
+    batchSize: Joi.number().positive().required(),
+    batchSizeUnit: Joi.string().optional().allow(null),
+    productName: Joi.string().optional(),
+    startTimestamp: Joi.date().iso().required()
+  }).unknown(true)).min(1).required()
+});
+
+// Thrown inside the accept transaction so nothing is booked when one batch no longer fits
+class ProposalRejectedError extends Error {
+  constructor(message: string, public details: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+// POST /schedule/optimize - Propose a finite-capacity schedule for a set of batch orders
+router.post('/optimize', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const { error, value } = optimizeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const proposal = await schedulerService.optimize(prisma, value.orders, {
+      startFrom: value.startFrom ? new Date(value.startFrom) : new Date(),
+      horizonDays: value.horizonDays
+    });
+
+    res.json(proposal);
+  } catch (error) {
+    console.error('Error optimizing schedule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /schedule/accept - Book some or all of the batches from a proposal
+router.post('/accept', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const { error, value } = acceptSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    // Each batch is checked against everything booked so far, including earlier batches in this request
+    const booked = await prisma.$transaction(async (tx) => {
+      const results = [];
+
+      for (const batch of value.batches) {
+        const recipe = await schedulerService.loadRecipe(tx, batch.recipeId);
+        if (!recipe) {
+          throw new ProposalRejectedError(`Recipe ${batch.recipeId} not found`, { batchNo: batch.batchNo });
+        }
+
+        const problem = schedulerService.recipeProblem(recipe);
+        if (problem) {
+          throw new ProposalRejectedError(`${batch.batchNo}: ${problem.error}`, { batchNo: batch.batchNo });
+        }
+
+        const plan = schedulerService.planMaterials(recipe, batch.batchSize, batch.batchSizeUnit);
+        const bookings = schedulerService.layoutSteps(recipe, new Date(batch.startTimestamp));
+
+        for (const booking of bookings) {
+          const availability = await availabilityService.check(tx, {
+            equipmentId: booking.step.equipmentId!,
+            startTimestamp: booking.startTimestamp,
+            endTimestamp: booking.endTimestamp,
+            type: 'batch'
+          });
+          if (!availability.available) {
+            throw new ProposalRejectedError(`${batch.batchNo} step ${booking.step.stepNumber}: ${availability.message}`, {
+              batchNo: batch.batchNo,
+              stepNumber: booking.step.stepNumber,
+              conflicts: availability.conflicts
+            });
+          }
+        }
+
+        const issues = await schedulerService.checkBookings(tx, recipe, bookings, plan.batchSize, plan.batchSizeUnit);
+        const blocking = equipmentCheckService.blockingMessage(issues);
+        if (blocking) {
+          throw new ProposalRejectedError(`${batch.batchNo}: ${blocking}`, { batchNo: batch.batchNo, issues });
+        }
+
+        const batchEvents = await schedulerService.createBookings(tx, req, {
+          recipe,
+          bookings,
+          plannedMaterials: plan.plannedMaterials,
+          batchNo: batch.batchNo,
+          productName: batch.productName,
+          batchSize: plan.batchSize,
+          batchSizeUnit: plan.batchSizeUnit,
+          autoCleaning: true
+        });
+        results.push({ batchNo: batch.batchNo, batchEvents });
+      }
+
+      return results;
+    }, { timeout: 30000 });
+
+    res.status(201).json({
+      message: `Scheduled ${booked.length} batch(es)`,
+      batches: booked
+    });
+  } catch (error) {
+    if (error instanceof ProposalRejectedError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    if (error instanceof ChangeoverRequiredError) {
+      return res.status(400).json({ error: 'Cleaning changeover required', message: error.message, changeovers: error.violations });
+    }
+    if (error instanceof UnitConversionError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error accepting schedule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import express from 'express';
 import Joi from 'joi';
 import { PrismaClient, HazardClassification, SDSStatus } from '@prisma/client';
 import { authenticateToken, requireWriteAccess, requireReadAccess, AuthRequest } from '../middleware/auth';
+import { auditService } from '../services/auditService';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
@@ -207,25 +208,30 @@ router.post('/', authenticateToken, requireWriteAccess, upload.single('file'), a
     }
 
     // Create SDS record
-    const sds = await prisma.safetyDataSheet.create({
-      data: {
-        ...value,
-        fileName: req.file.originalname,
-        filePath: `uploads/sds/${req.file.filename}`,
-        fileSize: req.file.size,
-        mimeType: req.file.mimetype,
-        uploadedByUserId: req.user!.id,
-        revisionDate: new Date(value.revisionDate),
-        expirationDate: value.expirationDate ? new Date(value.expirationDate) : null
-      },
-      include: {
-        material: {
-          select: { id: true, name: true, materialId: true }
+    const file = req.file;
+    const sds = await prisma.$transaction(async (tx) => {
+      const created = await tx.safetyDataSheet.create({
+        data: {
+          ...value,
+          fileName: file.originalname,
+          filePath: `uploads/sds/${file.filename}`,
+          fileSize: file.size,
+          mimeType: file.mimetype,
+          uploadedByUserId: req.user!.id,
+          revisionDate: new Date(value.revisionDate),
+          expirationDate: value.expirationDate ? new Date(value.expirationDate) : null
         },
-        uploadedBy: {
-          select: { id: true, email: true }
+        include: {
+          material: {
+            select: { id: true, name: true, materialId: true }
+          },
+          uploadedBy: {
+            select: { id: true, email: true }
+          }
         }
-      }
+      });
+      await auditService.record(tx, req, { entityType: 'safety_data_sheet', entityId: created.id, action: 'create', after: created });
+      return created;
     });
 
     res.status(201).json(sds);
@@ -244,7 +250,7 @@ router.post('/', authenticateToken, requireWriteAccess, upload.single('file'), a
 });
 
 // PUT /sds/:id - Update SDS metadata (not the file)
-router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
+router.put('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id);
     const { error, value } = sdsSchema.validate(req.body);
@@ -253,21 +259,26 @@ router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    const sds = await prisma.safetyDataSheet.update({
-      where: { id },
-      data: {
-        ...value,
-        revisionDate: value.revisionDate ? new Date(value.revisionDate) : undefined,
-        expirationDate: value.expirationDate ? new Date(value.expirationDate) : null
-      },
-      include: {
-        material: {
-          select: { id: true, name: true, materialId: true }
+    const sds = await prisma.$transaction(async (tx) => {
+      const before = await tx.safetyDataSheet.findUnique({ where: { id } });
+      const updated = await tx.safetyDataSheet.update({
+        where: { id },
+        data: {
+          ...value,
+          revisionDate: value.revisionDate ? new Date(value.revisionDate) : undefined,
+          expirationDate: value.expirationDate ? new Date(value.expirationDate) : null
         },
-        uploadedBy: {
-          select: { id: true, email: true }
+        include: {
+          material: {
+            select: { id: true, name: true, materialId: true }
+          },
+          uploadedBy: {
+            select: { id: true, email: true }
+          }
         }
-      }
+      });
+      await auditService.record(tx, req, { entityType: 'safety_data_sheet', entityId: id, action: 'update', before, after: updated });
+      return updated;
     });
 
     res.json(sds);
@@ -281,7 +292,7 @@ router.put('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
 });
 
 // DELETE /sds/:id - Delete SDS
-router.delete('/:id', authenticateToken, requireWriteAccess, async (req, res) => {
+router.delete('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id);
 
@@ -303,8 +314,11 @@ router.delete('/:id', authenticateToken, requireWriteAccess, async (req, res) =>
     }
 
     // Delete from database
-    await prisma.safetyDataSheet.delete({
-      where: { id }
+    await prisma.$transaction(async (tx) => {
+      await tx.safetyDataSheet.delete({
+        where: { id }
+      });
+      await auditService.record(tx, req, { entityType: 'safety_data_sheet', entityId: id, action: 'delete', before: sds });
     });
 
     res.json({ message: 'SDS deleted successfully' });
@@ -318,7 +332,7 @@ router.delete('/:id', authenticateToken, requireWriteAccess, async (req, res) =>
 });
 
 // POST /sds/:id/link-to-recipe-step - Link SDS to a recipe step
-router.post('/:id/link-to-recipe-step', authenticateToken, requireWriteAccess, async (req, res) => {
+router.post('/:id/link-to-recipe-step', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const sdsId = parseInt(req.params.id);
     const { recipeStepId, notes } = req.body;
@@ -346,21 +360,28 @@ router.post('/:id/link-to-recipe-step', authenticateToken, requireWriteAccess, a
     }
 
     // Create or update link
-    const link = await prisma.recipeStepSDS.upsert({
-      where: {
-        recipeStepId_sdsId: {
+    const link = await prisma.$transaction(async (tx) => {
+      const where = { recipeStepId_sdsId: { recipeStepId, sdsId } };
+      const before = await tx.recipeStepSDS.findUnique({ where });
+      const saved = await tx.recipeStepSDS.upsert({
+        where,
+        create: {
           recipeStepId,
-          sdsId
+          sdsId,
+          notes
+        },
+        update: {
+          notes
         }
-      },
-      create: {
-        recipeStepId,
-        sdsId,
-        notes
-      },
-      update: {
-        notes
-      }
+      });
+      await auditService.record(tx, req, {
+        entityType: 'recipe_step_sds',
+        entityId: saved.id,
+        action: before ? 'update' : 'create',
+        before,
+        after: saved
+      });
+      return saved;
     });
 
     res.json(link);
@@ -371,18 +392,21 @@ router.post('/:id/link-to-recipe-step', authenticateToken, requireWriteAccess, a
 });
 
 // DELETE /sds/:id/unlink-from-recipe-step/:recipeStepId - Unlink SDS from recipe step
-router.delete('/:id/unlink-from-recipe-step/:recipeStepId', authenticateToken, requireWriteAccess, async (req, res) => {
+router.delete('/:id/unlink-from-recipe-step/:recipeStepId', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
   try {
     const sdsId = parseInt(req.params.id);
     const recipeStepId = parseInt(req.params.recipeStepId);
 
-    await prisma.recipeStepSDS.delete({
-      where: {
-        recipeStepId_sdsId: {
-          recipeStepId,
-          sdsId
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.recipeStepSDS.delete({
+        where: {
+          recipeStepId_sdsId: {
+            recipeStepId,
+            sdsId
+          }
         }
-      }
+      });
+      await auditService.record(tx, req, { entityType: 'recipe_step_sds', entityId: deleted.id, action: 'delete', before: deleted });
     });
 
     res.json({ message: 'SDS unlinked from recipe step successfully' });
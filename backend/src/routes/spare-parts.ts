@@ -0,0 +1,288 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient, SparePart } from '@prisma/client';
+import { authenticateToken, requireWriteAccess, requireReadAccess, AuthRequest } from '../middleware/auth';
+import { auditService } from '../services/auditService';
+import { sparePartService } from '../services/sparePartService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const partSchema = Joi.object({
+  partNumber: Joi.string().trim().required(),
+  name: Joi.string().trim().required(),
+  description: Joi.string().allow('', null).optional(),
+  unit: Joi.string().default('pcs'),
+  reorderPoint: Joi.number().min(0).default(0),
+  reorderQuantity: Joi.number().positive().allow(null).optional(),
+  supplier: Joi.string().allow('', null).optional(),
+  costPerUnit: Joi.number().min(0).allow(null).optional(),
+  location: Joi.string().allow('', null).optional(),
+  equipmentIds: Joi.array().items(Joi.number().integer().positive()).default([]) // Equipment the part fits; empty fits any
+});
+
+const createSchema = partSchema.keys({
+  quantityOnHand: Joi.number().min(0).default(0)
+});
+
+const transactionSchema = Joi.object({
+  transactionType: Joi.string().valid('received', 'adjusted').required(),
+  quantity: Joi.number().min(0).required(), // Added when received; the counted stock when adjusted
+  notes: Joi.string().allow('', null).optional()
+});
+
+const partInclude = {
+  fits: { include: { equipment: { select: { id: true, name: true } } } }
+};
+
+// Add on-hand, reserved and available stock to each part
+const withStock = async <T extends SparePart>(parts: T[]) => {
+  const levels = await sparePartService.stockLevels(prisma, parts.map(p => p.id));
+  return parts.map(part => {
+    const level = levels.get(part.id)!;
+    return { ...part, reserved: level.reserved, available: level.available, isLowStock: level.available <= level.reorderPoint };
+  });
+};
+
+// GET /spare-parts - List spare parts with stock levels
+router.get('/', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const { equipmentId, lowStock } = req.query;
+
+    const parts = await prisma.sparePart.findMany({
+      where: equipmentId
+        ? { OR: [{ fits: { none: {} } }, { fits: { some: { equipmentId: parseInt(equipmentId as string) } } }] }
+        : undefined,
+      include: partInclude,
+      orderBy: { partNumber: 'asc' }
+    });
+
+    const stocked = await withStock(parts);
+    res.json(lowStock === 'true' ? stocked.filter(p => p.isLowStock) : stocked);
+  } catch (error) {
+    console.error('Error fetching spare parts:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /spare-parts/:id - Spare part with its open reservations
+router.get('/:id', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const part = await prisma.sparePart.findUnique({
+      where: { id },
+      include: {
+        ...partInclude,
+        usages: {
+          where: { consumedQuantity: null },
+          include: {
+            maintenanceEvent: {
+              select: { id: true, reason: true, startTimestamp: true, equipment: { select: { id: true, name: true } } }
+            }
+          }
+        }
+      }
+    });
+
+    if (!part) {
+      return res.status(404).json({ error: 'Spare part not found' });
+    }
+
+    const [stocked] = await withStock([part]);
+    res.json(stocked);
+  } catch (error) {
+    console.error('Error fetching spare part:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /spare-parts/:id/transactions - Stock movements for a spare part, newest first
+router.get('/:id/transactions', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const transactions = await prisma.sparePartTransaction.findMany({
+      where: { sparePartId: id },
+      include: {
+        maintenanceEvent: {
+          select: { id: true, reason: true, equipment: { select: { id: true, name: true } } }
+        }
+      },
+      orderBy: { timestamp: 'desc' }
+    });
+
+    res.json(transactions);
+  } catch (error) {
+    console.error('Error fetching spare part transactions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /spare-parts - Add a spare part to the catalogue
+router.post('/', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const { error, value } = createSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { equipmentIds, ...data } = value;
+
+    const part = await prisma.$transaction(async (tx) => {
+      const created = await tx.sparePart.create({
+        data: {
+          ...data,
+          fits: { create: equipmentIds.map((equipmentId: number) => ({ equipmentId })) }
+        },
+        include: partInclude
+      });
+
+      if (data.quantityOnHand > 0) {
+        await tx.sparePartTransaction.create({
+          data: {
+            sparePartId: created.id,
+            transactionType: 'received',
+            quantity: data.quantityOnHand,
+            remainingBalance: data.quantityOnHand,
+            notes: 'Initial stock'
+          }
+        });
+      }
+
+      await auditService.record(tx, req, { entityType: 'spare_part', entityId: created.id, action: 'create', after: created });
+      return created;
+    });
+
+    const [stocked] = await withStock([part]);
+    res.status(201).json(stocked);
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      return res.status(409).json({ error: 'A spare part with this part number already exists' });
+    }
+    if (error.code === 'P2003') {
+      return res.status(400).json({ error: 'Equipment not found' });
+    }
+    console.error('Error creating spare part:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /spare-parts/:id/transactions - Receive stock or record a stock count
+router.post('/:id/transactions', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { error, value } = transactionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const stockBefore = await sparePartService.stockLevels(prisma, [id]);
+    if (!stockBefore.has(id)) {
+      return res.status(404).json({ error: 'Spare part not found' });
+    }
+
+    const transaction = await prisma.$transaction(async (tx) => {
+      const before = await tx.sparePart.findUniqueOrThrow({ where: { id } });
+      const remaining = value.transactionType === 'received'
+        ? Number(before.quantityOnHand) + value.quantity
+        : value.quantity;
+
+      const updated = await tx.sparePart.update({ where: { id }, data: { quantityOnHand: remaining } });
+      const created = await tx.sparePartTransaction.create({
+        data: {
+          sparePartId: id,
+          transactionType: value.transactionType,
+          quantity: value.quantity,
+          remainingBalance: remaining,
+          notes: value.notes
+        }
+      });
+
+      await auditService.record(tx, req, { entityType: 'spare_part_transaction', entityId: created.id, action: 'create', after: created });
+      await auditService.record(tx, req, { entityType: 'spare_part', entityId: id, action: 'update', before, after: updated });
+      return created;
+    });
+
+    await sparePartService.notifyLowStock(prisma, await sparePartService.crossedReorderPoint(prisma, stockBefore));
+
+    res.status(201).json(transaction);
+  } catch (error) {
+    console.error('Error recording spare part transaction:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /spare-parts/:id - Update a spare part; stock only changes through transactions
+router.put('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { error, value } = partSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { equipmentIds, ...data } = value;
+    const stockBefore = await sparePartService.stockLevels(prisma, [id]);
+
+    const part = await prisma.$transaction(async (tx) => {
+      const before = await tx.sparePart.findUnique({ where: { id }, include: partInclude });
+      const updated = await tx.sparePart.update({
+        where: { id },
+        data: {
+          ...data,
+          fits: {
+            deleteMany: {},
+            create: equipmentIds.map((equipmentId: number) => ({ equipmentId }))
+          }
+        },
+        include: partInclude
+      });
+      await auditService.record(tx, req, { entityType: 'spare_part', entityId: id, action: 'update', before, after: updated });
+      return updated;
+    });
+
+    // A raised reorder point can put the part below it
+    await sparePartService.notifyLowStock(prisma, await sparePartService.crossedReorderPoint(prisma, stockBefore));
+
+    const [stocked] = await withStock([part]);
+    res.json(stocked);
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Spare part not found' });
+    }
+    if (error.code === 'P2002') {
+      return res.status(409).json({ error: 'A spare part with this part number already exists' });
+    }
+    if (error.code === 'P2003') {
+      return res.status(400).json({ error: 'Equipment not found' });
+    }
+    console.error('Error updating spare part:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /spare-parts/:id - Remove a spare part that no maintenance event uses
+router.delete('/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.sparePart.delete({ where: { id } });
+      await auditService.record(tx, req, { entityType: 'spare_part', entityId: id, action: 'delete', before: deleted });
+    });
+
+    res.json({ message: 'Spare part deleted successfully' });
+  } catch (error: any) {
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Spare part not found' });
+    }
+    if (error.code === 'P2003' || error.code === 'P2014') {
+      return res.status(409).json({ error: 'Spare part is used on maintenance events' });
+    }
+    console.error('Error deleting spare part:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,176 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireWriteAccess, requireReadAccess, AuthRequest } from '../middleware/auth';
+import { telemetryService, TelemetrySample } from '../services/telemetryService';
+
+// Mounted at /batches/:id/telemetry
+const router = express.Router({ mergeParams: true });
+const prisma = new PrismaClient();
+
+const ingestSchema = Joi.object({
+  samples: Joi.array().items(Joi.object().unknown(true)).min(1).max(50000).required()
+});
+
+const querySchema = Joi.object({
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+  bucket: Joi.number().integer().min(1).optional(), // Bucket width in seconds
+  points: Joi.number().integer().min(1).max(5000).optional(), // Target number of buckets
+  metrics: Joi.string().optional(), // Comma separated metric keys
+  limit: Joi.number().integer().min(1).max(50000).default(5000)
+});
+
+// Most buckets a downsampled query may return, matching the largest "points" value
+const MAX_BUCKETS = 5000;
+
+// POST /batches/:id/telemetry - Bulk ingest sensor samples (JSON or CSV)
+router.post('/', authenticateToken, requireWriteAccess, express.text({ type: ['text/csv', 'text/plain'], limit: '10mb' }), async (req: AuthRequest, res) => {
+  try {
+    const batchEventId = parseInt(req.params.id);
+
+    const batchEvent = await prisma.batchEvent.findUnique({
+      where: { id: batchEventId },
+      select: { id: true, startTimestamp: true, endTimestamp: true }
+    });
+
+    if (!batchEvent) {
+      return res.status(404).json({ error: 'Batch event not found' });
+    }
+
+    let parsed;
+    if (typeof req.body === 'string') {
+      parsed = telemetryService.parseCsvSamples(req.body);
+    } else {
+      const { error, value } = ingestSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ error: error.details[0].message });
+      }
+      parsed = telemetryService.parseJsonSamples(value.samples);
+    }
+
+    // Samples must fall within the batch's scheduled window
+    const rejected = [...parsed.errors];
+    const accepted = parsed.samples.filter(sample => {
+      if (sample.timestamp < batchEvent.startTimestamp || sample.timestamp > batchEvent.endTimestamp) {
+        rejected.push({ row: sample.row, error: `Timestamp ${sample.timestamp.toISOString()} is outside the batch window` });
+        return false;
+      }
+      return true;
+    });
+
+    if (accepted.length === 0) {
+      return res.status(400).json({
+        error: 'No valid telemetry samples',
+        rejected
+      });
+    }
+
+    const result = await prisma.batchTelemetry.createMany({
+      data: accepted.map(sample => ({
+        batchEventId,
+        timestamp: sample.timestamp,
+        data: sample.data
+      }))
+    });
+
+    res.status(201).json({
+      message: 'Telemetry ingested successfully',
+      inserted: result.count,
+      rejectedCount: rejected.length,
+      rejected
+    });
+  } catch (error) {
+    console.error('Error ingesting telemetry:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /batches/:id/telemetry - Query samples, optionally downsampled into buckets
+router.get('/', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const batchEventId = parseInt(req.params.id);
+    const { error, value } = querySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const batchEvent = await prisma.batchEvent.findUnique({
+      where: { id: batchEventId },
+      select: { id: true, startTimestamp: true, endTimestamp: true }
+    });
+
+    if (!batchEvent) {
+      return res.status(404).json({ error: 'Batch event not found' });
+    }
+
+    const from: Date = value.from ? new Date(value.from) : batchEvent.startTimestamp;
+    const to: Date = value.to ? new Date(value.to) : batchEvent.endTimestamp;
+    const metrics: string[] | undefined = value.metrics
+      ? value.metrics.split(',').map((m: string) => m.trim()).filter(Boolean)
+      : undefined;
+
+    if (to <= from) {
+      return res.status(400).json({ error: 'End of range must be after start of range' });
+    }
+
+    if (value.bucket || value.points) {
+      const bucketMs = value.bucket
+        ? value.bucket * 1000
+        : Math.max(1000, Math.ceil((to.getTime() - from.getTime()) / value.points));
+
+      if (Math.ceil((to.getTime() - from.getTime()) / bucketMs) > MAX_BUCKETS) {
+        return res.status(400).json({
+          error: `Bucket too small for the range; at most ${MAX_BUCKETS} buckets can be returned. Use a wider bucket or a shorter range.`
+        });
+      }
+
+      const [sampleCount, buckets] = await Promise.all([
+        prisma.batchTelemetry.count({ where: { batchEventId, timestamp: { gte: from, lte: to } } }),
+        telemetryService.downsample(prisma, batchEventId, from, to, bucketMs, metrics)
+      ]);
+
+      return res.json({
+        batchEventId,
+        from,
+        to,
+        bucketSeconds: bucketMs / 1000,
+        sampleCount,
+        buckets
+      });
+    }
+
+    const rows = await prisma.batchTelemetry.findMany({
+      where: {
+        batchEventId,
+        timestamp: { gte: from, lte: to }
+      },
+      orderBy: { timestamp: 'asc' },
+      take: value.limit
+    });
+
+    const samples: TelemetrySample[] = rows.map(row => ({
+      timestamp: row.timestamp,
+      data: row.data as Record<string, number>
+    }));
+
+    res.json({
+      batchEventId,
+      from,
+      to,
+      count: samples.length,
+      truncated: samples.length === value.limit,
+      samples: metrics
+        ? samples.map(s => ({
+          timestamp: s.timestamp,
+          data: Object.fromEntries(Object.entries(s.data).filter(([key]) => metrics.includes(key)))
+        }))
+        : samples
+    });
+  } catch (error) {
+    console.error('Error fetching telemetry:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,54 @@
+import express from 'express';
+import Joi from 'joi';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, requireReadAccess } from '../middleware/auth';
+import { unitsService, UnitConversionError } from '../services/unitsService';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const convertSchema = Joi.object({
+  value: Joi.number().required(),
+  from: Joi.string().required(),
+  to: Joi.string().required(),
+  materialId: Joi.number().integer().positive().optional() // Supplies the density for mass <-> volume
+});
+
+// GET /units - Supported units by dimension
+router.get('/', authenticateToken, requireReadAccess, (req, res) => {
+  res.json(unitsService.list());
+});
+
+// GET /units/convert - Convert a quantity, optionally using a material's density
+router.get('/convert', authenticateToken, requireReadAccess, async (req, res) => {
+  try {
+    const { error, value } = convertSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    let density: number | null = null;
+    if (value.materialId) {
+      const material = await prisma.material.findUnique({ where: { id: value.materialId }, select: { density: true } });
+      if (!material) {
+        return res.status(404).json({ error: 'Material not found' });
+      }
+      density = material.density === null ? null : Number(material.density);
+    }
+
+    res.json({
+      value: value.value,
+      from: value.from,
+      to: value.to,
+      result: unitsService.convert(value.value, value.from, value.to, density)
+    });
+  } catch (error) {
+    if (error instanceof UnitConversionError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error converting units:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -2,8 +2,14 @@ import express from 'express';
 import multer from 'multer';
 import pdf from 'pdf-parse';
 import * as xlsx from 'xlsx';
-import { PrismaClient } from '@prisma/client';
+import Joi from 'joi';
+import { PrismaClient, Prisma } from '@prisma/client';
 import OpenAI from 'openai';
+import { authenticateToken, requireWriteAccess, requireReadAccess, AuthRequest } from '../middleware/auth';
+import { auditService } from '../services/auditService';
+import { unitsService, UnitConversionError } from '../services/unitsService';
+import { availabilityService, Availability, BookingType } from '../services/availabilityService';
+import { changeoverService, ChangeoverRequiredError } from '../services/changeoverService';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -79,7 +85,208 @@ async function parsePDFWithOpenAI(text: string): Promise<ExtractedData> {
     return JSON.parse(content) as ExtractedData;
 }
 
-router.post('/', upload.single('file'), async (req, res) => {
+
+// Editable copy of the extracted plan; steps can be switched off instead of deleted
+type PlanStep = ExtractedData['steps'][number] & { included: boolean };
+type PlanData = Omit<ExtractedData, 'steps'> & { steps: PlanStep[] };
+
+const planSchema = Joi.object({
+    batchMetadata: Joi.object({
+        productName: Joi.string().required(),
+        batchId: Joi.string().required(),
+        plannedStart: Joi.string().optional().allow('', null),
+        plannedEnd: Joi.string().optional().allow('', null)
+    }).required(),
+    equipment: Joi.array().items(Joi.object({
+        id: Joi.string().required(),
+        name: Joi.string().optional().allow(''),
+        type: Joi.string().optional().allow('')
+    })).required(),
+    inventory: Joi.array().items(Joi.object({
+        name: Joi.string().required(),
+        quantity: Joi.number().min(0).required(),
+        unit: Joi.string().required()
+    })).required(),
+    steps: Joi.array().items(Joi.object({
+        stepNumber: Joi.number().integer().required(),
+        title: Joi.string().required(),
+        equipmentId: Joi.string().allow('').required(),
+        startTime: Joi.string().required(),
+        endTime: Joi.string().required(),
+        type: Joi.string().valid('BATCH', 'MAINTENANCE', 'OTHER').required(),
+        included: Joi.boolean().default(true)
+    })).required()
+});
+
+// The parser output is untrusted, so coerce it into the shape planners edit
+const normalizePlan = (data: Partial<ExtractedData>): PlanData => ({
+    batchMetadata: {
+        productName: String(data.batchMetadata?.productName || 'Unknown Product'),
+        batchId: String(data.batchMetadata?.batchId || `PLAN-${Date.now()}`),
+        plannedStart: data.batchMetadata?.plannedStart || '',
+        plannedEnd: data.batchMetadata?.plannedEnd || ''
+    },
+    equipment: (data.equipment || []).filter(eq => eq?.id).map(eq => ({
+        id: String(eq.id),
+        name: String(eq.name || eq.id),
+        type: String(eq.type || '')
+    })),
+    inventory: (data.inventory || []).filter(item => item?.name).map(item => ({
+        name: String(item.name),
+        quantity: Number(item.quantity) || 0,
+        unit: String(item.unit || 'kg')
+    })),
+    steps: (data.steps || []).map((step, index) => ({
+        stepNumber: Number(step.stepNumber) || index + 1,
+        title: String(step.title || `Step ${index + 1}`),
+        equipmentId: String(step.equipmentId || ''),
+        startTime: String(step.startTime || ''),
+        endTime: String(step.endTime || ''),
+        type: ['BATCH', 'MAINTENANCE', 'OTHER'].includes(step.type) ? step.type : 'BATCH',
+        included: true
+    }))
+});
+
+// Thrown inside the commit transaction when a step's equipment was booked after the plan was reviewed
+class PlanConflictError extends Error {
+    constructor(public stepNumber: number, public availability: Availability) {
+        super(`Step ${stepNumber}: ${availability.message}`);
+    }
+}
+
+// Match equipment, check every included step for bad times and double bookings, and match materials
+const reviewPlan = async (plan: PlanData) => {
+    const [equipment, materials] = await Promise.all([
+        prisma.equipment.findMany({ select: { id: true, name: true, equipmentId: true } }),
+        prisma.material.findMany({ select: { id: true, name: true, unit: true, density: true } })
+    ]);
+
+    const findEquipment = (reference: string) => {
+        const key = reference.trim().toLowerCase();
+        return equipment.find(e => e.equipmentId?.toLowerCase() === key || e.name.toLowerCase() === key);
+    };
+
+    // Plan equipment with no match in the database is created on commit
+    const newEquipment = plan.equipment
+        .filter(eq => !findEquipment(eq.id))
+        .map(eq => eq.id.trim().toLowerCase());
+
+    const slots: { key: string; stepNumber: number; start: Date; end: Date }[] = [];
+    const steps = [];
+
+    for (const [index, step] of plan.steps.entries()) {
+        const errors: string[] = [];
+        const conflicts: { type: BookingType; id: number | null; label: string; startTimestamp: Date; endTimestamp: Date; source: 'database' | 'plan' }[] = [];
+        const match = findEquipment(step.equipmentId);
+        const equipmentStatus = match ? 'matched' : newEquipment.includes(step.equipmentId.trim().toLowerCase()) ? 'new' : 'missing';
+
+        if (step.included) {
+            const start = new Date(step.startTime);
+            const end = new Date(step.endTime);
+
+            if (equipmentStatus === 'missing') {
+                errors.push(`No equipment matches "${step.equipmentId}"`);
+            }
+
+            if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+                errors.push('Start and end times must be valid dates');
+            } else if (end <= start) {
+                errors.push('End time must be after start time');
+            } else if (equipmentStatus !== 'missing') {
+                const key = match ? `id:${match.id}` : `new:${step.equipmentId.trim().toLowerCase()}`;
+
+                if (match) {
+                    const availability = await availabilityService.check(prisma, {
+                        equipmentId: match.id,
+                        startTimestamp: start,
+                        endTimestamp: end,
+                        type: 'batch'
+                    });
+                    if (availability.statusBlocked) {
+                        errors.push(`Equipment "${match.name}" is ${availability.equipment!.status}`);
+                    }
+                    conflicts.push(...availability.conflicts.map(c => ({
+                        type: c.type,
+                        id: c.id,
+                        label: c.label,
+                        startTimestamp: c.startTimestamp,
+                        endTimestamp: c.endTimestamp,
+                        source: 'database' as const
+                    })));
+
+                    // Every step is the same batch and product, so changeovers are only against existing batches
+                    if (step.type !== 'MAINTENANCE') {
+                        const changeovers = await changeoverService.check(prisma, {
+                            equipmentId: match.id,
+                            batchNo: plan.batchMetadata.batchId,
+                            productName: plan.batchMetadata.productName,
+                            startTimestamp: start,
+                            endTimestamp: end
+                        });
+                        const blocking = changeoverService.blockingMessage(changeovers);
+                        if (blocking) {
+                            errors.push(blocking);
+                        }
+                    }
+                }
+
+                conflicts.push(...slots
+                    .filter(slot => slot.key === key && slot.start < end && slot.end > start)
+                    .map(slot => ({
+                        type: 'batch' as const,
+                        id: null,
+                        label: `${plan.batchMetadata.batchId} step ${slot.stepNumber}`,
+                        startTimestamp: slot.start,
+                        endTimestamp: slot.end,
+                        source: 'plan' as const
+                    })));
+
+                slots.push({ key, stepNumber: step.stepNumber, start, end });
+            }
+        }
+
+        steps.push({
+            index,
+            stepNumber: step.stepNumber,
+            included: step.included,
+            equipmentStatus,
+            equipment: match ? { id: match.id, name: match.name } : null,
+            errors,
+            conflicts
+        });
+    }
+
+    // Planned quantities are stored in the matched material's stock unit
+    const reviewedMaterials = plan.inventory.map(item => {
+        const match = materials.find(m => m.name.toLowerCase() === item.name.toLowerCase());
+        if (!match) {
+            return { name: item.name, match: null, quantity: item.quantity, error: null };
+        }
+
+        try {
+            const quantity = unitsService.convert(item.quantity, item.unit, match.unit, match.density === null ? null : Number(match.density));
+            return { name: item.name, match: { id: match.id, name: match.name, unit: match.unit }, quantity, error: null };
+        } catch (error) {
+            if (!(error instanceof UnitConversionError)) throw error;
+            return { name: item.name, match: { id: match.id, name: match.name, unit: match.unit }, quantity: item.quantity, error: error.message };
+        }
+    });
+
+    return {
+        equipment: plan.equipment.map(eq => {
+            const match = findEquipment(eq.id);
+            return { id: eq.id, name: eq.name, match: match ? { id: match.id, name: match.name } : null };
+        }),
+        steps,
+        materials: reviewedMaterials,
+        canCommit: steps.some(s => s.included) &&
+            steps.every(s => !s.included || (s.errors.length === 0 && s.conflicts.length === 0)) &&
+            reviewedMaterials.every(m => !m.error)
+    };
+};
+
+// POST /api/upload-plan - Parse an uploaded plan into a draft for review
+router.post('/', authenticateToken, requireWriteAccess, upload.single('file'), async (req: AuthRequest, res) => {
     if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
     }
@@ -98,136 +305,327 @@ router.post('/', upload.single('file'), async (req, res) => {
             text = xlsx.utils.sheet_to_csv(sheet);
         }
 
-        // 1. Parse with OpenAI
         console.log("Sending text to OpenAI for parsing...");
         const extractedData = await parsePDFWithOpenAI(text);
-        console.log("Extracted Data:", JSON.stringify(extractedData, null, 2));
-
-        const createdEvents = [];
-        const createdEquipment = [];
-        const createdMaterials = [];
-
-        // 2. Upsert Equipment
-        for (const eq of extractedData.equipment) {
-            // Check if exists by name or ID
-            const existing = await prisma.equipment.findFirst({
-                where: {
-                    OR: [
-                        { equipmentId: { equals: eq.id, mode: 'insensitive' } },
-                        { name: { equals: eq.id, mode: 'insensitive' } } // Sometimes ID is used as name
-                    ]
-                }
+        const plan = normalizePlan(extractedData);
+
+        // Nothing is written to the schedule until a planner commits the draft
+        const draft = await prisma.planDraft.create({
+            data: {
+                fileName: req.file.originalname,
+                extracted: extractedData as unknown as Prisma.InputJsonValue,
+                plan: plan as unknown as Prisma.InputJsonValue,
+                createdById: req.user!.id
+            }
+        });
+
+        res.status(201).json({
+            message: 'Plan parsed and saved as a draft for review',
+            draft,
+            review: await reviewPlan(plan)
+        });
+    } catch (error: any) {
+        console.error('Upload Error:', error);
+        res.status(500).json({ error: error.message || 'Failed to process upload' });
+    }
+});
+
+// GET /api/upload-plan/drafts - List plan drafts (pending by default)
+router.get('/drafts', authenticateToken, requireReadAccess, async (req: AuthRequest, res) => {
+    try {
+        const { status = 'pending' } = req.query;
+
+        if (!['pending', 'committed', 'rejected'].includes(status as string)) {
+            return res.status(400).json({ error: 'Invalid status' });
+        }
+
+        const drafts = await prisma.planDraft.findMany({
+            where: { status: status as 'pending' | 'committed' | 'rejected' },
+            select: {
+                id: true,
+                fileName: true,
+                status: true,
+                plan: true,
+                committedAt: true,
+                createdAt: true,
+                createdBy: { select: { email: true } }
+            },
+            orderBy: { createdAt: 'desc' }
+        });
+
+        res.json(drafts);
+    } catch (error) {
+        console.error('Error fetching plan drafts:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /api/upload-plan/drafts/:id - Get a draft with its equipment matches and conflicts
+router.get('/drafts/:id', authenticateToken, requireReadAccess, async (req: AuthRequest, res) => {
+    try {
+        const id = parseInt(req.params.id);
+
+        const draft = await prisma.planDraft.findUnique({
+            where: { id },
+            include: { createdBy: { select: { email: true } } }
+        });
+
+        if (!draft) {
+            return res.status(404).json({ error: 'Plan draft not found' });
+        }
+
+        res.json({
+            draft,
+            review: draft.status === 'pending' ? await reviewPlan(draft.plan as unknown as PlanData) : null
+        });
+    } catch (error) {
+        console.error('Error fetching plan draft:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// PUT /api/upload-plan/drafts/:id - Save planner edits to a pending draft
+router.put('/drafts/:id', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+    try {
+        const id = parseInt(req.params.id);
+
+        const { error, value } = planSchema.validate(req.body.plan);
+        if (error) {
+            return res.status(400).json({ error: error.details[0].message });
+        }
+
+        const existing = await prisma.planDraft.findUnique({ where: { id } });
+        if (!existing) {
+            return res.status(404).json({ error: 'Plan draft not found' });
+        }
+
+        if (existing.status !== 'pending') {
+            return res.status(400).json({ error: `Plan draft has already been ${existing.status}` });
+        }
+
+        const draft = await prisma.planDraft.update({
+            where: { id },
+            data: { plan: value }
+        });
+
+        res.json({ draft, review: await reviewPlan(value) });
+    } catch (error) {
+        console.error('Error updating plan draft:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/upload-plan/drafts/:id/reject - Discard a pending draft
+router.post('/drafts/:id/reject', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+    try {
+        const id = parseInt(req.params.id);
+
+        const existing = await prisma.planDraft.findUnique({ where: { id } });
+        if (!existing) {
+            return res.status(404).json({ error: 'Plan draft not found' });
+        }
+
+        if (existing.status !== 'pending') {
+            return res.status(400).json({ error: `Plan draft has already been ${existing.status}` });
+        }
+
+        const draft = await prisma.planDraft.update({
+            where: { id },
+            data: { status: 'rejected' }
+        });
+
+        res.json({ message: 'Plan draft rejected', draft });
+    } catch (error) {
+        console.error('Error rejecting plan draft:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/upload-plan/drafts/:id/commit - Write the reviewed plan to the schedule in one transaction
+router.post('/drafts/:id/commit', authenticateToken, requireWriteAccess, async (req: AuthRequest, res) => {
+    try {
+        const id = parseInt(req.params.id);
+
+        const existing = await prisma.planDraft.findUnique({ where: { id } });
+        if (!existing) {
+            return res.status(404).json({ error: 'Plan draft not found' });
+        }
+
+        if (existing.status !== 'pending') {
+            return res.status(400).json({ error: `Plan draft has already been ${existing.status}` });
+        }
+
+        const plan = existing.plan as unknown as PlanData;
+        const review = await reviewPlan(plan);
+
+        if (!review.canCommit) {
+            return res.status(400).json({
+                error: 'Plan has unresolved errors or conflicts',
+                review
             });
+        }
+
+        const result = await prisma.$transaction(async (tx) => {
+            // Claim the draft first so two concurrent commits can't both apply it
+            const claimed = await tx.planDraft.updateMany({
+                where: { id, status: 'pending' },
+                data: { status: 'committed', committedAt: new Date() }
+            });
+            if (claimed.count === 0) {
+                throw new Error('Plan draft is no longer pending');
+            }
+
+            const createdEquipment = [];
+            const createdMaterials = [];
+            const createdEvents = [];
+            const includedSteps = plan.steps.filter((step, index) => review.steps[index].included);
 
-            if (!existing) {
-                const newEq = await prisma.equipment.create({
+            // Create only the new equipment that an included step actually uses
+            const newEquipmentIds = new Map<string, number>();
+            for (const eq of plan.equipment) {
+                const key = eq.id.trim().toLowerCase();
+                const used = includedSteps.some(step => step.equipmentId.trim().toLowerCase() === key);
+                if (!used || newEquipmentIds.has(key) || review.equipment.find(e => e.id === eq.id)?.match) continue;
+
+                const newEq = await tx.equipment.create({
                     data: {
                         name: eq.name || eq.id,
                         equipmentId: eq.id,
                         status: 'available',
                         isCustom: true,
-                        // Default values
                         location: 'Main Plant',
+                        createdByUserId: req.user!.id
                     }
                 });
+                await auditService.record(tx, req, { entityType: 'equipment', entityId: newEq.id, action: 'create', after: newEq });
+
+                newEquipmentIds.set(key, newEq.id);
                 createdEquipment.push(newEq);
             }
-        }
 
-        // 3. Create Events
-        for (const step of extractedData.steps) {
-            // Find the equipment (we just ensured it exists or we try to find it again)
-            const equipment = await prisma.equipment.findFirst({
-                where: {
-                    OR: [
-                        { equipmentId: { equals: step.equipmentId, mode: 'insensitive' } },
-                        { name: { equals: step.equipmentId, mode: 'insensitive' } }
-                    ]
+            let firstBatchEventId: number | null = null;
+
+            for (const [index, step] of plan.steps.entries()) {
+                const stepReview = review.steps[index];
+                if (!stepReview.included) continue;
+
+                const equipmentId = stepReview.equipment?.id ?? newEquipmentIds.get(step.equipmentId.trim().toLowerCase())!;
+
+                // Bookings may have changed since the review
+                const availability = await availabilityService.check(tx, {
+                    equipmentId,
+                    startTimestamp: new Date(step.startTime),
+                    endTimestamp: new Date(step.endTime),
+                    type: step.type === 'MAINTENANCE' ? 'maintenance' : 'batch'
+                });
+                if (!availability.available) {
+                    throw new PlanConflictError(step.stepNumber, availability);
                 }
-            });
 
-            if (equipment) {
-                // Determine event type
                 if (step.type === 'MAINTENANCE') {
-                    const event = await prisma.maintenanceEvent.create({
+                    const event = await tx.maintenanceEvent.create({
                         data: {
-                            equipmentId: equipment.id,
+                            equipmentId,
                             reason: 'scheduled',
-                            changesMade: step.title, // Store the description here
+                            changesMade: step.title,
                             startTimestamp: new Date(step.startTime),
                             endTimestamp: new Date(step.endTime),
                             supervisorName: 'System Import'
                         }
                     });
+                    await auditService.record(tx, req, { entityType: 'maintenance_event', entityId: event.id, action: 'create', after: event });
                     createdEvents.push(event);
                 } else {
-                    // Batch Event
-                    const event = await prisma.batchEvent.create({
+                    const event = await tx.batchEvent.create({
                         data: {
-                            equipmentId: equipment.id,
-                            batchNo: extractedData.batchMetadata.batchId,
-                            productName: extractedData.batchMetadata.productName,
+                            equipmentId,
+                            batchNo: plan.batchMetadata.batchId,
+                            productName: plan.batchMetadata.productName,
                             startTimestamp: new Date(step.startTime),
                             endTimestamp: new Date(step.endTime),
                             status: 'scheduled',
                             inputs: { stepName: step.title, stepNumber: step.stepNumber }
                         }
                     });
+                    await auditService.record(tx, req, { entityType: 'batch_event', entityId: event.id, action: 'create', after: event });
                     createdEvents.push(event);
+                    firstBatchEventId = firstBatchEventId ?? event.id;
+
+                    const changeovers = await changeoverService.check(tx, {
+                        equipmentId,
+                        batchNo: event.batchNo,
+                        productName: event.productName,
+                        startTimestamp: event.startTimestamp,
+                        endTimestamp: event.endTimestamp,
+                        excludeId: event.id
+                    });
+                    if (changeoverService.blockingMessage(changeovers)) {
+                        throw new ChangeoverRequiredError(changeovers);
+                    }
+                }
+            }
+
+            // Planned material quantities go on the first batch event of the plan
+            if (firstBatchEventId) {
+                for (const [index, item] of plan.inventory.entries()) {
+                    let materialId = review.materials[index].match?.id;
 
-                    // 4. Link Inventory (only for the first step or if we can map it better, 
-                    // but for now let's add all inventory to the first batch event of the sequence 
-                    // or just add it to the first event we create for this batch)
-                    if (createdEvents.length === 1 && extractedData.inventory && extractedData.inventory.length > 0) {
-                        for (const item of extractedData.inventory) {
-                            // Find or create material
-                            let material = await prisma.material.findFirst({
-                                where: { name: { equals: item.name, mode: 'insensitive' } }
-                            });
-
-                            if (!material) {
-                                material = await prisma.material.create({
-                                    data: {
-                                        name: item.name,
-                                        materialId: item.name.toUpperCase().replace(/\s+/g, '-'),
-                                        currentQuantity: 0,
-                                        minimumStock: 100,
-                                        unit: item.unit
-                                    }
-                                });
-                                createdMaterials.push(material);
+                    if (!materialId) {
+                        const material = await tx.material.create({
+                            data: {
+                                name: item.name,
+                                materialId: item.name.toUpperCase().replace(/\s+/g, '-'),
+                                currentQuantity: 0,
+                                minimumStock: 100,
+                                unit: item.unit
                             }
+                        });
+                        await auditService.record(tx, req, { entityType: 'material', entityId: material.id, action: 'create', after: material });
+                        createdMaterials.push(material);
+                        materialId = material.id;
+                    }
 
-                            // Create BatchMaterial
-                            await prisma.batchMaterial.create({
-                                data: {
-                                    batchEventId: event.id,
-                                    materialId: material.id,
-                                    plannedQuantity: item.quantity
-                                }
-                            });
+                    const line = await tx.batchMaterial.create({
+                        data: {
+                            batchEventId: firstBatchEventId,
+                            materialId,
+                            plannedQuantity: review.materials[index].quantity
                         }
-                    }
+                    });
+                    await auditService.record(tx, req, { entityType: 'batch_material', entityId: line.id, action: 'create', after: line });
                 }
-            } else {
-                console.warn(`Could not find equipment for step: ${step.title} (ID: ${step.equipmentId})`);
             }
-        }
+
+            return { createdEquipment, createdMaterials, createdEvents };
+        });
 
         res.json({
-            message: 'Plan processed successfully',
-            eventsCreated: createdEvents.length,
-            equipmentCreated: createdEquipment.length,
-            materialsCreated: createdMaterials.length,
+            message: 'Plan committed successfully',
+            eventsCreated: result.createdEvents.length,
+            equipmentCreated: result.createdEquipment.length,
+            materialsCreated: result.createdMaterials.length,
             details: {
-                batchId: extractedData.batchMetadata.batchId,
-                product: extractedData.batchMetadata.productName
+                batchId: plan.batchMetadata.batchId,
+                product: plan.batchMetadata.productName
             }
         });
-
     } catch (error: any) {
-        console.error('Upload Error:', error);
-        res.status(500).json({ error: error.message || 'Failed to process upload' });
+        if (error.message === 'Plan draft is no longer pending') {
+            return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof ChangeoverRequiredError) {
+            return res.status(409).json({ error: 'Cleaning changeover required', message: error.message, changeovers: error.violations });
+        }
+        if (error instanceof PlanConflictError) {
+            return res.status(409).json({
+                ...availabilityService.conflictResponse(error.availability),
+                message: `${error.message}. Nothing was committed; review the draft again.`,
+                stepNumber: error.stepNumber
+            });
+        }
+
+        console.error('Error committing plan draft:', error);
+        res.status(500).json({ error: 'Internal server error' });
     }
 });
 
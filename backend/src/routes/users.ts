@@ -3,6 +3,7 @@ import Joi from 'joi';
 import bcrypt from 'bcryptjs';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import { auditService } from '../services/auditService';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -16,7 +17,8 @@ const createUserSchema = Joi.object({
 const updateUserSchema = Joi.object({
   email: Joi.string().email().optional(),
   role: Joi.string().valid('admin', 'planner', 'viewer').optional(),
-  password: Joi.string().min(6).optional()
+  password: Joi.string().min(6).optional(),
+  active: Joi.boolean().optional()
 });
 
 // GET /users - Get all users (admin only)
@@ -27,6 +29,7 @@ router.get('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) =
         id: true,
         email: true,
         role: true,
+        active: true,
         createdAt: true,
         updatedAt: true,
         _count: {
@@ -57,6 +60,7 @@ router.get('/:id', authenticateToken, requireAdmin, async (req, res) => {
         id: true,
         email: true,
         role: true,
+        active: true,
         createdAt: true,
         updatedAt: true,
         createdEquipment: {
@@ -104,18 +108,22 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res)
     const passwordHash = await bcrypt.hash(password, saltRounds);
 
     // Create user
-    const user = await prisma.user.create({
-      data: {
-        email,
-        passwordHash,
-        role
-      },
-      select: {
-        id: true,
-        email: true,
-        role: true,
-        createdAt: true
-      }
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email,
+          passwordHash,
+          role
+        },
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          createdAt: true
+        }
+      });
+      await auditService.record(tx, req, { entityType: 'user', entityId: created.id, action: 'create', after: created });
+      return created;
     });
 
     res.status(201).json(user);
@@ -126,7 +134,7 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res)
 });
 
 // PUT /users/:id - Update user (admin only)
-router.put('/:id', authenticateToken, requireAdmin, async (req, res) => {
+router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id);
     const { error, value } = updateUserSchema.validate(req.body);
@@ -157,22 +165,50 @@ router.put('/:id', authenticateToken, requireAdmin, async (req, res) => {
       updateData.role = value.role;
     }
     
+    if (value.active !== undefined) {
+      updateData.active = value.active;
+    }
+    
     if (value.password) {
       const saltRounds = 12;
       updateData.passwordHash = await bcrypt.hash(value.password, saltRounds);
     }
 
-    const user = await prisma.user.update({
-      where: { id },
-      data: updateData,
-      select: {
-        id: true,
-        email: true,
-        role: true,
-        updatedAt: true
-      }
+    const user = await prisma.$transaction(async (tx) => {
+      const before = await tx.user.findUnique({
+        where: { id },
+        select: { id: true, email: true, role: true, active: true, updatedAt: true }
+      });
+      const updated = await tx.user.update({
+        where: { id },
+        data: updateData,
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          active: true,
+          updatedAt: true
+        }
+      });
+      // The hash itself is never logged, only the fact that the password changed
+      await auditService.record(tx, req, {
+        entityType: 'user',
+        entityId: id,
+        action: 'update',
+        before,
+        after: value.password ? { ...updated, passwordChanged: true } : updated
+      });
+      return updated;
     });
 
+    // A password change signs the user out everywhere
+    if (value.password) {
+      await prisma.session.updateMany({
+        where: { userId: id, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+    }
+
     res.json(user);
   } catch (error: any) {
     if (error.code === 'P2025') {
@@ -184,7 +220,7 @@ router.put('/:id', authenticateToken, requireAdmin, async (req, res) => {
 });
 
 // DELETE /users/:id - Delete user (admin only)
-router.delete('/:id', authenticateToken, requireAdmin, async (req, res) => {
+router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
   try {
     const id = parseInt(req.params.id);
 
@@ -195,7 +231,8 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req, res) => {
         _count: {
           select: {
             createdEquipment: true,
-            notifications: true
+            notifications: true,
+            recipeSignatures: true
           }
         }
       }
@@ -212,8 +249,20 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req, res) => {
       });
     }
 
-    await prisma.user.delete({
-      where: { id }
+    // Signed records must keep pointing at their signer
+    if (user._count.recipeSignatures > 0) {
+      return res.status(400).json({
+        error: 'Cannot delete user who has signed recipe records',
+        message: `This user has ${user._count.recipeSignatures} electronic signatures on file`
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.user.delete({
+        where: { id },
+        select: { id: true, email: true, role: true, createdAt: true }
+      });
+      await auditService.record(tx, req, { entityType: 'user', entityId: id, action: 'delete', before: deleted });
     });
 
     res.json({ message: 'User deleted successfully' });
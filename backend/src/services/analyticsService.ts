@@ -0,0 +1,401 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface AnalyticsRange {
+  start: Date;
+  end: Date;
+  equipmentId?: number;
+}
+
+export interface BatchCounts {
+  scheduled: number; // Planned to start in the range
+  onTime: number;
+  late: number; // Started late, overran, or never started
+  inProgress: number;
+  completed: number;
+  cancelledAfterStart: number;
+}
+
+// Minutes and counts the ratios are built from, so totals can be summed across equipment
+export interface MetricInputs {
+  elapsedMinutes: number;
+  plannedDowntimeMinutes: number;
+  unplannedDowntimeMinutes: number;
+  runMinutes: number;
+  plannedRunMinutes: number; // Planned duration of batches completed in the range
+  actualRunMinutes: number; // Actual duration of the same batches
+  batches: BatchCounts;
+}
+
+export interface Metrics {
+  availability: number | null;
+  utilization: number | null;
+  scheduleAdherence: number | null;
+  performance: number | null;
+  quality: number | null;
+  oee: number | null;
+}
+
+export interface EquipmentMetrics extends MetricInputs, Metrics {
+  equipment: { id: number; name: string; status: string };
+}
+
+export interface EquipmentAnalytics {
+  start: Date;
+  end: Date;
+  toleranceMinutes: number;
+  equipment: EquipmentMetrics[];
+  totals: MetricInputs & Metrics;
+}
+
+// A batch or maintenance event with recorded times, measured against its plan
+export interface AdherenceEvent {
+  type: 'batch' | 'maintenance';
+  id: number;
+  label: string;
+  equipment: { id: number; name: string };
+  productName: string | null; // Null for maintenance
+  week: string; // Monday of the planned start's week, YYYY-MM-DD
+  startTimestamp: Date;
+  endTimestamp: Date;
+  actualStart: Date;
+  actualEnd: Date | null;
+  startDelayMinutes: number; // Negative when started early
+  overrunMinutes: number | null; // Actual over planned duration; negative when quicker
+  finishDeltaMinutes: number | null; // Actual end against planned end; negative when early
+  lateStart: boolean;
+  overrun: boolean;
+  earlyFinish: boolean;
+  delayReason: string | null;
+  delayNotes: string | null;
+}
+
+export interface AdherenceGroup {
+  key: string;
+  label: string;
+  events: number;
+  onTime: number;
+  lateStarts: number;
+  overruns: number;
+  earlyFinishes: number;
+  lateStartMinutes: number;
+  overrunMinutes: number;
+  reasons: Record<string, number>; // Delayed events per reason code, `untagged` when none was given
+}
+
+export interface AdherenceReport {
+  start: Date;
+  end: Date;
+  toleranceMinutes: number;
+  totals: AdherenceGroup;
+  byEquipment: AdherenceGroup[];
+  byProduct: AdherenceGroup[];
+  byWeek: AdherenceGroup[];
+  byReason: { reason: string; events: number; delayMinutes: number }[];
+  events: AdherenceEvent[];
+}
+
+// Breakdowns are unplanned downtime; every other maintenance reason was planned
+const UNPLANNED_REASONS = ['breakdown'];
+
+// How late a batch may start or finish and still count as on schedule
+const adherenceToleranceMinutes = () => {
+  const value = parseInt(process.env.SCHEDULE_ADHERENCE_TOLERANCE_MINUTES || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : 15;
+};
+
+const MINUTE = 60 * 1000;
+
+// Minutes of [from, to) that fall inside [start, end)
+const overlapMinutes = (from: Date, to: Date, start: Date, end: Date) =>
+  Math.max(0, Math.min(to.getTime(), end.getTime()) - Math.max(from.getTime(), start.getTime())) / MINUTE;
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? Math.round(Math.min(1, numerator / denominator) * 1000) / 1000 : null;
+
+const emptyInputs = (): MetricInputs => ({
+  elapsedMinutes: 0,
+  plannedDowntimeMinutes: 0,
+  unplannedDowntimeMinutes: 0,
+  runMinutes: 0,
+  plannedRunMinutes: 0,
+  actualRunMinutes: 0,
+  batches: { scheduled: 0, onTime: 0, late: 0, inProgress: 0, completed: 0, cancelledAfterStart: 0 }
+});
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Monday of the UTC week containing `date`
+const weekOf = (date: Date) => {
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+};
+
+// Totals for a set of measured events; only late starts and overruns count as delays
+const summarize = (key: string, label: string, events: AdherenceEvent[]): AdherenceGroup => {
+  const group: AdherenceGroup = {
+    key, label, events: events.length, onTime: 0, lateStarts: 0, overruns: 0, earlyFinishes: 0,
+    lateStartMinutes: 0, overrunMinutes: 0, reasons: {}
+  };
+
+  for (const event of events) {
+    if (event.lateStart) {
+      group.lateStarts++;
+      group.lateStartMinutes += event.startDelayMinutes;
+    }
+    if (event.overrun) {
+      group.overruns++;
+      group.overrunMinutes += event.overrunMinutes!;
+    }
+    if (event.earlyFinish) group.earlyFinishes++;
+    if (event.lateStart || event.overrun) {
+      const reason = event.delayReason || 'untagged';
+      group.reasons[reason] = (group.reasons[reason] || 0) + 1;
+    } else {
+      group.onTime++;
+    }
+  }
+  return group;
+};
+
+const groupBy = (events: AdherenceEvent[], keyOf: (event: AdherenceEvent) => [string, string] | null) => {
+  const groups = new Map<string, { label: string; events: AdherenceEvent[] }>();
+  for (const event of events) {
+    const entry = keyOf(event);
+    if (!entry) continue;
+    const [key, label] = entry;
+    if (!groups.has(key)) groups.set(key, { label, events: [] });
+    groups.get(key)!.events.push(event);
+  }
+  return Array.from(groups.entries()).map(([key, group]) => summarize(key, group.label, group.events));
+};
+
+export const analyticsService = {
+  // Availability excludes planned maintenance from the time the equipment could run; utilization,
+  // performance and quality follow OEE, with quality as the share of started batches that completed.
+  metrics(inputs: MetricInputs): Metrics {
+    const productionMinutes = inputs.elapsedMinutes - inputs.plannedDowntimeMinutes;
+    const { batches } = inputs;
+
+    const availability = ratio(productionMinutes - inputs.unplannedDowntimeMinutes, productionMinutes);
+    const performance = ratio(inputs.plannedRunMinutes, inputs.actualRunMinutes);
+    const quality = ratio(batches.completed, batches.completed + batches.cancelledAfterStart);
+
+    return {
+      availability,
+      utilization: ratio(inputs.runMinutes, productionMinutes),
+      scheduleAdherence: ratio(batches.onTime, batches.onTime + batches.late),
+      performance,
+      quality,
+      oee: availability !== null && performance !== null && quality !== null
+        ? Math.round(availability * performance * quality * 1000) / 1000
+        : null
+    };
+  },
+
+  // Metrics per piece of equipment over a date range. Time after now hasn't happened yet, so the
+  // range is cut off at the current time.
+  async equipment(db: Db, range: AnalyticsRange, now: Date = new Date()): Promise<EquipmentAnalytics> {
+    const start = range.start;
+    const end = new Date(Math.min(range.end.getTime(), now.getTime()));
+    const tolerance = adherenceToleranceMinutes() * MINUTE;
+    const overlap = { startTimestamp: { lt: end }, endTimestamp: { gt: start } };
+
+    const [equipment, batches, maintenance] = await Promise.all([
+      db.equipment.findMany({
+        where: range.equipmentId ? { id: range.equipmentId } : undefined,
+        select: { id: true, name: true, status: true },
+        orderBy: { name: 'asc' }
+      }),
+      // Batches can run past their planned window, so also take ones that actually ran in the range
+      db.batchEvent.findMany({
+        where: {
+          equipmentId: range.equipmentId,
+          OR: [overlap, { actualStart: { lt: end }, OR: [{ actualEnd: null }, { actualEnd: { gt: start } }] }]
+        }
+      }),
+      db.maintenanceEvent.findMany({
+        where: {
+          equipmentId: range.equipmentId,
+          OR: [overlap, { actualStart: { lt: end }, OR: [{ actualEnd: null }, { actualEnd: { gt: start } }] }]
+        }
+      })
+    ]);
+
+    const inputs = new Map<number, MetricInputs>(equipment.map(eq => [eq.id, emptyInputs()]));
+    const elapsedMinutes = overlapMinutes(start, end, start, end);
+    inputs.forEach(input => { input.elapsedMinutes = elapsedMinutes; });
+
+    for (const event of maintenance) {
+      const input = inputs.get(event.equipmentId);
+      if (!input) continue;
+
+      // Recorded times win over the plan; maintenance still under way runs until now
+      const from = event.actualStart ?? event.startTimestamp;
+      const to = event.actualStart ? event.actualEnd ?? now : event.endTimestamp;
+      const minutes = overlapMinutes(from, to, start, end);
+      if (UNPLANNED_REASONS.includes(event.reason)) {
+        input.unplannedDowntimeMinutes += minutes;
+      } else {
+        input.plannedDowntimeMinutes += minutes;
+      }
+    }
+
+    for (const batch of batches) {
+      const input = inputs.get(batch.equipmentId);
+      if (!input) continue;
+      const counts = input.batches;
+
+      if (batch.status === 'cancelled') {
+        if (batch.actualStart && batch.actualStart >= start) counts.cancelledAfterStart++;
+        continue;
+      }
+
+      // Completed batches without recorded times are taken to have run to plan
+      if (batch.actualStart || batch.status === 'completed') {
+        const from = batch.actualStart ?? batch.startTimestamp;
+        const to = batch.actualEnd ?? (batch.status === 'completed' ? batch.endTimestamp : now);
+        input.runMinutes += overlapMinutes(from, to, start, end);
+      }
+
+      if (batch.status === 'completed') {
+        const finishedAt = batch.actualEnd ?? batch.endTimestamp;
+        if (finishedAt >= start && finishedAt < end) {
+          counts.completed++;
+          if (batch.actualStart && batch.actualEnd) {
+            input.plannedRunMinutes += (batch.endTimestamp.getTime() - batch.startTimestamp.getTime()) / MINUTE;
+            input.actualRunMinutes += (batch.actualEnd.getTime() - batch.actualStart.getTime()) / MINUTE;
+          }
+        }
+      } else if (batch.actualStart) {
+        counts.inProgress++;
+      }
+
+      // Adherence covers batches planned to start in the range, once their start is due
+      if (batch.startTimestamp < start || batch.startTimestamp >= end) continue;
+      counts.scheduled++;
+      if (batch.actualStart) {
+        const finish = batch.actualEnd ?? (batch.status === 'completed' ? null : now);
+        const startedLate = batch.actualStart.getTime() > batch.startTimestamp.getTime() + tolerance;
+        const overran = !!finish && finish.getTime() > batch.endTimestamp.getTime() + tolerance;
+        if (startedLate || overran) {
+          counts.late++;
+        } else {
+          counts.onTime++;
+        }
+      } else if (batch.status !== 'completed' && now.getTime() > batch.startTimestamp.getTime() + tolerance) {
+        counts.late++;
+      }
+    }
+
+    const totals = emptyInputs();
+    const results = equipment.map(eq => {
+      const input = inputs.get(eq.id)!;
+      const minutes = {
+        elapsedMinutes: round(input.elapsedMinutes),
+        plannedDowntimeMinutes: round(input.plannedDowntimeMinutes),
+        unplannedDowntimeMinutes: round(input.unplannedDowntimeMinutes),
+        runMinutes: round(input.runMinutes),
+        plannedRunMinutes: round(input.plannedRunMinutes),
+        actualRunMinutes: round(input.actualRunMinutes)
+      };
+
+      (Object.keys(minutes) as Array<keyof typeof minutes>).forEach(key => { totals[key] += minutes[key]; });
+      (Object.keys(input.batches) as Array<keyof BatchCounts>).forEach(key => { totals.batches[key] += input.batches[key]; });
+
+      return { equipment: eq, ...minutes, batches: input.batches, ...analyticsService.metrics(input) };
+    });
+
+    return {
+      start,
+      end,
+      toleranceMinutes: tolerance / MINUTE,
+      equipment: results,
+      totals: { ...totals, ...analyticsService.metrics(totals) }
+    };
+  },
+
+  // Late starts, overruns and early finishes of batch and maintenance events planned to start in the
+  // range, per equipment, product and week, with the delay reasons users tagged
+  async adherence(db: Db, range: AnalyticsRange): Promise<AdherenceReport> {
+    const { start, end } = range;
+    const tolerance = adherenceToleranceMinutes();
+    const where = {
+      equipmentId: range.equipmentId,
+      startTimestamp: { gte: start, lt: end },
+      actualStart: { not: null }
+    };
+    const include = { equipment: { select: { id: true, name: true } } };
+
+    const [batches, maintenance] = await Promise.all([
+      db.batchEvent.findMany({ where: { ...where, status: { not: 'cancelled' } }, include, orderBy: { startTimestamp: 'asc' } }),
+      db.maintenanceEvent.findMany({ where, include, orderBy: { startTimestamp: 'asc' } })
+    ]);
+
+    const measure = (
+      event: (typeof batches)[number] | (typeof maintenance)[number],
+      type: AdherenceEvent['type'],
+      label: string,
+      productName: string | null
+    ): AdherenceEvent => {
+      const minutesBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / MINUTE);
+      const actualStart = event.actualStart!;
+      const startDelay = minutesBetween(event.startTimestamp, actualStart);
+      const overrun = event.actualEnd
+        ? minutesBetween(actualStart, event.actualEnd) - minutesBetween(event.startTimestamp, event.endTimestamp)
+        : null;
+      const finishDelta = event.actualEnd ? minutesBetween(event.endTimestamp, event.actualEnd) : null;
+
+      return {
+        type,
+        id: event.id,
+        label,
+        equipment: event.equipment,
+        productName,
+        week: weekOf(event.startTimestamp),
+        startTimestamp: event.startTimestamp,
+        endTimestamp: event.endTimestamp,
+        actualStart,
+        actualEnd: event.actualEnd,
+        startDelayMinutes: startDelay,
+        overrunMinutes: overrun,
+        finishDeltaMinutes: finishDelta,
+        lateStart: startDelay > tolerance,
+        overrun: overrun !== null && overrun > tolerance,
+        earlyFinish: finishDelta !== null && finishDelta < -tolerance,
+        delayReason: event.delayReason,
+        delayNotes: event.delayNotes
+      };
+    };
+
+    const events = [
+      ...batches.map(b => measure(b, 'batch', `${b.batchNo} - ${b.productName}`, b.productName)),
+      ...maintenance.map(m => measure(m, 'maintenance', `Maintenance - ${m.reason}`, null))
+    ].sort((a, b) => a.startTimestamp.getTime() - b.startTimestamp.getTime());
+
+    const reasons = new Map<string, { events: number; delayMinutes: number }>();
+    for (const event of events.filter(e => e.lateStart || e.overrun)) {
+      const reason = event.delayReason || 'untagged';
+      const entry = reasons.get(reason) || { events: 0, delayMinutes: 0 };
+      entry.events++;
+      entry.delayMinutes += (event.lateStart ? event.startDelayMinutes : 0) + (event.overrun ? event.overrunMinutes! : 0);
+      reasons.set(reason, entry);
+    }
+
+    return {
+      start,
+      end,
+      toleranceMinutes: tolerance,
+      totals: summarize('all', 'All events', events),
+      byEquipment: groupBy(events, e => [e.equipment.id.toString(), e.equipment.name]).sort((a, b) => a.label.localeCompare(b.label)),
+      byProduct: groupBy(events, e => e.productName ? [e.productName, e.productName] : null).sort((a, b) => a.label.localeCompare(b.label)),
+      byWeek: groupBy(events, e => [e.week, `Week of ${e.week}`]).sort((a, b) => a.key.localeCompare(b.key)),
+      byReason: Array.from(reasons.entries())
+        .map(([reason, entry]) => ({ reason, ...entry }))
+        .sort((a, b) => b.delayMinutes - a.delayMinutes),
+      events
+    };
+  }
+};
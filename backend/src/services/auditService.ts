@@ -0,0 +1,72 @@
+import { Prisma, PrismaClient, AuditAction } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth';
+
+export type AuditEntityType =
+  | 'batch_event'
+  | 'batch_material'
+  | 'maintenance_event'
+  | 'material'
+  | 'material_lot'
+  | 'inventory_transaction'
+  | 'equipment'
+  | 'changeover_rule'
+  | 'maintenance_plan'
+  | 'maintenance_part'
+  | 'spare_part'
+  | 'spare_part_transaction'
+  | 'safety_data_sheet'
+  | 'recipe_step_sds'
+  | 'user';
+
+export interface AuditEntry {
+  entityType: AuditEntityType;
+  entityId: number;
+  action: AuditAction;
+  before?: unknown;
+  after?: unknown;
+  reason?: string; // Used when there is no request to take the reason from
+}
+
+// Fields that must never be copied into the audit trail
+const REDACTED_FIELDS = ['passwordHash'];
+
+// Reduce a Prisma record to plain JSON (Decimals and Dates become strings)
+const snapshot = (record: unknown) => {
+  if (record === null || record === undefined) return undefined;
+  return JSON.parse(JSON.stringify(record, (key, value) => (REDACTED_FIELDS.includes(key) ? undefined : value)));
+};
+
+// Clients send the reason for a change in a header, so it works for DELETEs and never clashes with body fields.
+// It should be percent-encoded; a header that isn't (e.g. "100% done") is kept as sent rather than failing the write.
+const reasonFrom = (req: AuthRequest | null) => {
+  const header = req?.get('x-audit-reason');
+  if (!header) return null;
+
+  let reason = header;
+  try {
+    reason = decodeURIComponent(header);
+  } catch {
+    // Not valid percent-encoding
+  }
+  return reason.slice(0, 1000);
+};
+
+export const auditService = {
+  // Write an audit entry; pass the transaction client so the entry commits or rolls back with the change.
+  // Background jobs pass a null request and are recorded without a user.
+  async record(db: PrismaClient | Prisma.TransactionClient, req: AuthRequest | null, entry: AuditEntry) {
+    return db.auditLog.create({
+      data: {
+        userId: req?.user?.id,
+        actorEmail: req?.user?.email,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        action: entry.action,
+        before: snapshot(entry.before),
+        after: snapshot(entry.after),
+        reason: reasonFrom(req) ?? entry.reason ?? null,
+        ipAddress: req?.ip || null
+      }
+    });
+  }
+};
@@ -0,0 +1,120 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type BookingType = 'batch' | 'maintenance';
+
+// An existing batch or maintenance event holding a piece of equipment
+export interface Booking {
+  type: BookingType;
+  id: number;
+  label: string;
+  batchNo?: string;
+  productName?: string | null;
+  reason?: string;
+  startTimestamp: Date;
+  endTimestamp: Date;
+}
+
+export interface AvailabilityInput {
+  equipmentId: number;
+  startTimestamp: Date;
+  endTimestamp: Date;
+  type: BookingType;
+  excludeId?: number; // The event being edited, of the same type
+}
+
+export interface Availability {
+  available: boolean;
+  equipment: { id: number; name: string; status: string } | null;
+  statusBlocked: boolean;
+  conflicts: Booking[];
+  message: string | null;
+}
+
+// Equipment in these states can't take new batch work; maintenance can still be booked on it
+const UNAVAILABLE_STATUSES = ['offline', 'maintenance'];
+
+export const availabilityService = {
+  // Whether equipment in this status can take batch work
+  isUnavailable(status: string): boolean {
+    return UNAVAILABLE_STATUSES.includes(status);
+  },
+
+  // Batch and maintenance events overlapping a window on one piece of equipment. Cancelled
+  // batches no longer hold the equipment.
+  async findBookings(db: Db, input: Omit<AvailabilityInput, 'type'> & { type?: BookingType }): Promise<Booking[]> {
+    const { equipmentId, startTimestamp, endTimestamp, type, excludeId } = input;
+    const overlap = { startTimestamp: { lt: endTimestamp }, endTimestamp: { gt: startTimestamp } };
+
+    const [batches, maintenance] = await Promise.all([
+      db.batchEvent.findMany({
+        where: {
+          equipmentId,
+          ...overlap,
+          status: { not: 'cancelled' },
+          id: type === 'batch' && excludeId ? { not: excludeId } : undefined
+        },
+        select: { id: true, batchNo: true, productName: true, startTimestamp: true, endTimestamp: true }
+      }),
+      db.maintenanceEvent.findMany({
+        where: {
+          equipmentId,
+          ...overlap,
+          id: type === 'maintenance' && excludeId ? { not: excludeId } : undefined
+        },
+        select: { id: true, reason: true, startTimestamp: true, endTimestamp: true }
+      })
+    ]);
+
+    return [
+      ...batches.map(b => ({ type: 'batch' as const, label: b.batchNo, ...b })),
+      ...maintenance.map(m => ({ type: 'maintenance' as const, label: `Maintenance: ${m.reason}`, ...m }))
+    ].sort((a, b) => a.startTimestamp.getTime() - b.startTimestamp.getTime());
+  },
+
+  // Whether a new or edited booking can hold the equipment for its window
+  async check(db: Db, input: AvailabilityInput): Promise<Availability> {
+    const equipment = await db.equipment.findUnique({
+      where: { id: input.equipmentId },
+      select: { id: true, name: true, status: true }
+    });
+
+    if (!equipment) {
+      return { available: false, equipment: null, statusBlocked: false, conflicts: [], message: 'Equipment not found' };
+    }
+
+    // Status describes the equipment now, so it only holds back batches that haven't finished yet
+    const statusBlocked = input.type === 'batch'
+      && availabilityService.isUnavailable(equipment.status)
+      && input.endTimestamp > new Date();
+
+    const conflicts = await availabilityService.findBookings(db, input);
+
+    const messages: string[] = [];
+    if (statusBlocked) {
+      messages.push(`Equipment "${equipment.name}" is ${equipment.status}`);
+    }
+    if (conflicts.length > 0) {
+      messages.push(`Equipment "${equipment.name}" is already booked during this time period (${conflicts.map(c => c.label).join(', ')})`);
+    }
+
+    return {
+      available: messages.length === 0,
+      equipment,
+      statusBlocked,
+      conflicts,
+      message: messages.length > 0 ? messages.join('; ') : null
+    };
+  },
+
+  // Body for a 400 response when a booking isn't available
+  conflictResponse(availability: Availability) {
+    return {
+      error: 'Equipment conflict detected',
+      message: availability.message,
+      equipmentStatus: availability.equipment?.status ?? null,
+      conflicts: availability.conflicts
+    };
+  }
+};
@@ -0,0 +1,288 @@
+import PDFDocument from 'pdfkit';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { telemetryService, MetricStats } from './telemetryService';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// How far either side of the batch window maintenance on its equipment is reported
+const MAINTENANCE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export interface GenealogyLot {
+  id: number;
+  lotNumber: string;
+  supplier: string | null;
+  expiryDate: Date | null;
+  status: string;
+  quantity: number;
+}
+
+export interface MaterialGenealogy {
+  id: number;
+  name: string;
+  unit: string;
+  materialId: string | null;
+  lots: GenealogyLot[];
+  unlottedQuantity: number;
+}
+
+// Net quantity drawn per material and lot; stock drawn without lot tracking is reported as unlotted
+const genealogy = async (db: Db, batchEventId: number): Promise<MaterialGenealogy[]> => {
+  const transactions = await db.inventoryTransaction.findMany({
+    where: { batchEventId, transactionType: { in: ['consumed', 'received'] } },
+    include: {
+      material: { select: { id: true, name: true, unit: true, materialId: true } },
+      lot: { select: { id: true, lotNumber: true, supplier: true, expiryDate: true, status: true } }
+    },
+    orderBy: { timestamp: 'asc' }
+  });
+
+  const materials = new Map<number, { material: (typeof transactions)[number]['material']; lots: Map<number, GenealogyLot>; unlotted: number }>();
+  for (const t of transactions) {
+    const entry = materials.get(t.materialId) || { material: t.material, lots: new Map(), unlotted: 0 };
+    const quantity = t.transactionType === 'consumed' ? Number(t.quantity) : -Number(t.quantity);
+
+    if (t.lot) {
+      const lot = entry.lots.get(t.lot.id) || { ...t.lot, quantity: 0 };
+      lot.quantity += quantity;
+      entry.lots.set(t.lot.id, lot);
+    } else {
+      entry.unlotted += quantity;
+    }
+    materials.set(t.materialId, entry);
+  }
+
+  return Array.from(materials.values()).map(({ material, lots, unlotted }) => ({
+    ...material,
+    lots: Array.from(lots.values())
+      .filter(lot => lot.quantity > 0)
+      .map(lot => ({ ...lot, quantity: round(lot.quantity) })),
+    unlottedQuantity: Math.max(0, round(unlotted))
+  }));
+};
+
+// Everything recorded about a batch, for the electronic batch record
+const assemble = async (db: Db, batchEventId: number) => {
+  const batch = await db.batchEvent.findUnique({
+    where: { id: batchEventId },
+    include: {
+      equipment: true,
+      recipe: {
+        include: {
+          steps: {
+            include: { equipment: { select: { id: true, name: true } } },
+            orderBy: { stepNumber: 'asc' }
+          },
+          materials: {
+            include: { material: { select: { id: true, name: true, unit: true } } },
+            orderBy: { stepNumber: 'asc' }
+          },
+          approvedBy: { select: { id: true, email: true } }
+        }
+      },
+      materials: {
+        include: { material: { select: { id: true, name: true, unit: true, materialId: true } } }
+      }
+    }
+  });
+
+  if (!batch) {
+    return null;
+  }
+
+  const windowStart = batch.actualStart ?? batch.startTimestamp;
+  const windowEnd = batch.actualEnd ?? batch.endTimestamp;
+
+  const [transactions, lots, maintenance, telemetry] = await Promise.all([
+    db.inventoryTransaction.findMany({
+      where: { batchEventId },
+      include: {
+        material: { select: { id: true, name: true, unit: true } },
+        lot: { select: { id: true, lotNumber: true } }
+      },
+      orderBy: { timestamp: 'asc' }
+    }),
+    genealogy(db, batchEventId),
+    db.maintenanceEvent.findMany({
+      where: {
+        equipmentId: batch.equipmentId,
+        startTimestamp: { lt: new Date(windowEnd.getTime() + MAINTENANCE_WINDOW_MS) },
+        endTimestamp: { gt: new Date(windowStart.getTime() - MAINTENANCE_WINDOW_MS) }
+      },
+      orderBy: { startTimestamp: 'asc' }
+    }),
+    telemetryService.summarize(db, batchEventId)
+  ]);
+
+  // Who did what: changes to the batch, its material lines and its stock movements
+  const activity = await db.auditLog.findMany({
+    where: {
+      OR: [
+        { entityType: 'batch_event', entityId: batchEventId },
+        { entityType: 'batch_material', entityId: { in: batch.materials.map(line => line.id) } },
+        { entityType: 'inventory_transaction', entityId: { in: transactions.map(t => t.id) } }
+      ]
+    },
+    select: { id: true, actorEmail: true, entityType: true, entityId: true, action: true, reason: true, before: true, after: true, createdAt: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const { recipe, materials, ...batchEvent } = batch;
+
+  return {
+    generatedAt: new Date(),
+    batchEvent,
+    recipe,
+    materials: materials.map(line => ({
+      ...line,
+      plannedQuantity: Number(line.plannedQuantity),
+      actualQuantity: line.actualQuantity === null ? null : Number(line.actualQuantity),
+      variance: line.variance === null ? null : Number(line.variance)
+    })),
+    genealogy: lots,
+    transactions,
+    maintenance: maintenance.map(event => ({
+      ...event,
+      duringBatch: event.startTimestamp < windowEnd && event.endTimestamp > windowStart
+    })),
+    telemetry,
+    deviations: {
+      notes: batch.recipeNotes,
+      materialVariances: materials
+        .filter(line => line.variance !== null && Number(line.variance) !== 0)
+        .map(line => ({
+          materialId: line.materialId,
+          materialName: line.material.name,
+          unit: line.material.unit,
+          planned: Number(line.plannedQuantity),
+          actual: Number(line.actualQuantity),
+          variance: Number(line.variance)
+        }))
+    },
+    activity
+  };
+};
+
+export type BatchRecord = NonNullable<Awaited<ReturnType<typeof assemble>>>;
+
+export const batchRecordService = {
+  genealogy,
+  assemble,
+
+  // Printable batch record; the document is streamed into `out` and ended
+  renderPdf(record: BatchRecord, out: NodeJS.WritableStream) {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    doc.pipe(out);
+
+    const date = (value: Date | string | null | undefined) =>
+      value ? new Date(value).toISOString().replace('T', ' ').slice(0, 16) : '—';
+
+    const heading = (text: string) => {
+      doc.moveDown(0.8).font('Helvetica-Bold').fontSize(12).text(text.toUpperCase());
+      doc.moveDown(0.2).font('Helvetica').fontSize(9);
+    };
+
+    const field = (label: string, value: unknown) => {
+      doc.font('Helvetica-Bold').text(`${label}: `, { continued: true }).font('Helvetica').text(value === null || value === undefined || value === '' ? '—' : String(value));
+    };
+
+    const { batchEvent, recipe } = record;
+
+    doc.font('Helvetica-Bold').fontSize(16).text('Electronic Batch Record');
+    doc.font('Helvetica').fontSize(9).fillColor('#555555').text(`Generated ${date(record.generatedAt)} UTC`).fillColor('black');
+
+    heading('Batch');
+    field('Batch No', batchEvent.batchNo);
+    field('Product', batchEvent.productName);
+    field('Status', batchEvent.status);
+    field('Batch Size', batchEvent.batchSize);
+    field('Scheduled', `${date(batchEvent.startTimestamp)} – ${date(batchEvent.endTimestamp)}`);
+    field('Actual', `${date(batchEvent.actualStart)} – ${date(batchEvent.actualEnd)}`);
+
+    heading('Equipment');
+    field('Name', batchEvent.equipment.name);
+    field('Equipment ID', batchEvent.equipment.equipmentId);
+    field('Location', batchEvent.equipment.location);
+    field('Material of Construction', batchEvent.equipment.materialOfConstruction);
+
+    heading('Recipe');
+    if (recipe) {
+      field('Recipe', `${recipe.name} (${recipe.recipeId ?? recipe.id}) v${batchEvent.recipeVersion ?? recipe.version}`);
+      field('Status', recipe.status);
+      field('Approved', recipe.approvedBy ? `${recipe.approvedBy.email} at ${date(recipe.approvedAt)}` : null);
+      doc.moveDown(0.3);
+      for (const step of recipe.steps) {
+        doc.font('Helvetica-Bold').text(`${step.stepNumber}. ${step.name}`);
+        const params = [
+          step.equipment?.name,
+          step.duration ? `${step.duration} min` : null,
+          step.temperature !== null ? `${step.temperature} ${step.temperatureUnit ?? ''}`.trim() : null,
+          step.pressure !== null ? `${step.pressure} ${step.pressureUnit ?? ''}`.trim() : null
+        ].filter(Boolean);
+        doc.font('Helvetica');
+        if (params.length > 0) doc.text(params.join(' · '), { indent: 12 });
+        if (step.instructions) doc.text(step.instructions, { indent: 12 });
+      }
+    } else {
+      doc.text('Not created from a recipe.');
+    }
+
+    heading('Materials');
+    for (const line of record.materials) {
+      const actual = line.actualQuantity === null ? '—' : line.actualQuantity;
+      const variance = line.variance ? ` (variance ${line.variance > 0 ? '+' : ''}${line.variance})` : '';
+      doc.text(`${line.material.name}: planned ${line.plannedQuantity}, actual ${actual} ${line.material.unit}${variance}`);
+    }
+    if (record.materials.length === 0) doc.text('No materials planned.');
+
+    heading('Lots Consumed');
+    for (const material of record.genealogy) {
+      doc.font('Helvetica-Bold').text(material.name).font('Helvetica');
+      for (const lot of material.lots) {
+        doc.text(`Lot ${lot.lotNumber}${lot.supplier ? ` (${lot.supplier})` : ''}: ${lot.quantity} ${material.unit}, expires ${date(lot.expiryDate).slice(0, 10)}`, { indent: 12 });
+      }
+      if (material.unlottedQuantity > 0) {
+        doc.text(`Unlotted stock: ${material.unlottedQuantity} ${material.unit}`, { indent: 12 });
+      }
+    }
+    if (record.genealogy.length === 0) doc.text('No stock drawn.');
+
+    heading('Inventory Transactions');
+    for (const t of record.transactions) {
+      doc.text(`${date(t.timestamp)}  ${t.transactionType.toUpperCase()}  ${t.material.name} ${Number(t.quantity)} ${t.material.unit}${t.lot ? `  lot ${t.lot.lotNumber}` : ''}`);
+    }
+    if (record.transactions.length === 0) doc.text('None.');
+
+    heading('Equipment Maintenance');
+    for (const event of record.maintenance) {
+      doc.text(`${date(event.startTimestamp)} – ${date(event.endTimestamp)}  ${event.reason}${event.duringBatch ? '  (during batch)' : ''}${event.changesMade ? `: ${event.changesMade}` : ''}`);
+    }
+    if (record.maintenance.length === 0) doc.text('No maintenance within 7 days of the batch.');
+
+    heading('Telemetry');
+    const metrics = Object.entries(record.telemetry.metrics) as [string, MetricStats][];
+    if (metrics.length > 0) {
+      doc.text(`${record.telemetry.sampleCount} samples, ${date(record.telemetry.from)} – ${date(record.telemetry.to)}`);
+      for (const [metric, stats] of metrics) {
+        doc.text(`${metric}: min ${round(stats.min)}, max ${round(stats.max)}, avg ${round(stats.avg)}`, { indent: 12 });
+      }
+    } else {
+      doc.text('No telemetry recorded.');
+    }
+
+    heading('Deviations');
+    field('Notes', record.deviations.notes);
+    for (const v of record.deviations.materialVariances) {
+      doc.text(`${v.materialName}: ${v.variance > 0 ? '+' : ''}${v.variance} ${v.unit} against plan`, { indent: 12 });
+    }
+
+    heading('Activity');
+    for (const entry of record.activity) {
+      doc.text(`${date(entry.createdAt)}  ${entry.actorEmail ?? 'system'}  ${entry.action} ${entry.entityType.replace(/_/g, ' ')} #${entry.entityId}${entry.reason ? ` — ${entry.reason}` : ''}`);
+    }
+    if (record.activity.length === 0) doc.text('No recorded activity.');
+
+    doc.end();
+  }
+};
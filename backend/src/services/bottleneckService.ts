@@ -0,0 +1,195 @@
+import { BatchEvent, Prisma, PrismaClient } from '@prisma/client';
+import { analyticsService, AnalyticsRange } from './analyticsService';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// A batch event held up by, or running late on, a bottleneck
+export interface AffectedEvent {
+  id: number;
+  batchNo: string;
+  productName: string;
+  stepNumber: number | null;
+  startTimestamp: Date;
+  endTimestamp: Date;
+  queueMinutes: number; // Wait since the batch's previous step finished
+  lateMinutes: number; // Finish past the planned end
+}
+
+export interface Bottleneck {
+  rank: number;
+  equipment: { id: number; name: string; status: string };
+  score: number; // 0-1; weighs utilization, relative queue time and the share of late finishes
+  utilization: number | null;
+  queue: { count: number; totalMinutes: number; averageMinutes: number };
+  lateFinishes: { count: number; of: number; totalMinutes: number };
+  evidence: string[];
+  events: AffectedEvent[];
+}
+
+// Equipment this busy is flagged even without queues or late finishes
+const HIGH_UTILIZATION = 0.85;
+
+const WEIGHTS = { utilization: 0.4, queue: 0.3, late: 0.3 };
+
+// Most affected events returned per bottleneck
+const MAX_EVENTS = 20;
+
+const MINUTE = 60 * 1000;
+
+// How far before the range a batch's earlier steps are looked for
+const STEP_LOOKBACK_MS = 7 * 24 * 60 * MINUTE;
+
+const stepNumber = (batch: BatchEvent): number | null => {
+  const value = (batch.inputs as { stepNumber?: unknown } | null)?.stepNumber;
+  return typeof value === 'number' ? value : null;
+};
+
+// Batch numbers are reused across imports, plan drafts and manual entry, so a batch's steps are the
+// events sharing its number and recipe
+const chainKey = (batch: BatchEvent) => `${batch.recipeId ?? ''}:${batch.batchNo}`;
+
+const formatMinutes = (minutes: number) =>
+  minutes < 120 ? `${Math.round(minutes)} min` : `${(minutes / 60).toFixed(1)} h`;
+
+export const bottleneckService = {
+  // Equipment constraining throughput over a date range, most constraining first. Queue time before a
+  // recipe step counts against the equipment the batch was waiting for.
+  async analyze(db: Db, range: AnalyticsRange, now: Date = new Date()): Promise<Bottleneck[]> {
+    const analytics = await analyticsService.equipment(db, range, now);
+    const { start, end } = analytics;
+    const tolerance = analytics.toleranceMinutes * MINUTE;
+
+    const batches = await db.batchEvent.findMany({
+      where: {
+        equipmentId: range.equipmentId,
+        status: { not: 'cancelled' },
+        OR: [
+          { startTimestamp: { lt: end }, endTimestamp: { gt: start } },
+          { actualStart: { lt: end }, OR: [{ actualEnd: null }, { actualEnd: { gt: start } }] }
+        ]
+      }
+    });
+
+    // Earlier steps of the same batches may sit on other equipment or shortly before the range
+    const multiStep = batches.filter(b => stepNumber(b) !== null);
+    const steps = multiStep.length > 0
+      ? await db.batchEvent.findMany({
+        where: {
+          batchNo: { in: Array.from(new Set(multiStep.map(b => b.batchNo))) },
+          status: { not: 'cancelled' },
+          startTimestamp: { lt: end },
+          endTimestamp: { gt: new Date(start.getTime() - STEP_LOOKBACK_MS) }
+        }
+      })
+      : [];
+
+    const affected = new Map<number, AffectedEvent>();
+    const affect = (batch: BatchEvent) => {
+      if (!affected.has(batch.id)) {
+        affected.set(batch.id, {
+          id: batch.id,
+          batchNo: batch.batchNo,
+          productName: batch.productName,
+          stepNumber: stepNumber(batch),
+          startTimestamp: batch.startTimestamp,
+          endTimestamp: batch.endTimestamp,
+          queueMinutes: 0,
+          lateMinutes: 0
+        });
+      }
+      return affected.get(batch.id)!;
+    };
+
+    const inRange = new Set(batches.map(b => b.id));
+    const chains = new Map<string, BatchEvent[]>();
+    for (const step of steps.filter(s => stepNumber(s) !== null)) {
+      chains.set(chainKey(step), [...(chains.get(chainKey(step)) || []), step]);
+    }
+
+    chains.forEach(batchSteps => {
+      for (const next of batchSteps) {
+        if (!inRange.has(next.id)) continue;
+        // The nearest lower step that started no later than this one, the latest if the batch number was reused
+        const previous = batchSteps
+          .filter(s => stepNumber(s)! < stepNumber(next)! && s.startTimestamp <= next.startTimestamp)
+          .sort((a, b) => stepNumber(b)! - stepNumber(a)! || b.startTimestamp.getTime() - a.startTimestamp.getTime())[0];
+        if (!previous) continue;
+        // Still running the previous step, so not waiting yet
+        if (previous.actualStart && !previous.actualEnd && previous.status !== 'completed') continue;
+
+        // A step that hasn't started keeps queueing until it does
+        const readyAt = (previous.actualEnd ?? previous.endTimestamp).getTime();
+        const startedAt = next.actualStart?.getTime() ?? Math.max(next.startTimestamp.getTime(), Math.min(now.getTime(), end.getTime()));
+        const wait = startedAt - readyAt;
+        if (wait > tolerance) {
+          affect(next).queueMinutes = Math.round(wait / MINUTE);
+        }
+      }
+    });
+
+    const finishesDue = new Map<number, number>();
+    for (const batch of batches) {
+      if (batch.endTimestamp < start || batch.endTimestamp >= end) continue;
+      const finish = batch.actualEnd ?? (batch.status === 'completed' ? null : now);
+      if (!finish || (!batch.actualEnd && now.getTime() <= batch.endTimestamp.getTime() + tolerance)) continue;
+
+      finishesDue.set(batch.equipmentId, (finishesDue.get(batch.equipmentId) || 0) + 1);
+      const late = finish.getTime() - batch.endTimestamp.getTime();
+      if (late > tolerance) {
+        affect(batch).lateMinutes = Math.round(late / MINUTE);
+      }
+    }
+
+    const eventsOn = (equipmentId: number) => {
+      const ids = new Set(batches.filter(b => b.equipmentId === equipmentId).map(b => b.id));
+      return Array.from(affected.values()).filter(event => ids.has(event.id));
+    };
+
+    const candidates = analytics.equipment.map(metrics => {
+      const events = eventsOn(metrics.equipment.id);
+      const queued = events.filter(e => e.queueMinutes > 0);
+      const late = events.filter(e => e.lateMinutes > 0);
+      const queueTotal = queued.reduce((sum, e) => sum + e.queueMinutes, 0);
+      const lateTotal = late.reduce((sum, e) => sum + e.lateMinutes, 0);
+
+      return {
+        equipment: metrics.equipment,
+        utilization: metrics.utilization,
+        queue: {
+          count: queued.length,
+          totalMinutes: queueTotal,
+          averageMinutes: queued.length > 0 ? Math.round(queueTotal / queued.length) : 0
+        },
+        lateFinishes: { count: late.length, of: finishesDue.get(metrics.equipment.id) || 0, totalMinutes: lateTotal },
+        events: events
+          .sort((a, b) => (b.queueMinutes + b.lateMinutes) - (a.queueMinutes + a.lateMinutes))
+          .slice(0, MAX_EVENTS)
+      };
+    });
+
+    const longestQueue = Math.max(0, ...candidates.map(c => c.queue.averageMinutes));
+
+    return candidates
+      .filter(c => c.queue.count > 0 || c.lateFinishes.count > 0 || (c.utilization ?? 0) >= HIGH_UTILIZATION)
+      .map(c => {
+        const score = WEIGHTS.utilization * (c.utilization ?? 0)
+          + WEIGHTS.queue * (longestQueue > 0 ? c.queue.averageMinutes / longestQueue : 0)
+          + WEIGHTS.late * (c.lateFinishes.of > 0 ? c.lateFinishes.count / c.lateFinishes.of : 0);
+
+        const evidence: string[] = [];
+        if (c.utilization !== null) {
+          evidence.push(`Utilization ${(c.utilization * 100).toFixed(1)}%`);
+        }
+        if (c.queue.count > 0) {
+          evidence.push(`${c.queue.count} batch${c.queue.count === 1 ? '' : 'es'} waited ${formatMinutes(c.queue.averageMinutes)} on average for this equipment after the previous step`);
+        }
+        if (c.lateFinishes.count > 0) {
+          evidence.push(`${c.lateFinishes.count} of ${c.lateFinishes.of} batches finished late, ${formatMinutes(c.lateFinishes.totalMinutes)} in total`);
+        }
+
+        return { ...c, score: Math.round(score * 1000) / 1000, evidence };
+      })
+      .sort((a, b) => b.score - a.score)
+      .map((c, index) => ({ rank: index + 1, ...c }));
+  }
+};
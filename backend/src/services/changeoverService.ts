@@ -0,0 +1,259 @@
+import { Prisma, PrismaClient, ChangeoverRule } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth';
+import { auditService } from './auditService';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const MINUTE_MS = 60 * 1000;
+
+// One side of a changeover: the batch coming off or going onto the equipment
+export interface ChangeoverBatch {
+  id: number | null; // null for a batch that isn't saved yet
+  batchNo: string;
+  productName: string;
+  startTimestamp: Date;
+  endTimestamp: Date;
+}
+
+export interface ChangeoverViolation {
+  equipmentId: number;
+  from: ChangeoverBatch;
+  to: ChangeoverBatch;
+  requiredMinutes: number;
+  gapMinutes: number;
+  cleaning: { startTimestamp: Date; endTimestamp: Date } | null; // Where a cleaning event fits, or null if the gap is too short
+}
+
+export interface ChangeoverCheckInput {
+  equipmentId: number;
+  batchNo: string;
+  productName: string;
+  startTimestamp: Date;
+  endTimestamp: Date;
+  excludeId?: number; // The batch being edited
+  // Bookings on the same equipment that aren't saved yet, e.g. earlier rows of an import preview
+  pending?: { batches: ChangeoverBatch[]; maintenance: MaintenanceWindow[] };
+}
+
+export interface MaintenanceWindow {
+  reason: string;
+  startTimestamp: Date;
+  endTimestamp: Date;
+}
+
+// Thrown when batches of different products would run back to back without cleaning
+export class ChangeoverRequiredError extends Error {
+  constructor(public violations: ChangeoverViolation[]) {
+    super(changeoverService.blockingMessage(violations) || 'Cleaning changeover required');
+  }
+}
+
+const normalize = (product: string) => product.trim().toLowerCase();
+
+// Cleaning time for product pairs without a rule
+const defaultChangeoverMinutes = () => {
+  const value = parseInt(process.env.DEFAULT_CHANGEOVER_MINUTES || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+};
+
+const batchSelect = { id: true, batchNo: true, productName: true, startTimestamp: true, endTimestamp: true };
+
+export const changeoverService = {
+  loadRules(db: Db, equipmentIds: number[]): Promise<ChangeoverRule[]> {
+    return db.changeoverRule.findMany({ where: { equipmentId: { in: equipmentIds } } });
+  },
+
+  // Cleaning minutes needed on equipment between a batch of one product and a batch of another.
+  // The same product needs none; pairs without a rule fall back to DEFAULT_CHANGEOVER_MINUTES.
+  requiredMinutes(rules: ChangeoverRule[], equipmentId: number, fromProduct: string | null, toProduct: string | null): number {
+    if (!fromProduct || !toProduct || normalize(fromProduct) === normalize(toProduct)) {
+      return 0;
+    }
+    const rule = rules.find(r =>
+      r.equipmentId === equipmentId &&
+      normalize(r.fromProduct) === normalize(fromProduct) &&
+      normalize(r.toProduct) === normalize(toProduct));
+    return rule ? rule.cleaningMinutes : defaultChangeoverMinutes();
+  },
+
+  // Whether the gap between two consecutive batches holds enough cleaning. A `cleaning` maintenance
+  // event of at least the required length inside the gap satisfies it; otherwise the first free
+  // window of that length is offered for one.
+  checkGap(equipmentId: number, from: ChangeoverBatch, to: ChangeoverBatch, requiredMinutes: number, maintenance: MaintenanceWindow[]): ChangeoverViolation | null {
+    if (requiredMinutes <= 0) {
+      return null;
+    }
+
+    const gapStart = from.endTimestamp.getTime();
+    const gapEnd = to.startTimestamp.getTime();
+    const required = requiredMinutes * MINUTE_MS;
+
+    const inGap = maintenance
+      .filter(m => m.startTimestamp.getTime() < gapEnd && m.endTimestamp.getTime() > gapStart)
+      .sort((a, b) => a.startTimestamp.getTime() - b.startTimestamp.getTime());
+
+    const cleaned = inGap.some(m =>
+      m.reason === 'cleaning' &&
+      m.startTimestamp.getTime() >= gapStart &&
+      m.endTimestamp.getTime() <= gapEnd &&
+      m.endTimestamp.getTime() - m.startTimestamp.getTime() >= required);
+    if (cleaned) {
+      return null;
+    }
+
+    let cursor = gapStart;
+    for (const m of inGap) {
+      if (m.startTimestamp.getTime() - cursor >= required) break;
+      cursor = Math.max(cursor, m.endTimestamp.getTime());
+    }
+
+    return {
+      equipmentId,
+      from,
+      to,
+      requiredMinutes,
+      gapMinutes: Math.max(0, Math.round((gapEnd - gapStart) / MINUTE_MS)),
+      cleaning: gapEnd - cursor >= required
+        ? { startTimestamp: new Date(cursor), endTimestamp: new Date(cursor + required) }
+        : null
+    };
+  },
+
+  // Missing cleaning either side of a new or edited batch, against the batches before and after it
+  async check(db: Db, input: ChangeoverCheckInput): Promise<ChangeoverViolation[]> {
+    const base = {
+      equipmentId: input.equipmentId,
+      status: { not: 'cancelled' as const },
+      id: input.excludeId ? { not: input.excludeId } : undefined
+    };
+
+    const [rules, savedPrevious, savedNext] = await Promise.all([
+      changeoverService.loadRules(db, [input.equipmentId]),
+      db.batchEvent.findFirst({
+        where: { ...base, endTimestamp: { lte: input.startTimestamp } },
+        orderBy: { endTimestamp: 'desc' },
+        select: batchSelect
+      }),
+      db.batchEvent.findFirst({
+        where: { ...base, startTimestamp: { gte: input.endTimestamp } },
+        orderBy: { startTimestamp: 'asc' },
+        select: batchSelect
+      })
+    ]);
+
+    // The nearest neighbour either side, saved or pending
+    const pendingBatches = input.pending?.batches || [];
+    const previous = [savedPrevious, ...pendingBatches.filter(b => b.endTimestamp <= input.startTimestamp)]
+      .reduce<ChangeoverBatch | null>((latest, b) => (b && (!latest || b.endTimestamp > latest.endTimestamp) ? b : latest), null);
+    const next = [savedNext, ...pendingBatches.filter(b => b.startTimestamp >= input.endTimestamp)]
+      .reduce<ChangeoverBatch | null>((earliest, b) => (b && (!earliest || b.startTimestamp < earliest.startTimestamp) ? b : earliest), null);
+
+    if (!previous && !next) {
+      return [];
+    }
+
+    const maintenance = [
+      ...await db.maintenanceEvent.findMany({
+        where: {
+          equipmentId: input.equipmentId,
+          startTimestamp: { lt: next?.startTimestamp ?? input.endTimestamp },
+          endTimestamp: { gt: previous?.endTimestamp ?? input.startTimestamp }
+        },
+        select: { reason: true, startTimestamp: true, endTimestamp: true }
+      }),
+      ...(input.pending?.maintenance || [])
+    ];
+
+    const batch: ChangeoverBatch = {
+      id: input.excludeId ?? null,
+      batchNo: input.batchNo,
+      productName: input.productName,
+      startTimestamp: input.startTimestamp,
+      endTimestamp: input.endTimestamp
+    };
+
+    const violations: ChangeoverViolation[] = [];
+    if (previous) {
+      const required = changeoverService.requiredMinutes(rules, input.equipmentId, previous.productName, batch.productName);
+      const violation = changeoverService.checkGap(input.equipmentId, previous, batch, required, maintenance);
+      if (violation) violations.push(violation);
+    }
+    if (next) {
+      const required = changeoverService.requiredMinutes(rules, input.equipmentId, batch.productName, next.productName);
+      const violation = changeoverService.checkGap(input.equipmentId, batch, next, required, maintenance);
+      if (violation) violations.push(violation);
+    }
+    return violations;
+  },
+
+  // Consecutive batches on each piece of equipment that are missing cleaning, for the timeline
+  async violations(db: Db, range: { start?: Date; end?: Date; equipmentId?: number }): Promise<ChangeoverViolation[]> {
+    const overlap = {
+      ...(range.end && { startTimestamp: { lt: range.end } }),
+      ...(range.start && { endTimestamp: { gt: range.start } })
+    };
+
+    const [batches, maintenance] = await Promise.all([
+      db.batchEvent.findMany({
+        where: { ...overlap, equipmentId: range.equipmentId, status: { not: 'cancelled' } },
+        select: { ...batchSelect, equipmentId: true },
+        orderBy: { startTimestamp: 'asc' }
+      }),
+      db.maintenanceEvent.findMany({
+        where: { ...overlap, equipmentId: range.equipmentId },
+        select: { equipmentId: true, reason: true, startTimestamp: true, endTimestamp: true }
+      })
+    ]);
+
+    const equipmentIds = Array.from(new Set(batches.map(b => b.equipmentId)));
+    const rules = await changeoverService.loadRules(db, equipmentIds);
+
+    const violations: ChangeoverViolation[] = [];
+    for (const equipmentId of equipmentIds) {
+      const sequence = batches.filter(b => b.equipmentId === equipmentId);
+      const windows = maintenance.filter(m => m.equipmentId === equipmentId);
+
+      for (let i = 1; i < sequence.length; i++) {
+        const from = sequence[i - 1];
+        const to = sequence[i];
+        if (to.startTimestamp < from.endTimestamp) continue; // Overlaps are reported by availability checks
+        const required = changeoverService.requiredMinutes(rules, equipmentId, from.productName, to.productName);
+        const violation = changeoverService.checkGap(equipmentId, from, to, required, windows);
+        if (violation) violations.push(violation);
+      }
+    }
+    return violations;
+  },
+
+  // Book a cleaning event into each gap that has room for one
+  async insertCleaning(tx: Prisma.TransactionClient, req: AuthRequest, violations: ChangeoverViolation[]) {
+    const created = [];
+    for (const violation of violations) {
+      if (!violation.cleaning) continue;
+      const event = await tx.maintenanceEvent.create({
+        data: {
+          equipmentId: violation.equipmentId,
+          reason: 'cleaning',
+          expectedDuration: `${violation.requiredMinutes} min`,
+          changesMade: `Changeover from ${violation.from.productName} (${violation.from.batchNo}) to ${violation.to.productName} (${violation.to.batchNo})`,
+          startTimestamp: violation.cleaning.startTimestamp,
+          endTimestamp: violation.cleaning.endTimestamp
+        }
+      });
+      await auditService.record(tx, req, { entityType: 'maintenance_event', entityId: event.id, action: 'create', after: event });
+      created.push(event);
+    }
+    return created;
+  },
+
+  // Missing cleaning that blocks a booking: always, unless cleaning is being inserted and fits
+  blockingMessage(violations: ChangeoverViolation[], autoCleaning = false): string | null {
+    const blocking = violations.filter(v => !autoCleaning || !v.cleaning);
+    if (blocking.length === 0) {
+      return null;
+    }
+    return blocking.map(v =>
+      `${v.requiredMinutes} min cleaning needed between ${v.from.batchNo} (${v.from.productName}) and ${v.to.batchNo} (${v.to.productName}); the gap is ${v.gapMinutes} min`
+    ).join('; ');
+  }
+};
@@ -177,6 +177,75 @@ class EmailService {
     }
   }
 
+  async sendBatchCompleted(batchEventId: number, userEmails: string[]) {
+    try {
+      const batchEvent = await prisma.batchEvent.findUnique({
+        where: { id: batchEventId },
+        include: {
+          equipment: { select: { name: true } }
+        }
+      });
+
+      if (!batchEvent) {
+        console.error('Batch event not found:', batchEventId);
+        return false;
+      }
+
+      const subject = `Batch Complete: ${batchEvent.batchNo}`;
+      const text = `
+        Batch Completed
+        
+        Batch No: ${batchEvent.batchNo}
+        Product: ${batchEvent.productName}
+        Equipment: ${batchEvent.equipment.name}
+        Actual Start: ${batchEvent.actualStart?.toLocaleString() || 'Not recorded'}
+        Actual End: ${batchEvent.actualEnd?.toLocaleString() || 'Not recorded'}
+        
+        ${batchEvent.equipment.name} is now available.
+        
+        Best regards,
+        Batch Processing Assistant
+      `;
+
+      return await this.sendEmail({
+        to: userEmails,
+        subject,
+        text
+      });
+    } catch (error) {
+      console.error('Error sending batch completion:', error);
+      return false;
+    }
+  }
+
+  // Email admins and planners that a batch finished and record the notifications
+  async notifyBatchComplete(batchEventId: number) {
+    try {
+      const users = await prisma.user.findMany({
+        where: {
+          role: { in: ['admin', 'planner'] }
+        },
+        select: { id: true, email: true }
+      });
+
+      const success = await this.sendBatchCompleted(batchEventId, users.map(u => u.email));
+
+      if (success) {
+        await prisma.notification.createMany({
+          data: users.map(user => ({
+            userId: user.id,
+            batchEventId,
+            type: 'batch_complete' as const,
+            sentTimestamp: new Date(),
+            message: `Batch event ${batchEventId} completed`
+          }))
+        });
+      }
+    } catch (error) {
+      console.error('Error sending batch completion notifications:', error);
+    }
+  }
+
   private startReminderScheduler() {
     // Run every 5 minutes to check for upcoming events
     cron.schedule('*/5 * * * *', async () => {
@@ -0,0 +1,132 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { unitsService, UnitConversionError } from './unitsService';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface SchedulingIssue {
+  type: 'over_capacity' | 'under_fill' | 'capacity_unknown' | 'material_incompatible';
+  severity: 'error' | 'warning';
+  message: string;
+  materialId?: number;
+}
+
+export interface BatchCheckInput {
+  equipmentId: number;
+  batchSize?: number | null;
+  batchSizeUnit?: string | null;
+  materialIds?: number[];
+}
+
+// Materials of construction and the GHS hazard classes they shouldn't hold
+const INCOMPATIBLE_HAZARDS: { pattern: RegExp; label: string; hazards: string[] }[] = [
+  {
+    pattern: /carbon steel|mild steel|\bcs\b/i,
+    label: 'carbon steel',
+    hazards: ['Corrosive to metals', 'Skin corrosion / irritation']
+  },
+  {
+    pattern: /alumin/i,
+    label: 'aluminium',
+    hazards: ['Corrosive to metals', 'Substances which, in contact with water, emit flammable gases']
+  },
+  {
+    pattern: /plastic|polyethylene|polypropylene|hdpe|\bpp\b|\bpe\b|pvc/i,
+    label: 'plastic',
+    hazards: ['Oxidizing liquids', 'Oxidizing solids', 'Organic peroxides']
+  }
+];
+
+// Lowest fill, as a percentage of working capacity, for equipment without its own minimum
+const defaultMinimumFillPercent = () => {
+  const value = parseFloat(process.env.DEFAULT_MINIMUM_FILL_PERCENT || '');
+  return Number.isFinite(value) ? value : 0;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const equipmentCheckService = {
+  // Capacity and material-of-construction problems with running a batch on a piece of equipment.
+  // Errors block scheduling; warnings are shown but allowed.
+  async check(db: Db, input: BatchCheckInput): Promise<SchedulingIssue[]> {
+    const equipment = await db.equipment.findUnique({ where: { id: input.equipmentId } });
+    if (!equipment) {
+      return [];
+    }
+
+    const issues: SchedulingIssue[] = [];
+
+    if (input.batchSize && equipment.capacity !== null) {
+      const capacity = Number(equipment.capacity);
+      const capacityUnit = equipment.capacityUnit || equipment.sizeUnit;
+      const batchSizeUnit = input.batchSizeUnit || capacityUnit;
+
+      if (!capacityUnit || !batchSizeUnit) {
+        issues.push({
+          type: 'capacity_unknown',
+          severity: 'warning',
+          message: `${equipment.name} has no capacity unit, so the batch size can't be checked`
+        });
+      } else {
+        try {
+          const size = unitsService.convert(input.batchSize, batchSizeUnit, capacityUnit);
+          const minimumPercent = equipment.minimumFillPercent !== null
+            ? Number(equipment.minimumFillPercent)
+            : defaultMinimumFillPercent();
+          const minimum = capacity * minimumPercent / 100;
+
+          if (size > capacity) {
+            issues.push({
+              type: 'over_capacity',
+              severity: 'error',
+              message: `Batch size ${round(size)} ${capacityUnit} exceeds the working capacity of ${equipment.name} (${capacity} ${capacityUnit})`
+            });
+          } else if (size < minimum) {
+            issues.push({
+              type: 'under_fill',
+              severity: 'warning',
+              message: `Batch size ${round(size)} ${capacityUnit} is below the ${minimumPercent}% minimum fill of ${equipment.name} (${round(minimum)} ${capacityUnit})`
+            });
+          }
+        } catch (error) {
+          if (!(error instanceof UnitConversionError)) throw error;
+          issues.push({
+            type: 'capacity_unknown',
+            severity: 'warning',
+            message: `Batch size in ${batchSizeUnit} can't be compared with the capacity of ${equipment.name} in ${capacityUnit}`
+          });
+        }
+      }
+    }
+
+    const rules = INCOMPATIBLE_HAZARDS.filter(rule => equipment.materialOfConstruction && rule.pattern.test(equipment.materialOfConstruction));
+    if (rules.length > 0 && input.materialIds && input.materialIds.length > 0) {
+      const materials = await db.material.findMany({
+        where: { id: { in: input.materialIds } },
+        select: { id: true, name: true, safetyTags: true }
+      });
+
+      for (const material of materials) {
+        const tags = Array.isArray(material.safetyTags) ? material.safetyTags as string[] : [];
+        for (const rule of rules) {
+          const hazards = rule.hazards.filter(hazard => tags.includes(hazard));
+          if (hazards.length > 0) {
+            issues.push({
+              type: 'material_incompatible',
+              severity: 'error',
+              materialId: material.id,
+              message: `${material.name} (${hazards.join(', ')}) is not compatible with ${equipment.name}'s ${rule.label} construction`
+            });
+          }
+        }
+      }
+    }
+
+    return issues;
+  },
+
+  // One message for a 400 response when any issue blocks scheduling
+  blockingMessage(issues: SchedulingIssue[]): string | null {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    return errors.length > 0 ? errors.map(issue => issue.message).join('; ') : null;
+  }
+};
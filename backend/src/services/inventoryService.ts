@@ -0,0 +1,356 @@
+import { Prisma, PrismaClient, BatchEvent } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth';
+import { auditService } from './auditService';
+
+export interface StockShortage {
+  materialId: number;
+  materialName: string;
+  unit: string;
+  required: number;
+  available: number;
+}
+
+export interface MaterialVariance {
+  materialId: number;
+  materialName: string;
+  unit: string;
+  planned: number;
+  actual: number;
+  variance: number;
+}
+
+export interface StockMovement {
+  materialId: number;
+  quantity: number;
+  batchEventId?: number | null;
+  lotId?: number | null;
+  notes?: string | null;
+}
+
+// Thrown inside a transaction so the status change and any stock already moved roll back together
+export class InsufficientStockError extends Error {
+  constructor(public shortages: StockShortage[]) {
+    super('Insufficient inventory');
+  }
+}
+
+// Thrown for a lot that doesn't belong to the material or can't be drawn from
+export class LotUnavailableError extends Error { }
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Quantities are stored to two decimals; round sums so float noise never posts a movement
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Lots that may be consumed: released, not expired, with stock left
+const usableLotsWhere = (materialId: number): Prisma.MaterialLotWhereInput => ({
+  materialId,
+  status: 'released',
+  quantity: { gt: 0 },
+  OR: [{ expiryDate: null }, { expiryDate: { gte: new Date() } }]
+});
+
+// Stock on hand that can be drawn: everything except quarantined, rejected or expired lots
+const availableQuantity = async (db: Db, materialId: number, currentQuantity: Prisma.Decimal) => {
+  const held = await db.materialLot.aggregate({
+    _sum: { quantity: true },
+    where: {
+      materialId,
+      OR: [{ status: { not: 'released' } }, { expiryDate: { lt: new Date() } }]
+    }
+  });
+  return round(Number(currentQuantity) - Number(held._sum.quantity ?? 0));
+};
+
+// Stock that was never booked into a lot (e.g. opening balances from before lot tracking)
+const unlottedQuantity = async (db: Db, materialId: number, currentQuantity: Prisma.Decimal) => {
+  const lotted = await db.materialLot.aggregate({ _sum: { quantity: true }, where: { materialId } });
+  return round(Number(currentQuantity) - Number(lotted._sum.quantity ?? 0));
+};
+
+// Plan lines for a batch, summed per material (a material can appear on several steps)
+const linesByMaterial = async (db: Db, batchEventId: number) => {
+  const lines = await db.batchMaterial.findMany({
+    where: { batchEventId },
+    include: { material: true }
+  });
+
+  const totals = new Map<number, { material: (typeof lines)[number]['material']; planned: number; actual: number }>();
+  for (const line of lines) {
+    const entry = totals.get(line.materialId) || { material: line.material, planned: 0, actual: 0 };
+    entry.planned += Number(line.plannedQuantity);
+    entry.actual += Number(line.actualQuantity ?? line.plannedQuantity);
+    totals.set(line.materialId, entry);
+  }
+
+  return { lines, totals };
+};
+
+// Net quantity already drawn from stock for this batch (consumed minus returned)
+const consumedForBatch = async (db: Db, batchEventId: number, materialId: number) => {
+  const transactions = await db.inventoryTransaction.findMany({
+    where: { batchEventId, materialId, transactionType: { in: ['consumed', 'received'] } },
+    select: { transactionType: true, quantity: true }
+  });
+
+  return transactions.reduce(
+    (sum, t) => sum + (t.transactionType === 'consumed' ? Number(t.quantity) : -Number(t.quantity)),
+    0
+  );
+};
+
+// Write one ledger line per lot touched, plus the material audit entry for the whole movement
+const recordMovements = async (
+  db: Db,
+  req: AuthRequest,
+  before: { id: number; currentQuantity: Prisma.Decimal },
+  type: 'consumed' | 'received',
+  allocations: { lotId: number | null; quantity: number }[],
+  movement: StockMovement
+) => {
+  const transactions = [];
+  let balance = Number(before.currentQuantity);
+
+  for (const allocation of allocations) {
+    balance = round(type === 'consumed' ? balance - allocation.quantity : balance + allocation.quantity);
+    const transaction = await db.inventoryTransaction.create({
+      data: {
+        materialId: movement.materialId,
+        batchEventId: movement.batchEventId ?? null,
+        lotId: allocation.lotId,
+        transactionType: type,
+        quantity: allocation.quantity,
+        remainingBalance: balance,
+        notes: movement.notes
+      }
+    });
+    await auditService.record(db, req, { entityType: 'inventory_transaction', entityId: transaction.id, action: 'create', after: transaction });
+    transactions.push(transaction);
+  }
+
+  const after = await db.material.findUniqueOrThrow({ where: { id: movement.materialId } });
+  await auditService.record(db, req, { entityType: 'material', entityId: movement.materialId, action: 'update', before, after });
+
+  return transactions;
+};
+
+export const inventoryService = {
+  // Draw stock first-expiry-first-out across released lots, then from unlotted stock.
+  // Passing a lotId draws from that lot only.
+  async consume(db: Db, req: AuthRequest, movement: StockMovement) {
+    const material = await db.material.findUniqueOrThrow({ where: { id: movement.materialId } });
+    const quantity = round(movement.quantity);
+    const shortage = (available: number) => new InsufficientStockError([{
+      materialId: material.id,
+      materialName: material.name,
+      unit: material.unit,
+      required: quantity,
+      available
+    }]);
+
+    const allocations: { lotId: number | null; quantity: number }[] = [];
+
+    if (movement.lotId) {
+      const lot = await db.materialLot.findFirst({ where: { ...usableLotsWhere(material.id), id: movement.lotId } });
+      if (!lot) {
+        throw new LotUnavailableError('Lot not found, not released or expired');
+      }
+      if (Number(lot.quantity) < quantity) {
+        throw shortage(Number(lot.quantity));
+      }
+      allocations.push({ lotId: lot.id, quantity });
+    } else {
+      const available = await availableQuantity(db, material.id, material.currentQuantity);
+      if (available < quantity) {
+        throw shortage(available);
+      }
+
+      const lots = await db.materialLot.findMany({
+        where: usableLotsWhere(material.id),
+        orderBy: [{ expiryDate: { sort: 'asc', nulls: 'last' } }, { receivedDate: 'asc' }]
+      });
+
+      let remaining = quantity;
+      for (const lot of lots) {
+        if (remaining <= 0) break;
+        const take = round(Math.min(Number(lot.quantity), remaining));
+        allocations.push({ lotId: lot.id, quantity: take });
+        remaining = round(remaining - take);
+      }
+
+      if (remaining > 0) {
+        const unlotted = await unlottedQuantity(db, material.id, material.currentQuantity);
+        if (unlotted < remaining) {
+          throw shortage(available);
+        }
+        allocations.push({ lotId: null, quantity: remaining });
+      }
+    }
+
+    // Guarded decrements, so a concurrent withdrawal can't take a lot or the material below zero
+    for (const allocation of allocations) {
+      if (!allocation.lotId) continue;
+      const claimed = await db.materialLot.updateMany({
+        where: { id: allocation.lotId, quantity: { gte: allocation.quantity } },
+        data: { quantity: { decrement: allocation.quantity } }
+      });
+      if (claimed.count === 0) {
+        throw shortage(await availableQuantity(db, material.id, material.currentQuantity));
+      }
+    }
+
+    const claimed = await db.material.updateMany({
+      where: { id: material.id, currentQuantity: { gte: quantity } },
+      data: { currentQuantity: { decrement: quantity } }
+    });
+    if (claimed.count === 0) {
+      throw shortage(Number(material.currentQuantity));
+    }
+
+    return recordMovements(db, req, material, 'consumed', allocations, movement);
+  },
+
+  // Put stock back. For a batch it returns to the lots that batch drew from, most recent first.
+  async receive(db: Db, req: AuthRequest, movement: StockMovement) {
+    const material = await db.material.findUniqueOrThrow({ where: { id: movement.materialId } });
+    const quantity = round(movement.quantity);
+    const allocations: { lotId: number | null; quantity: number }[] = [];
+
+    if (movement.lotId) {
+      const lot = await db.materialLot.findFirst({ where: { id: movement.lotId, materialId: material.id } });
+      if (!lot) {
+        throw new LotUnavailableError('Lot not found for this material');
+      }
+      allocations.push({ lotId: lot.id, quantity });
+    } else if (movement.batchEventId) {
+      const drawn = await db.inventoryTransaction.findMany({
+        where: { batchEventId: movement.batchEventId, materialId: material.id, transactionType: { in: ['consumed', 'received'] } },
+        orderBy: { id: 'desc' }
+      });
+
+      const netByLot = new Map<number | null, number>();
+      for (const t of drawn) {
+        const net = netByLot.get(t.lotId) ?? 0;
+        netByLot.set(t.lotId, net + (t.transactionType === 'consumed' ? Number(t.quantity) : -Number(t.quantity)));
+      }
+
+      let remaining = quantity;
+      for (const [lotId, net] of netByLot) {
+        if (remaining <= 0) break;
+        const give = round(Math.min(net, remaining));
+        if (give <= 0) continue;
+        allocations.push({ lotId, quantity: give });
+        remaining = round(remaining - give);
+      }
+      if (remaining > 0) {
+        allocations.push({ lotId: null, quantity: remaining });
+      }
+    } else {
+      allocations.push({ lotId: null, quantity });
+    }
+
+    for (const allocation of allocations) {
+      if (!allocation.lotId) continue;
+      await db.materialLot.update({
+        where: { id: allocation.lotId },
+        data: { quantity: { increment: allocation.quantity } }
+      });
+    }
+
+    await db.material.update({
+      where: { id: material.id },
+      data: { currentQuantity: { increment: quantity } }
+    });
+
+    return recordMovements(db, req, material, 'received', allocations, movement);
+  },
+
+  // Stock on hand that can be drawn now, excluding held and expired lots
+  async available(db: Db, materialId: number, currentQuantity: Prisma.Decimal) {
+    return availableQuantity(db, materialId, currentQuantity);
+  },
+
+  // Materials a batch still needs to draw that aren't available
+  async findShortages(db: Db, batchEventId: number): Promise<StockShortage[]> {
+    const { totals } = await linesByMaterial(db, batchEventId);
+    const shortages: StockShortage[] = [];
+
+    for (const [materialId, { material, planned }] of totals) {
+      const required = round(planned - await consumedForBatch(db, batchEventId, materialId));
+      const available = await availableQuantity(db, materialId, material.currentQuantity);
+      if (required > 0 && available < required) {
+        shortages.push({ materialId, materialName: material.name, unit: material.unit, required, available });
+      }
+    }
+
+    return shortages;
+  },
+
+  // Draw the planned quantity of every material when a batch starts
+  async consumeForStart(db: Db, req: AuthRequest, batch: BatchEvent) {
+    const shortages = await inventoryService.findShortages(db, batch.id);
+    if (shortages.length > 0) {
+      throw new InsufficientStockError(shortages);
+    }
+
+    const { totals } = await linesByMaterial(db, batch.id);
+    const transactions = [];
+
+    for (const [materialId, { planned }] of totals) {
+      const quantity = round(planned - await consumedForBatch(db, batch.id, materialId));
+      if (quantity > 0) {
+        transactions.push(...await inventoryService.consume(db, req, {
+          materialId,
+          quantity,
+          batchEventId: batch.id,
+          notes: `Consumed at start of batch ${batch.batchNo}`
+        }));
+      }
+    }
+
+    return transactions;
+  },
+
+  // On completion, settle stock to the actual quantities and record the variance against plan.
+  // Lines without an actual quantity are taken as used exactly as planned.
+  async reconcileOnComplete(db: Db, req: AuthRequest, batch: BatchEvent) {
+    const { lines, totals } = await linesByMaterial(db, batch.id);
+
+    for (const line of lines) {
+      const actual = Number(line.actualQuantity ?? line.plannedQuantity);
+      const { material, ...before } = line;
+      const updated = await db.batchMaterial.update({
+        where: { id: line.id },
+        data: { actualQuantity: actual, variance: round(actual - Number(line.plannedQuantity)) }
+      });
+      await auditService.record(db, req, { entityType: 'batch_material', entityId: line.id, action: 'update', before, after: updated });
+    }
+
+    const variances: MaterialVariance[] = [];
+
+    for (const [materialId, { material, planned, actual }] of totals) {
+      const variance = round(actual - planned);
+      const delta = round(actual - await consumedForBatch(db, batch.id, materialId));
+
+      if (delta !== 0) {
+        const movement = {
+          materialId,
+          quantity: Math.abs(delta),
+          batchEventId: batch.id,
+          notes: variance === 0
+            ? `Consumed on completion of batch ${batch.batchNo}`
+            : `Completion of batch ${batch.batchNo}: ${variance > 0 ? '+' : ''}${variance} ${material.unit} against plan`
+        };
+        if (delta > 0) {
+          await inventoryService.consume(db, req, movement);
+        } else {
+          await inventoryService.receive(db, req, movement);
+        }
+      }
+
+      variances.push({ materialId, materialName: material.name, unit: material.unit, planned: round(planned), actual: round(actual), variance });
+    }
+
+    return variances;
+  }
+};
@@ -0,0 +1,274 @@
+import cron from 'node-cron';
+import { Prisma, PrismaClient, MaintenancePlan } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth';
+import { auditService } from './auditService';
+import { availabilityService } from './availabilityService';
+import emailService from './emailService';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const prisma = new PrismaClient();
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Where a plan stands against its trigger
+export interface PlanStatus {
+  lastPerformedAt: Date | null;
+  since: Date; // Usage is counted from the last PM, or from when the plan was created
+  used: number; // Days, run hours or batches since then
+  remaining: number;
+  dueAt: Date | null; // null when upcoming batches don't bring usage up to the interval
+  overdue: boolean;
+  openEvent: { id: number; startTimestamp: Date; endTimestamp: Date } | null; // PM already booked and not yet done
+}
+
+export interface GenerateResult {
+  created: Array<{ planId: number; planName: string; maintenanceEventId: number; startTimestamp: Date; endTimestamp: Date }>;
+  skipped: Array<{ planId: number; planName: string; reason: string }>;
+}
+
+type PlanWithRelations = MaintenancePlan & {
+  equipment: { id: number; name: string };
+  supervisor: { id: number; email: string } | null;
+};
+
+// How far ahead PM events are generated
+const horizonDays = () => {
+  const value = parseInt(process.env.PM_HORIZON_DAYS || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : 30;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// What one batch adds to the plan's usage counter
+const usageOf = (plan: MaintenancePlan, since: Date, start: Date, end: Date) => {
+  if (plan.triggerType === 'batch_count') {
+    return 1;
+  }
+  return Math.max(0, end.getTime() - Math.max(start.getTime(), since.getTime())) / HOUR_MS;
+};
+
+export const maintenancePlanService = {
+  // Usage since the last PM and when the next one falls due. Run hours and batch counts come from the
+  // actual times of completed batches; upcoming batches are used to project when the interval is reached.
+  async status(db: Db, plan: MaintenancePlan, now = new Date()): Promise<PlanStatus> {
+    const events = await db.maintenanceEvent.findMany({
+      where: { maintenancePlanId: plan.id },
+      select: { id: true, startTimestamp: true, endTimestamp: true, actualEnd: true },
+      orderBy: { startTimestamp: 'desc' }
+    });
+
+    // A PM counts as done once it has an actual end, or once its planned end has passed
+    const performed = events
+      .map(e => e.actualEnd ?? (e.endTimestamp <= now ? e.endTimestamp : null))
+      .filter((at): at is Date => at !== null)
+      .sort((a, b) => b.getTime() - a.getTime());
+    const lastPerformedAt = performed[0] ?? null;
+    const open = events.find(e => !e.actualEnd && e.endTimestamp > now);
+    const openEvent = open ? { id: open.id, startTimestamp: open.startTimestamp, endTimestamp: open.endTimestamp } : null;
+    const since = lastPerformedAt ?? plan.createdAt;
+
+    let used: number;
+    let dueAt: Date | null = null;
+
+    if (plan.triggerType === 'calendar') {
+      used = (now.getTime() - since.getTime()) / DAY_MS;
+      dueAt = new Date(since.getTime() + plan.interval * DAY_MS);
+    } else {
+      const completed = await db.batchEvent.findMany({
+        where: {
+          equipmentId: plan.equipmentId,
+          status: 'completed',
+          actualStart: { not: null },
+          actualEnd: { gt: since }
+        },
+        select: { actualStart: true, actualEnd: true },
+        orderBy: { actualEnd: 'asc' }
+      });
+
+      used = 0;
+      for (const batch of completed) {
+        used += usageOf(plan, since, batch.actualStart!, batch.actualEnd!);
+        if (!dueAt && used >= plan.interval) {
+          dueAt = batch.actualEnd!;
+        }
+      }
+
+      if (!dueAt) {
+        // Due after the upcoming batch that reaches the interval, or before the one that would overrun it
+        const upcoming = await db.batchEvent.findMany({
+          where: {
+            equipmentId: plan.equipmentId,
+            status: { in: ['scheduled', 'started'] },
+            endTimestamp: { gt: now }
+          },
+          select: { startTimestamp: true, endTimestamp: true, actualStart: true },
+          orderBy: { startTimestamp: 'asc' }
+        });
+
+        let projected = used;
+        let cursor = now;
+        for (const batch of upcoming) {
+          projected += usageOf(plan, since, batch.actualStart ?? batch.startTimestamp, batch.endTimestamp);
+          if (projected >= plan.interval) {
+            dueAt = projected > plan.interval && plan.triggerType === 'runtime_hours' ? cursor : batch.endTimestamp;
+            break;
+          }
+          cursor = batch.endTimestamp > cursor ? batch.endTimestamp : cursor;
+        }
+      }
+    }
+
+    return {
+      lastPerformedAt,
+      since,
+      used: round(used),
+      remaining: round(Math.max(0, plan.interval - used)),
+      dueAt,
+      overdue: !!dueAt && dueAt <= now && !openEvent,
+      openEvent
+    };
+  },
+
+  // First window of the given length on the equipment, from `from` until `until`, that no batch or
+  // maintenance event holds
+  async findSlot(db: Db, equipmentId: number, from: Date, minutes: number, until: Date): Promise<{ startTimestamp: Date; endTimestamp: Date } | null> {
+    const duration = minutes * MINUTE_MS;
+    const bookings = await availabilityService.findBookings(db, { equipmentId, startTimestamp: from, endTimestamp: until });
+
+    let cursor = from.getTime();
+    for (const booking of bookings) {
+      if (booking.startTimestamp.getTime() - cursor >= duration) break;
+      cursor = Math.max(cursor, booking.endTimestamp.getTime());
+    }
+
+    if (cursor + duration > until.getTime()) {
+      return null;
+    }
+    return { startTimestamp: new Date(cursor), endTimestamp: new Date(cursor + duration) };
+  },
+
+  // Book a preventive maintenance event for each active plan falling due within the horizon that
+  // doesn't already have one, in the first free window from its due date. `req` is null when run by
+  // the background job.
+  async generate(db: PrismaClient, req: AuthRequest | null, options: { planId?: number; now?: Date } = {}): Promise<GenerateResult> {
+    const now = options.now ?? new Date();
+    const horizonEnd = new Date(now.getTime() + horizonDays() * DAY_MS);
+    const result: GenerateResult = { created: [], skipped: [] };
+
+    const plans = await db.maintenancePlan.findMany({
+      where: { active: true, id: options.planId },
+      include: {
+        equipment: { select: { id: true, name: true } },
+        supervisor: { select: { id: true, email: true } }
+      }
+    });
+
+    for (const plan of plans) {
+      const status = await maintenancePlanService.status(db, plan, now);
+      const skip = (reason: string) => result.skipped.push({ planId: plan.id, planName: plan.name, reason });
+
+      if (status.openEvent) {
+        skip(`PM already booked for ${status.openEvent.startTimestamp.toISOString()}`);
+        continue;
+      }
+      if (!status.dueAt || status.dueAt > horizonEnd) {
+        skip(status.dueAt ? `Not due until ${status.dueAt.toISOString()}` : 'Not due within the scheduled batches');
+        continue;
+      }
+
+      const from = status.dueAt > now ? status.dueAt : now;
+      const searchEnd = new Date(from.getTime() + horizonDays() * DAY_MS);
+      const slot = await maintenancePlanService.findSlot(db, plan.equipmentId, from, plan.durationMinutes, searchEnd);
+      if (!slot) {
+        skip(`No free ${plan.durationMinutes} min window on ${plan.equipment.name}`);
+        continue;
+      }
+
+      const event = await db.$transaction(async (tx) => {
+        // Bookings may have changed since the slot was found
+        const availability = await availabilityService.check(tx, { equipmentId: plan.equipmentId, ...slot, type: 'maintenance' });
+        if (!availability.available) {
+          return null;
+        }
+
+        const created = await tx.maintenanceEvent.create({
+          data: {
+            equipmentId: plan.equipmentId,
+            reason: 'preventive',
+            expectedDuration: `${plan.durationMinutes} min`,
+            supervisorName: plan.supervisor?.email,
+            maintenancePlanId: plan.id,
+            ...slot
+          }
+        });
+        await auditService.record(tx, req, {
+          entityType: 'maintenance_event',
+          entityId: created.id,
+          action: 'create',
+          after: created,
+          reason: `Generated from maintenance plan "${plan.name}"`
+        });
+        return created;
+      });
+
+      if (!event) {
+        skip(`${plan.equipment.name} was booked while the PM was being scheduled`);
+        continue;
+      }
+
+      result.created.push({ planId: plan.id, planName: plan.name, maintenanceEventId: event.id, ...slot });
+      await maintenancePlanService.notifySupervisor(db, plan, event.id, slot.startTimestamp);
+    }
+
+    return result;
+  },
+
+  // Email the plan's supervisor (or admins and planners when it has none) about a generated PM and record the notifications
+  async notifySupervisor(db: PrismaClient, plan: PlanWithRelations, maintenanceEventId: number, startTimestamp: Date) {
+    try {
+      const users = plan.supervisor
+        ? [plan.supervisor]
+        : await db.user.findMany({ where: { role: { in: ['admin', 'planner'] } }, select: { id: true, email: true } });
+
+      const message = `Preventive maintenance "${plan.name}" scheduled on ${plan.equipment.name} for ${startTimestamp.toLocaleString()}`;
+      const success = await emailService.sendEmail({
+        to: users.map(u => u.email),
+        subject: `Preventive Maintenance Scheduled: ${plan.equipment.name}`,
+        text: `${message} (${plan.durationMinutes} min).${plan.notes ? `\n\n${plan.notes}` : ''}`
+      });
+
+      if (success) {
+        await db.notification.createMany({
+          data: users.map(user => ({
+            userId: user.id,
+            maintenanceEventId,
+            type: 'maintenance_scheduled' as const,
+            sentTimestamp: new Date(),
+            message
+          }))
+        });
+      }
+    } catch (error) {
+      console.error('Error sending preventive maintenance notifications:', error);
+    }
+  }
+};
+
+export const startMaintenancePlanScheduler = () => {
+  // Run hourly so usage-based plans pick up batches as they complete
+  cron.schedule('0 * * * *', async () => {
+    try {
+      const { created } = await maintenancePlanService.generate(prisma, null);
+      if (created.length > 0) {
+        console.log(`Generated ${created.length} preventive maintenance event(s)`);
+      }
+    } catch (error) {
+      console.error('Error in preventive maintenance scheduler:', error);
+    }
+  });
+
+  console.log('Preventive maintenance scheduler started (runs hourly)');
+};
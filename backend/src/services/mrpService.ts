@@ -0,0 +1,213 @@
+import { BatchStatus, Prisma, PrismaClient } from '@prisma/client';
+import { inventoryService } from './inventoryService';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface MrpOptions {
+  horizonDays?: number;
+  materialId?: number;
+}
+
+// One batch drawing a material, in the order the projection applies them
+export interface Requirement {
+  date: Date; // Batch start, or now for a batch that should already have started
+  batchEventId: number;
+  batchNo: string;
+  productName: string;
+  status: BatchStatus;
+  quantity: number; // Planned quantity not yet drawn from stock
+  balance: number; // Projected balance once this batch has drawn
+}
+
+export interface PurchaseSuggestion {
+  quantity: number; // Brings the lowest projected balance back up to minimum stock
+  needBy: Date; // When the projected balance first drops below minimum stock
+  orderBy: Date; // needBy less the supplier lead time
+  expectedArrival: Date; // If ordered now
+  late: boolean; // orderBy has passed, so the stock arrives after it's needed
+  estimatedCost: number | null;
+}
+
+export interface MaterialPlan {
+  material: {
+    id: number;
+    materialId: string | null;
+    name: string;
+    unit: string;
+    supplier: string | null;
+    minimumStock: number;
+    costPerUnit: number | null;
+  };
+  leadTimeDays: number;
+  available: number;
+  demand: number;
+  projectedBalance: number; // At the end of the horizon
+  lowestBalance: number;
+  shortageDate: Date | null; // When the projected balance first goes negative
+  belowMinimumDate: Date | null;
+  requirements: Requirement[];
+  suggestion: PurchaseSuggestion | null;
+}
+
+export interface MrpProjection {
+  start: Date;
+  end: Date;
+  horizonDays: number;
+  defaultLeadTimeDays: number;
+  materials: MaterialPlan[];
+}
+
+// Batches that will still draw material; started batches may not have drawn all of it yet
+const OPEN_STATUSES: BatchStatus[] = ['scheduled', 'started'];
+
+const DEFAULT_HORIZON_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lead time for materials without one of their own
+const defaultLeadTimeDays = () => {
+  const value = parseInt(process.env.DEFAULT_LEAD_TIME_DAYS || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : 7;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Materials going short first, then those dropping below minimum, soonest first
+const urgency = (plan: MaterialPlan) => [
+  plan.shortageDate?.getTime() ?? Infinity,
+  plan.belowMinimumDate?.getTime() ?? Infinity
+];
+
+export const mrpService = {
+  // Project each material's balance over the horizon by drawing the planned quantities of open batches on
+  // their start dates, and suggest what to order and when to cover the lowest point.
+  async project(db: Db, options: MrpOptions = {}, now: Date = new Date()): Promise<MrpProjection> {
+    const horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS;
+    const end = new Date(now.getTime() + horizonDays * DAY_MS);
+    const fallbackLeadTime = defaultLeadTimeDays();
+
+    const materials = await db.material.findMany({
+      where: options.materialId ? { id: options.materialId } : undefined,
+      orderBy: { name: 'asc' }
+    });
+
+    const lines = await db.batchMaterial.findMany({
+      where: {
+        materialId: options.materialId,
+        batchEvent: { status: { in: OPEN_STATUSES }, startTimestamp: { lt: end } }
+      },
+      include: {
+        batchEvent: { select: { id: true, batchNo: true, productName: true, status: true, startTimestamp: true } }
+      }
+    });
+
+    // Stock already drawn for these batches (consumed minus returned), so started batches aren't counted twice
+    const transactions = lines.length > 0
+      ? await db.inventoryTransaction.findMany({
+        where: {
+          batchEventId: { in: Array.from(new Set(lines.map(line => line.batchEventId))) },
+          transactionType: { in: ['consumed', 'received'] }
+        },
+        select: { batchEventId: true, materialId: true, transactionType: true, quantity: true }
+      })
+      : [];
+
+    const drawn = new Map<string, number>();
+    for (const t of transactions) {
+      const key = `${t.batchEventId}:${t.materialId}`;
+      drawn.set(key, (drawn.get(key) || 0) + (t.transactionType === 'consumed' ? Number(t.quantity) : -Number(t.quantity)));
+    }
+
+    // Plan lines summed per batch and material (a material can appear on several steps)
+    const demand = new Map<number, Map<number, Omit<Requirement, 'balance'>>>();
+    for (const line of lines) {
+      const byBatch = demand.get(line.materialId) || new Map<number, Omit<Requirement, 'balance'>>();
+      const batch = line.batchEvent;
+      const requirement = byBatch.get(batch.id) || {
+        date: batch.startTimestamp < now ? now : batch.startTimestamp,
+        batchEventId: batch.id,
+        batchNo: batch.batchNo,
+        productName: batch.productName,
+        status: batch.status,
+        quantity: -(drawn.get(`${batch.id}:${line.materialId}`) || 0)
+      };
+      requirement.quantity += Number(line.plannedQuantity);
+      byBatch.set(batch.id, requirement);
+      demand.set(line.materialId, byBatch);
+    }
+
+    const plans: MaterialPlan[] = [];
+
+    for (const material of materials) {
+      const minimumStock = Number(material.minimumStock);
+      const costPerUnit = material.costPerUnit === null ? null : Number(material.costPerUnit);
+      const leadTimeDays = material.leadTimeDays ?? fallbackLeadTime;
+      const available = await inventoryService.available(db, material.id, material.currentQuantity);
+
+      let balance = available;
+      let lowestBalance = available;
+      let shortageDate: Date | null = available < 0 ? now : null;
+      let belowMinimumDate: Date | null = available < minimumStock ? now : null;
+
+      const requirements: Requirement[] = Array.from(demand.get(material.id)?.values() || [])
+        .map(requirement => ({ ...requirement, quantity: round(requirement.quantity) }))
+        .filter(requirement => requirement.quantity > 0)
+        .sort((a, b) => a.date.getTime() - b.date.getTime() || a.batchEventId - b.batchEventId)
+        .map(requirement => {
+          balance = round(balance - requirement.quantity);
+          lowestBalance = Math.min(lowestBalance, balance);
+          if (!shortageDate && balance < 0) {
+            shortageDate = requirement.date;
+          }
+          if (!belowMinimumDate && balance < minimumStock) {
+            belowMinimumDate = requirement.date;
+          }
+          return { ...requirement, balance };
+        });
+
+      let suggestion: PurchaseSuggestion | null = null;
+      if (belowMinimumDate) {
+        const needBy: Date = belowMinimumDate;
+        const quantity = round(minimumStock - lowestBalance);
+        const orderBy = new Date(needBy.getTime() - leadTimeDays * DAY_MS);
+        suggestion = {
+          quantity,
+          needBy,
+          orderBy,
+          expectedArrival: new Date(now.getTime() + leadTimeDays * DAY_MS),
+          late: orderBy < now,
+          estimatedCost: costPerUnit === null ? null : round(quantity * costPerUnit)
+        };
+      }
+
+      plans.push({
+        material: {
+          id: material.id,
+          materialId: material.materialId,
+          name: material.name,
+          unit: material.unit,
+          supplier: material.supplier,
+          minimumStock,
+          costPerUnit
+        },
+        leadTimeDays,
+        available,
+        demand: round(requirements.reduce((sum, r) => sum + r.quantity, 0)),
+        projectedBalance: balance,
+        lowestBalance,
+        shortageDate,
+        belowMinimumDate,
+        requirements,
+        suggestion
+      });
+    }
+
+    plans.sort((a, b) => {
+      const [aShort, aBelow] = urgency(a);
+      const [bShort, bBelow] = urgency(b);
+      return (aShort - bShort) || (aBelow - bBelow) || 0;
+    });
+
+    return { start: now, end, horizonDays, defaultLeadTimeDays: fallbackLeadTime, materials: plans };
+  }
+};
@@ -0,0 +1,443 @@
+import { Prisma, PrismaClient, ChangeoverRule } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth';
+import { auditService } from './auditService';
+import { availabilityService, Availability } from './availabilityService';
+import { changeoverService, ChangeoverRequiredError } from './changeoverService';
+import { equipmentCheckService, SchedulingIssue } from './equipmentCheckService';
+import { unitsService, UnitConversionError } from './unitsService';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Upper bound on slot searches per order; each attempt moves strictly later
+const MAX_SEARCH_ATTEMPTS = 5000;
+
+const recipeInclude = {
+  steps: {
+    include: { equipment: { select: { id: true, name: true } } },
+    orderBy: { stepNumber: 'asc' as const }
+  },
+  materials: { include: { material: true } }
+};
+
+// Thrown inside the booking transaction when a step's equipment was booked since it was checked
+export class BookingConflictError extends Error {
+  constructor(public booking: StepBooking, public availability: Availability) {
+    super(`Step ${booking.step.stepNumber}: ${availability.message}`);
+  }
+}
+
+export type SchedulableRecipe = Prisma.RecipeGetPayload<{ include: typeof recipeInclude }>;
+
+export interface StepBooking {
+  step: SchedulableRecipe['steps'][number];
+  startTimestamp: Date;
+  endTimestamp: Date;
+}
+
+export interface PlannedMaterial {
+  rm: SchedulableRecipe['materials'][number];
+  plannedQuantity: number;
+}
+
+export interface BatchOrder {
+  recipeId: number;
+  batchNo: string;
+  batchSize: number;
+  batchSizeUnit?: string;
+  productName?: string;
+  dueDate: Date;
+  priority: number; // 1 is most urgent
+  earliestStart?: Date;
+}
+
+export interface OptimizeOptions {
+  startFrom: Date;
+  horizonDays: number;
+}
+
+export interface ProposedBatch {
+  orderIndex: number;
+  recipeId: number;
+  recipeName: string;
+  batchNo: string;
+  productName: string;
+  batchSize: number;
+  batchSizeUnit: string | null;
+  priority: number;
+  dueDate: Date;
+  startTimestamp: Date;
+  endTimestamp: Date;
+  lateMinutes: number;
+  bookings: {
+    stepNumber: number;
+    stepName: string;
+    equipmentId: number;
+    equipmentName: string;
+    startTimestamp: Date;
+    endTimestamp: Date;
+  }[];
+  warnings: (SchedulingIssue & { stepNumber: number })[];
+}
+
+export interface UnscheduledOrder {
+  orderIndex: number;
+  batchNo: string;
+  reason: string;
+}
+
+// A period a piece of equipment is held, with the product it runs (null for maintenance)
+interface Slot {
+  equipmentId: number;
+  start: number;
+  end: number;
+  product: string | null;
+}
+
+// Earliest start from `earliest` at which every step's equipment is free, leaving changeover time
+// around batches of other products, or null if nothing fits before `latest`
+const findStart = (template: StepBooking[], product: string, slots: Slot[], rules: ChangeoverRule[], earliest: number, latest: number) => {
+  let start = earliest;
+
+  for (let attempt = 0; attempt < MAX_SEARCH_ATTEMPTS && start <= latest; attempt++) {
+    let next = start;
+
+    for (const booking of template) {
+      const offset = booking.startTimestamp.getTime();
+      const from = start + offset;
+      const to = start + booking.endTimestamp.getTime();
+
+      for (const slot of slots) {
+        if (slot.equipmentId !== booking.step.equipmentId) continue;
+        const before = changeoverService.requiredMinutes(rules, slot.equipmentId, slot.product, product) * MINUTE_MS;
+        const after = changeoverService.requiredMinutes(rules, slot.equipmentId, product, slot.product) * MINUTE_MS;
+        if (from < slot.end + before && to + after > slot.start) {
+          next = Math.max(next, slot.end + before - offset);
+        }
+      }
+    }
+
+    if (next === start) {
+      return start;
+    }
+    start = next;
+  }
+
+  return null;
+};
+
+export const schedulerService = {
+  loadRecipe(db: Db, id: number): Promise<SchedulableRecipe | null> {
+    return db.recipe.findUnique({ where: { id }, include: recipeInclude });
+  },
+
+  // Why a recipe can't be scheduled yet, or null if it can
+  recipeProblem(recipe: SchedulableRecipe): { error: string; steps?: number[] } | null {
+    if (recipe.status !== 'approved' && recipe.status !== 'active') {
+      return { error: `Cannot schedule a recipe that is ${recipe.status}` };
+    }
+    if (recipe.steps.length === 0) {
+      return { error: 'Recipe has no steps to schedule' };
+    }
+    const missingDuration = recipe.steps.filter(step => !step.duration);
+    if (missingDuration.length > 0) {
+      return { error: 'Recipe steps are missing durations', steps: missingDuration.map(step => step.stepNumber) };
+    }
+    if (!recipe.steps.some(step => step.equipmentId)) {
+      return { error: 'Recipe has no steps assigned to equipment' };
+    }
+    return null;
+  },
+
+  // Scale material quantities by batch size relative to the recipe's nominal yield (with the
+  // batch size in the yield's unit) and plan each material in its stock unit.
+  // Throws UnitConversionError when a quantity can't be converted.
+  planMaterials(recipe: SchedulableRecipe, batchSize: number, batchSizeUnit?: string | null) {
+    const size = batchSizeUnit && recipe.yieldUnit
+      ? unitsService.convert(batchSize, batchSizeUnit, recipe.yieldUnit)
+      : batchSize;
+    const scaleFactor = recipe.yield ? size / Number(recipe.yield) : 1;
+    const plannedMaterials: PlannedMaterial[] = recipe.materials.map(rm => ({
+      rm,
+      plannedQuantity: unitsService.convert(
+        Number(rm.quantity) * scaleFactor,
+        rm.unit,
+        rm.material.unit,
+        rm.material.density === null ? null : Number(rm.material.density)
+      )
+    }));
+    return { batchSize: size, batchSizeUnit: recipe.yieldUnit || batchSizeUnit || null, scaleFactor, plannedMaterials };
+  },
+
+  // Lay the steps out back to back; steps without equipment still take time but book nothing
+  layoutSteps(recipe: SchedulableRecipe, start: Date): StepBooking[] {
+    let cursor = start;
+    return recipe.steps.map(step => {
+      const startTimestamp = cursor;
+      const endTimestamp = new Date(cursor.getTime() + (step.duration || 0) * MINUTE_MS);
+      cursor = endTimestamp;
+      return { step, startTimestamp, endTimestamp };
+    }).filter(booking => booking.step.equipmentId);
+  },
+
+  // Materials that go on a booking: those for its step, plus any not tied to a booked step on the first
+  stepMaterialIds(recipe: SchedulableRecipe, bookings: StepBooking[], index: number): number[] {
+    return recipe.materials
+      .filter(rm => rm.stepNumber === bookings[index].step.stepNumber ||
+        (index === 0 && !bookings.some(b => b.step.stepNumber === rm.stepNumber)))
+      .map(rm => rm.materialId);
+  },
+
+  // Capacity and material-of-construction checks for each step's equipment
+  async checkBookings(db: Db, recipe: SchedulableRecipe, bookings: StepBooking[], batchSize: number, batchSizeUnit: string | null) {
+    const issues: (SchedulingIssue & { stepNumber: number })[] = [];
+    for (const [index, booking] of bookings.entries()) {
+      const stepIssues = await equipmentCheckService.check(db, {
+        equipmentId: booking.step.equipmentId!,
+        batchSize,
+        batchSizeUnit,
+        materialIds: schedulerService.stepMaterialIds(recipe, bookings, index)
+      });
+      issues.push(...stepIssues.map(issue => ({ ...issue, stepNumber: booking.step.stepNumber })));
+    }
+    return issues;
+  },
+
+  // One batch event per booked step, with planned materials on the booking for their step (or the
+  // first booking when not tied to one). Missing changeover cleaning either side of a booking throws
+  // ChangeoverRequiredError unless `autoCleaning` is set and a cleaning event fits in the gap.
+  async createBookings(tx: Prisma.TransactionClient, req: AuthRequest, input: {
+    recipe: SchedulableRecipe;
+    bookings: StepBooking[];
+    plannedMaterials: PlannedMaterial[];
+    batchNo: string;
+    productName?: string;
+    batchSize: number;
+    batchSizeUnit: string | null;
+    autoCleaning?: boolean;
+  }) {
+    const { recipe, bookings } = input;
+    const created = [];
+
+    for (const booking of bookings) {
+      // Re-checked here because a booking may have been made since the caller checked
+      const availability = await availabilityService.check(tx, {
+        equipmentId: booking.step.equipmentId!,
+        startTimestamp: booking.startTimestamp,
+        endTimestamp: booking.endTimestamp,
+        type: 'batch'
+      });
+      if (!availability.available) {
+        throw new BookingConflictError(booking, availability);
+      }
+
+      const batchEvent = await tx.batchEvent.create({
+        data: {
+          equipmentId: booking.step.equipmentId!,
+          batchNo: input.batchNo,
+          productName: input.productName || recipe.product,
+          batchSize: input.batchSize,
+          batchSizeUnit: input.batchSizeUnit,
+          status: 'scheduled',
+          recipeId: recipe.id,
+          recipeVersion: recipe.version,
+          startTimestamp: booking.startTimestamp,
+          endTimestamp: booking.endTimestamp,
+          inputs: { stepName: booking.step.name, stepNumber: booking.step.stepNumber }
+        }
+      });
+      await auditService.record(tx, req, { entityType: 'batch_event', entityId: batchEvent.id, action: 'create', after: batchEvent });
+      created.push(batchEvent);
+
+      const changeovers = await changeoverService.check(tx, {
+        equipmentId: batchEvent.equipmentId,
+        batchNo: batchEvent.batchNo,
+        productName: batchEvent.productName,
+        startTimestamp: batchEvent.startTimestamp,
+        endTimestamp: batchEvent.endTimestamp,
+        excludeId: batchEvent.id
+      });
+      if (changeoverService.blockingMessage(changeovers, input.autoCleaning)) {
+        throw new ChangeoverRequiredError(changeovers);
+      }
+      await changeoverService.insertCleaning(tx, req, changeovers);
+    }
+
+    for (const { rm, plannedQuantity } of input.plannedMaterials) {
+      const target = created.find((event, index) => bookings[index].step.stepNumber === rm.stepNumber) || created[0];
+
+      const line = await tx.batchMaterial.create({
+        data: {
+          batchEventId: target.id,
+          materialId: rm.materialId,
+          plannedQuantity
+        }
+      });
+      await auditService.record(tx, req, { entityType: 'batch_material', entityId: line.id, action: 'create', after: line });
+    }
+
+    return tx.batchEvent.findMany({
+      where: { id: { in: created.map(event => event.id) } },
+      include: {
+        equipment: { select: { id: true, name: true } },
+        materials: {
+          include: { material: { select: { id: true, name: true, unit: true } } }
+        }
+      },
+      orderBy: { startTimestamp: 'asc' }
+    });
+  },
+
+  // Finite-capacity proposal for a set of batch orders. Orders are placed most urgent first
+  // (priority, then due date), each at the earliest time every step's equipment is free of
+  // existing batches, maintenance, earlier orders in the proposal and changeover time.
+  // Nothing is saved.
+  async optimize(db: Db, orders: BatchOrder[], options: OptimizeOptions) {
+    const startFrom = options.startFrom.getTime();
+    const horizonEnd = startFrom + options.horizonDays * DAY_MS;
+
+    const recipeIds = Array.from(new Set(orders.map(order => order.recipeId)));
+    const recipes = new Map<number, SchedulableRecipe>();
+    for (const id of recipeIds) {
+      const recipe = await schedulerService.loadRecipe(db, id);
+      if (recipe) recipes.set(id, recipe);
+    }
+
+    const equipmentIds = Array.from(new Set(
+      Array.from(recipes.values()).flatMap(recipe => recipe.steps.map(step => step.equipmentId).filter((id): id is number => !!id))
+    ));
+
+    const [equipment, batches, maintenance] = await Promise.all([
+      db.equipment.findMany({ where: { id: { in: equipmentIds } }, select: { id: true, name: true, status: true } }),
+      db.batchEvent.findMany({
+        where: { equipmentId: { in: equipmentIds }, endTimestamp: { gt: new Date(startFrom) }, status: { not: 'cancelled' } },
+        select: { equipmentId: true, productName: true, startTimestamp: true, endTimestamp: true }
+      }),
+      db.maintenanceEvent.findMany({
+        where: { equipmentId: { in: equipmentIds }, endTimestamp: { gt: new Date(startFrom) } },
+        select: { equipmentId: true, startTimestamp: true, endTimestamp: true }
+      })
+    ]);
+
+    // The last batch on each piece of equipment before the window, so the first proposal on it allows for cleaning
+    const lastBefore = await Promise.all(equipmentIds.map(equipmentId => db.batchEvent.findFirst({
+      where: { equipmentId, endTimestamp: { lte: new Date(startFrom) }, status: { not: 'cancelled' } },
+      select: { equipmentId: true, productName: true, startTimestamp: true, endTimestamp: true },
+      orderBy: { endTimestamp: 'desc' }
+    })));
+
+    const rules = await changeoverService.loadRules(db, equipmentIds);
+    const equipmentById = new Map(equipment.map(item => [item.id, item]));
+    const slots: Slot[] = [
+      ...[...batches, ...lastBefore.filter((b): b is NonNullable<typeof b> => !!b)].map(b => ({ equipmentId: b.equipmentId, start: b.startTimestamp.getTime(), end: b.endTimestamp.getTime(), product: b.productName })),
+      ...maintenance.map(m => ({ equipmentId: m.equipmentId, start: m.startTimestamp.getTime(), end: m.endTimestamp.getTime(), product: null }))
+    ];
+
+    const queue = orders
+      .map((order, orderIndex) => ({ order, orderIndex }))
+      .sort((a, b) =>
+        a.order.priority - b.order.priority ||
+        a.order.dueDate.getTime() - b.order.dueDate.getTime() ||
+        a.orderIndex - b.orderIndex);
+
+    const scheduled: ProposedBatch[] = [];
+    const unscheduled: UnscheduledOrder[] = [];
+
+    for (const { order, orderIndex } of queue) {
+      const skip = (reason: string) => unscheduled.push({ orderIndex, batchNo: order.batchNo, reason });
+
+      const recipe = recipes.get(order.recipeId);
+      if (!recipe) {
+        skip(`Recipe ${order.recipeId} not found`);
+        continue;
+      }
+
+      const problem = schedulerService.recipeProblem(recipe);
+      if (problem) {
+        skip(problem.error);
+        continue;
+      }
+
+      let plan: ReturnType<typeof schedulerService.planMaterials>;
+      try {
+        plan = schedulerService.planMaterials(recipe, order.batchSize, order.batchSizeUnit);
+      } catch (error) {
+        if (!(error instanceof UnitConversionError)) throw error;
+        skip(error.message);
+        continue;
+      }
+
+      const template = schedulerService.layoutSteps(recipe, new Date(0));
+      const unavailable = template
+        .map(booking => equipmentById.get(booking.step.equipmentId!))
+        .find(item => item && availabilityService.isUnavailable(item.status));
+      if (unavailable) {
+        skip(`Equipment "${unavailable.name}" is ${unavailable.status}`);
+        continue;
+      }
+
+      const issues = await schedulerService.checkBookings(db, recipe, template, plan.batchSize, plan.batchSizeUnit);
+      const blocking = equipmentCheckService.blockingMessage(issues);
+      if (blocking) {
+        skip(blocking);
+        continue;
+      }
+
+      const productName = order.productName || recipe.product;
+      const earliest = Math.max(startFrom, order.earliestStart?.getTime() ?? startFrom);
+      const start = findStart(template, productName, slots, rules, earliest, horizonEnd);
+      if (start === null) {
+        skip(`No free slot on the recipe's equipment within ${options.horizonDays} days`);
+        continue;
+      }
+
+      const bookings = schedulerService.layoutSteps(recipe, new Date(start));
+      slots.push(...bookings.map(booking => ({
+        equipmentId: booking.step.equipmentId!,
+        start: booking.startTimestamp.getTime(),
+        end: booking.endTimestamp.getTime(),
+        product: productName
+      })));
+
+      const endTimestamp = bookings[bookings.length - 1].endTimestamp;
+      scheduled.push({
+        orderIndex,
+        recipeId: recipe.id,
+        recipeName: recipe.name,
+        batchNo: order.batchNo,
+        productName,
+        batchSize: order.batchSize,
+        batchSizeUnit: order.batchSizeUnit || recipe.yieldUnit || null,
+        priority: order.priority,
+        dueDate: order.dueDate,
+        startTimestamp: bookings[0].startTimestamp,
+        endTimestamp,
+        lateMinutes: Math.max(0, Math.ceil((endTimestamp.getTime() - order.dueDate.getTime()) / MINUTE_MS)),
+        bookings: bookings.map(booking => ({
+          stepNumber: booking.step.stepNumber,
+          stepName: booking.step.name,
+          equipmentId: booking.step.equipmentId!,
+          equipmentName: booking.step.equipment?.name || equipmentById.get(booking.step.equipmentId!)!.name,
+          startTimestamp: booking.startTimestamp,
+          endTimestamp: booking.endTimestamp
+        })),
+        warnings: issues
+      });
+    }
+
+    return {
+      startFrom: new Date(startFrom),
+      horizonEnd: new Date(horizonEnd),
+      summary: {
+        orders: orders.length,
+        scheduled: scheduled.length,
+        unscheduled: unscheduled.length,
+        late: scheduled.filter(batch => batch.lateMinutes > 0).length
+      },
+      scheduled,
+      unscheduled
+    };
+  }
+};
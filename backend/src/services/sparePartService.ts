@@ -0,0 +1,241 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth';
+import { auditService } from './auditService';
+import emailService from './emailService';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface PartLine {
+  sparePartId: number;
+  quantity: number;
+}
+
+export interface PartShortage {
+  sparePartId: number;
+  partNumber: string;
+  name: string;
+  unit: string;
+  required: number;
+  available: number;
+}
+
+export interface StockLevel {
+  onHand: number;
+  reserved: number; // Held by maintenance events that haven't been completed
+  available: number;
+  reorderPoint: number;
+}
+
+// Thrown inside a transaction so nothing is reserved or consumed when one part is short
+export class InsufficientPartsError extends Error {
+  constructor(public shortages: PartShortage[]) {
+    super('Insufficient spare parts');
+  }
+}
+
+// Thrown for a part that is listed for other equipment only
+export class PartNotFittedError extends Error { }
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const sparePartService = {
+  // On-hand, reserved and available stock per part
+  async stockLevels(db: Db, sparePartIds: number[]): Promise<Map<number, StockLevel>> {
+    const [parts, reservations] = await Promise.all([
+      db.sparePart.findMany({
+        where: { id: { in: sparePartIds } },
+        select: { id: true, quantityOnHand: true, reorderPoint: true }
+      }),
+      db.maintenancePart.findMany({
+        where: { sparePartId: { in: sparePartIds }, consumedQuantity: null },
+        select: { sparePartId: true, quantity: true }
+      })
+    ]);
+
+    const levels = new Map<number, StockLevel>();
+    for (const part of parts) {
+      const reserved = round(reservations
+        .filter(r => r.sparePartId === part.id)
+        .reduce((sum, r) => sum + Number(r.quantity), 0));
+      levels.set(part.id, {
+        onHand: Number(part.quantityOnHand),
+        reserved,
+        available: round(Number(part.quantityOnHand) - reserved),
+        reorderPoint: Number(part.reorderPoint)
+      });
+    }
+    return levels;
+  },
+
+  // Parts whose available stock has fallen to or below the reorder point since `before` was taken
+  async crossedReorderPoint(db: Db, before: Map<number, StockLevel>): Promise<number[]> {
+    const after = await sparePartService.stockLevels(db, Array.from(before.keys()));
+    return Array.from(after.entries())
+      .filter(([id, level]) => {
+        const previous = before.get(id);
+        return level.available <= level.reorderPoint && (!previous || previous.available > previous.reorderPoint);
+      })
+      .map(([id]) => id);
+  },
+
+  // Replace the parts reserved for a maintenance event. Each part must fit the event's equipment
+  // and have enough stock that isn't already reserved elsewhere.
+  async reserve(tx: Prisma.TransactionClient, req: AuthRequest, event: { id: number; equipmentId: number }, lines: PartLine[]) {
+    const existing = await tx.maintenancePart.findMany({ where: { maintenanceEventId: event.id } });
+    for (const line of existing) {
+      await tx.maintenancePart.delete({ where: { id: line.id } });
+      await auditService.record(tx, req, { entityType: 'maintenance_part', entityId: line.id, action: 'delete', before: line });
+    }
+
+    // The same part listed twice is one reservation
+    const totals = new Map<number, number>();
+    for (const line of lines) {
+      totals.set(line.sparePartId, round((totals.get(line.sparePartId) || 0) + line.quantity));
+    }
+    if (totals.size === 0) {
+      return [];
+    }
+
+    const ids = Array.from(totals.keys()).sort((a, b) => a - b);
+    // Lock the parts' rows until commit, so a concurrent reservation or consumption of the same parts waits
+    // for this one and then sees its reservations
+    await tx.sparePart.updateMany({ where: { id: { in: ids } }, data: { quantityOnHand: { increment: 0 } } });
+    const parts = await tx.sparePart.findMany({ where: { id: { in: ids } }, include: { fits: true } });
+    const levels = await sparePartService.stockLevels(tx, ids);
+
+    const shortages: PartShortage[] = [];
+    for (const id of ids) {
+      const part = parts.find(p => p.id === id);
+      if (!part) {
+        throw new PartNotFittedError(`Spare part ${id} not found`);
+      }
+      if (part.fits.length > 0 && !part.fits.some(f => f.equipmentId === event.equipmentId)) {
+        throw new PartNotFittedError(`${part.partNumber} (${part.name}) does not fit this equipment`);
+      }
+      const available = levels.get(id)?.available ?? 0;
+      if (available < totals.get(id)!) {
+        shortages.push({ sparePartId: id, partNumber: part.partNumber, name: part.name, unit: part.unit, required: totals.get(id)!, available });
+      }
+    }
+    if (shortages.length > 0) {
+      throw new InsufficientPartsError(shortages);
+    }
+
+    const created = [];
+    for (const [sparePartId, quantity] of Array.from(totals.entries())) {
+      const line = await tx.maintenancePart.create({ data: { maintenanceEventId: event.id, sparePartId, quantity } });
+      await auditService.record(tx, req, { entityType: 'maintenance_part', entityId: line.id, action: 'create', after: line });
+      created.push(line);
+    }
+    return created;
+  },
+
+  // Take a completed maintenance event's reserved parts out of stock
+  async consume(tx: Prisma.TransactionClient, req: AuthRequest, maintenanceEventId: number) {
+    const lines = await tx.maintenancePart.findMany({
+      where: { maintenanceEventId, consumedQuantity: null },
+      include: { sparePart: true },
+      orderBy: { sparePartId: 'asc' }
+    });
+
+    const shortages: PartShortage[] = [];
+    const transactions = [];
+    for (const line of lines) {
+      const { sparePart, ...before } = line;
+      const quantity = Number(line.quantity);
+
+      // Claim the line first, so a concurrent completion of the same event can't draw its parts again
+      const claimed = await tx.maintenancePart.updateMany({
+        where: { id: line.id, consumedQuantity: null },
+        data: { consumedQuantity: line.quantity }
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+      const consumed = await tx.maintenancePart.findUniqueOrThrow({ where: { id: line.id } });
+      await auditService.record(tx, req, { entityType: 'maintenance_part', entityId: line.id, action: 'update', before, after: consumed });
+
+      // Guarded decrement, so a concurrent withdrawal can't take the part below zero
+      const taken = await tx.sparePart.updateMany({
+        where: { id: line.sparePartId, quantityOnHand: { gte: quantity } },
+        data: { quantityOnHand: { decrement: quantity } }
+      });
+      const part = await tx.sparePart.findUniqueOrThrow({ where: { id: line.sparePartId } });
+      if (taken.count === 0) {
+        shortages.push({
+          sparePartId: part.id,
+          partNumber: part.partNumber,
+          name: part.name,
+          unit: part.unit,
+          required: quantity,
+          available: Number(part.quantityOnHand)
+        });
+        continue;
+      }
+      await auditService.record(tx, req, {
+        entityType: 'spare_part',
+        entityId: part.id,
+        action: 'update',
+        before: { ...part, quantityOnHand: round(Number(part.quantityOnHand) + quantity) },
+        after: part
+      });
+
+      const transaction = await tx.sparePartTransaction.create({
+        data: {
+          sparePartId: line.sparePartId,
+          maintenanceEventId,
+          transactionType: 'consumed',
+          quantity: line.quantity,
+          remainingBalance: part.quantityOnHand
+        }
+      });
+      await auditService.record(tx, req, { entityType: 'spare_part_transaction', entityId: transaction.id, action: 'create', after: transaction });
+      transactions.push(transaction);
+    }
+
+    // Thrown after every line is tried so all the short parts are reported; the transaction rolls back
+    if (shortages.length > 0) {
+      throw new InsufficientPartsError(shortages);
+    }
+    return transactions;
+  },
+
+  // Email admins and planners about parts at or below their reorder point and record `low_inventory` notifications
+  async notifyLowStock(db: PrismaClient, sparePartIds: number[]) {
+    if (sparePartIds.length === 0) {
+      return;
+    }
+
+    try {
+      const [parts, levels, users] = await Promise.all([
+        db.sparePart.findMany({ where: { id: { in: sparePartIds } } }),
+        sparePartService.stockLevels(db, sparePartIds),
+        db.user.findMany({ where: { role: { in: ['admin', 'planner'] } }, select: { id: true, email: true } })
+      ]);
+
+      for (const part of parts) {
+        const level = levels.get(part.id)!;
+        const message = `Spare part ${part.partNumber} (${part.name}) is low: ${level.available} ${part.unit} available, reorder point ${level.reorderPoint}`;
+        const success = await emailService.sendEmail({
+          to: users.map(u => u.email),
+          subject: `Low Stock: ${part.partNumber} ${part.name}`,
+          text: `${message}.${part.reorderQuantity ? ` Suggested order: ${Number(part.reorderQuantity)} ${part.unit}${part.supplier ? ` from ${part.supplier}` : ''}.` : ''}`
+        });
+
+        if (success) {
+          await db.notification.createMany({
+            data: users.map(user => ({
+              userId: user.id,
+              sparePartId: part.id,
+              type: 'low_inventory' as const,
+              sentTimestamp: new Date(),
+              message
+            }))
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Error sending low stock notifications:', error);
+    }
+  }
+};
@@ -0,0 +1,210 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface TelemetrySample {
+  timestamp: Date;
+  data: Record<string, number>;
+}
+
+export interface MetricStats {
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+}
+
+export interface TelemetryBucket {
+  bucketStart: Date;
+  bucketEnd: Date;
+  metrics: Record<string, MetricStats>;
+}
+
+interface BucketRow {
+  bucket: number;
+  metric: string;
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+}
+
+export interface TelemetrySummary {
+  sampleCount: number;
+  from: Date | null;
+  to: Date | null;
+  metrics: Record<string, MetricStats>;
+}
+
+export interface ParsedSample extends TelemetrySample {
+  row: number;
+}
+
+export interface SampleParseResult {
+  samples: ParsedSample[];
+  errors: { row: number; error: string }[];
+}
+
+// Coerce a raw sensor payload into numeric readings, dropping anything non-numeric
+const toReadings = (raw: Record<string, unknown>): Record<string, number> => {
+  const readings: Record<string, number> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (value === null || value === undefined || value === '') continue;
+    const num = typeof value === 'number' ? value : Number(value);
+    if (Number.isFinite(num)) {
+      readings[key] = num;
+    }
+  }
+  return readings;
+};
+
+export const telemetryService = {
+  // Parse JSON samples of the form { timestamp, data: { temp, ph, ... } } or flat { timestamp, temp, ph, ... }
+  parseJsonSamples(items: any[]): SampleParseResult {
+    const samples: ParsedSample[] = [];
+    const errors: { row: number; error: string }[] = [];
+
+    items.forEach((item, index) => {
+      if (!item || typeof item !== 'object') {
+        errors.push({ row: index, error: 'Sample must be an object' });
+        return;
+      }
+
+      const timestamp = new Date(item.timestamp);
+      if (!item.timestamp || isNaN(timestamp.getTime())) {
+        errors.push({ row: index, error: 'Invalid or missing timestamp' });
+        return;
+      }
+
+      const { timestamp: _ts, data, ...rest } = item;
+      const readings = toReadings(data && typeof data === 'object' ? data : rest);
+
+      if (Object.keys(readings).length === 0) {
+        errors.push({ row: index, error: 'Sample has no numeric readings' });
+        return;
+      }
+
+      samples.push({ row: index, timestamp, data: readings });
+    });
+
+    return { samples, errors };
+  },
+
+  // Parse CSV with a header row; a "timestamp" column is required, every other column is a metric
+  parseCsvSamples(csv: string): SampleParseResult {
+    const samples: ParsedSample[] = [];
+    const errors: { row: number; error: string }[] = [];
+
+    const lines = csv.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length === 0) {
+      return { samples, errors: [{ row: 0, error: 'CSV is empty' }] };
+    }
+
+    const headers = lines[0].split(',').map(h => h.trim());
+    const timestampIndex = headers.findIndex(h => h.toLowerCase() === 'timestamp');
+    if (timestampIndex === -1) {
+      return { samples, errors: [{ row: 1, error: 'CSV header must include a "timestamp" column' }] };
+    }
+
+    lines.slice(1).forEach((line, index) => {
+      const rowNumber = index + 2; // 1-based, after the header
+      const cells = line.split(',').map(c => c.trim());
+
+      const timestamp = new Date(cells[timestampIndex]);
+      if (isNaN(timestamp.getTime())) {
+        errors.push({ row: rowNumber, error: 'Invalid timestamp' });
+        return;
+      }
+
+      const raw: Record<string, unknown> = {};
+      headers.forEach((header, i) => {
+        if (i !== timestampIndex && header) raw[header] = cells[i];
+      });
+      const readings = toReadings(raw);
+
+      if (Object.keys(readings).length === 0) {
+        errors.push({ row: rowNumber, error: 'Row has no numeric readings' });
+        return;
+      }
+
+      samples.push({ row: rowNumber, timestamp, data: readings });
+    });
+
+    return { samples, errors };
+  },
+
+  // Aggregate a batch's readings into fixed-width buckets with min/max/avg per metric. The bucketing runs in
+  // the database so a long batch's readings never have to be loaded into memory.
+  async downsample(
+    db: Db,
+    batchEventId: number,
+    from: Date,
+    to: Date,
+    bucketMs: number,
+    metrics?: string[]
+  ): Promise<TelemetryBucket[]> {
+    const rows = await db.$queryRaw<BucketRow[]>`
+      SELECT floor(extract(epoch from (t."timestamp" - ${from}::timestamptz)) * 1000 / ${bucketMs})::int AS bucket,
+             kv.key AS metric,
+             min((kv.value #>> '{}')::float8) AS min,
+             max((kv.value #>> '{}')::float8) AS max,
+             avg((kv.value #>> '{}')::float8) AS avg,
+             count(*)::int AS count
+      FROM batch_telemetry t, jsonb_each(t.data) kv
+      WHERE t.batch_event_id = ${batchEventId}
+        AND t."timestamp" >= ${from}::timestamptz
+        AND t."timestamp" <= ${to}::timestamptz
+        AND jsonb_typeof(kv.value) = 'number'
+        ${metrics ? Prisma.sql`AND kv.key IN (${Prisma.join(metrics)})` : Prisma.empty}
+      GROUP BY bucket, metric
+      ORDER BY bucket, metric`;
+
+    const buckets: TelemetryBucket[] = [];
+    for (const row of rows) {
+      let bucket = buckets[buckets.length - 1];
+      const bucketStart = new Date(from.getTime() + row.bucket * bucketMs);
+      if (!bucket || bucket.bucketStart.getTime() !== bucketStart.getTime()) {
+        bucket = { bucketStart, bucketEnd: new Date(bucketStart.getTime() + bucketMs), metrics: {} };
+        buckets.push(bucket);
+      }
+      bucket.metrics[row.metric] = { min: row.min, max: row.max, avg: row.avg, count: row.count };
+    }
+
+    return buckets;
+  },
+
+  // A batch's sample count and time span, with overall min/max/avg per metric, aggregated in the database
+  async summarize(db: Db, batchEventId: number): Promise<TelemetrySummary> {
+    const [span, rows] = await Promise.all([
+      db.batchTelemetry.aggregate({
+        where: { batchEventId },
+        _count: true,
+        _min: { timestamp: true },
+        _max: { timestamp: true }
+      }),
+      db.$queryRaw<Omit<BucketRow, 'bucket'>[]>`
+        SELECT kv.key AS metric,
+               min((kv.value #>> '{}')::float8) AS min,
+               max((kv.value #>> '{}')::float8) AS max,
+               avg((kv.value #>> '{}')::float8) AS avg,
+               count(*)::int AS count
+        FROM batch_telemetry t, jsonb_each(t.data) kv
+        WHERE t.batch_event_id = ${batchEventId}
+          AND jsonb_typeof(kv.value) = 'number'
+        GROUP BY metric
+        ORDER BY metric`
+    ]);
+
+    const metrics: Record<string, MetricStats> = {};
+    for (const row of rows) {
+      metrics[row.metric] = { min: row.min, max: row.max, avg: row.avg, count: row.count };
+    }
+
+    return {
+      sampleCount: span._count,
+      from: span._min.timestamp,
+      to: span._max.timestamp,
+      metrics
+    };
+  }
+};
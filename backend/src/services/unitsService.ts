@@ -0,0 +1,124 @@
+export type UnitDimension = 'mass' | 'volume' | 'temperature' | 'pressure';
+
+interface UnitDefinition {
+  symbol: string;
+  dimension: UnitDimension;
+  factor: number; // Multiplier to the dimension's base unit (kg, L, bar); unused for temperature
+  aliases: string[];
+}
+
+const UNITS: UnitDefinition[] = [
+  { symbol: 'mg', dimension: 'mass', factor: 1e-6, aliases: ['milligram', 'milligrams'] },
+  { symbol: 'g', dimension: 'mass', factor: 1e-3, aliases: ['gram', 'grams', 'gm'] },
+  { symbol: 'kg', dimension: 'mass', factor: 1, aliases: ['kgs', 'kilo', 'kilogram', 'kilograms'] },
+  { symbol: 't', dimension: 'mass', factor: 1000, aliases: ['tonne', 'tonnes', 'mt', 'metric ton'] },
+  { symbol: 'oz', dimension: 'mass', factor: 0.028349523125, aliases: ['ounce', 'ounces'] },
+  { symbol: 'lb', dimension: 'mass', factor: 0.45359237, aliases: ['lbs', 'pound', 'pounds'] },
+
+  { symbol: 'mL', dimension: 'volume', factor: 1e-3, aliases: ['ml', 'milliliter', 'millilitre', 'milliliters', 'millilitres', 'cc', 'cm3'] },
+  { symbol: 'L', dimension: 'volume', factor: 1, aliases: ['l', 'liter', 'litre', 'liters', 'litres', 'dm3'] },
+  { symbol: 'm3', dimension: 'volume', factor: 1000, aliases: ['m³', 'cubic meter', 'cubic metre', 'cbm'] },
+  { symbol: 'gal', dimension: 'volume', factor: 3.785411784, aliases: ['gallon', 'gallons', 'us gal'] },
+
+  { symbol: 'C', dimension: 'temperature', factor: 1, aliases: ['°c', 'degc', 'celsius', 'deg c'] },
+  { symbol: 'F', dimension: 'temperature', factor: 1, aliases: ['°f', 'degf', 'fahrenheit', 'deg f'] },
+  { symbol: 'K', dimension: 'temperature', factor: 1, aliases: ['kelvin'] },
+
+  { symbol: 'Pa', dimension: 'pressure', factor: 1e-5, aliases: ['pascal'] },
+  { symbol: 'kPa', dimension: 'pressure', factor: 1e-2, aliases: ['kilopascal'] },
+  { symbol: 'MPa', dimension: 'pressure', factor: 10, aliases: ['megapascal'] },
+  { symbol: 'mbar', dimension: 'pressure', factor: 1e-3, aliases: ['millibar'] },
+  { symbol: 'bar', dimension: 'pressure', factor: 1, aliases: ['bara', 'barg'] },
+  { symbol: 'atm', dimension: 'pressure', factor: 1.01325, aliases: ['atmosphere', 'atmospheres'] },
+  { symbol: 'psi', dimension: 'pressure', factor: 0.0689475729, aliases: ['psia', 'psig', 'lbf/in2'] },
+  { symbol: 'mmHg', dimension: 'pressure', factor: 0.00133322387, aliases: ['torr'] }
+];
+
+// Lookup by lower-cased symbol or alias
+const lookup = new Map<string, UnitDefinition>();
+for (const unit of UNITS) {
+  lookup.set(unit.symbol.toLowerCase(), unit);
+  for (const alias of unit.aliases) {
+    lookup.set(alias, unit);
+  }
+}
+
+// Thrown when a quantity can't be expressed in the requested unit
+export class UnitConversionError extends Error { }
+
+const toKelvin = (value: number, unit: string) =>
+  unit === 'C' ? value + 273.15 : unit === 'F' ? (value - 32) * 5 / 9 + 273.15 : value;
+
+const fromKelvin = (value: number, unit: string) =>
+  unit === 'C' ? value - 273.15 : unit === 'F' ? (value - 273.15) * 9 / 5 + 32 : value;
+
+export const unitsService = {
+  // Canonical definition for a free-text unit, or null if it isn't recognised
+  find(unit: string | null | undefined): UnitDefinition | null {
+    if (!unit) return null;
+    return lookup.get(unit.trim().toLowerCase()) || null;
+  },
+
+  dimensionOf(unit: string | null | undefined): UnitDimension | null {
+    return unitsService.find(unit)?.dimension ?? null;
+  },
+
+  // Convert between units of the same dimension, or between mass and volume given a
+  // density in kg/L (numerically the same as g/mL)
+  convert(value: number, from: string, to: string, density?: number | null): number {
+    // Same text is always the same unit, including ones we don't know (e.g. "units", "drums")
+    if (from.trim().toLowerCase() === to.trim().toLowerCase()) {
+      return value;
+    }
+
+    const source = unitsService.find(from);
+    const target = unitsService.find(to);
+
+    if (!source) throw new UnitConversionError(`Unknown unit "${from}"`);
+    if (!target) throw new UnitConversionError(`Unknown unit "${to}"`);
+
+    if (source.dimension === 'temperature' || target.dimension === 'temperature') {
+      if (source.dimension !== target.dimension) {
+        throw new UnitConversionError(`Cannot convert ${source.dimension} (${source.symbol}) to ${target.dimension} (${target.symbol})`);
+      }
+      return fromKelvin(toKelvin(value, source.symbol), target.symbol);
+    }
+
+    const base = value * source.factor;
+
+    if (source.dimension === target.dimension) {
+      return base / target.factor;
+    }
+
+    const massVolume = [source.dimension, target.dimension].sort().join('/') === 'mass/volume';
+    if (!massVolume) {
+      throw new UnitConversionError(`Cannot convert ${source.dimension} (${source.symbol}) to ${target.dimension} (${target.symbol})`);
+    }
+    if (!density || density <= 0) {
+      throw new UnitConversionError(`A density is needed to convert ${source.symbol} to ${target.symbol}`);
+    }
+
+    // Base units are kg and L, so density in kg/L converts directly
+    const converted = source.dimension === 'mass' ? base / density : base * density;
+    return converted / target.factor;
+  },
+
+  // Whether convert() would succeed, without throwing
+  canConvert(from: string, to: string, density?: number | null): boolean {
+    try {
+      unitsService.convert(1, from, to, density);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  // Supported units grouped by dimension, for pickers
+  list(): Record<UnitDimension, string[]> {
+    const grouped: Record<UnitDimension, string[]> = { mass: [], volume: [], temperature: [], pressure: [] };
+    for (const unit of UNITS) {
+      grouped[unit.dimension].push(unit.symbol);
+    }
+    return grouped;
+  }
+};
@@ -2,11 +2,15 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider } from './contexts/AuthContext';
+import { ProtectedRoute } from './components/ProtectedRoute';
+import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import Equipment from './pages/Equipment';
 import Progress from './pages/Progress';
 import Users from './pages/Users';
 import Inventory from './pages/Inventory';
+import SpareParts from './pages/SpareParts';
+import Recipes from './pages/Recipes';
 import './App.css';
 
 function App() {
@@ -16,11 +20,14 @@ function App() {
         <div className="App">
           <Toaster position="top-right" />
           <Routes>
-            <Route path="/" element={<Dashboard />} />
-            <Route path="/progress" element={<Progress />} />
-            <Route path="/equipment" element={<Equipment />} />
-            <Route path="/inventory" element={<Inventory />} />
-            <Route path="/users" element={<Users />} />
+            <Route path="/login" element={<Login />} />
+            <Route path="/" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
+            <Route path="/progress" element={<ProtectedRoute><Progress /></ProtectedRoute>} />
+            <Route path="/equipment" element={<ProtectedRoute><Equipment /></ProtectedRoute>} />
+            <Route path="/inventory" element={<ProtectedRoute><Inventory /></ProtectedRoute>} />
+            <Route path="/spare-parts" element={<ProtectedRoute><SpareParts /></ProtectedRoute>} />
+            <Route path="/recipes" element={<ProtectedRoute><Recipes /></ProtectedRoute>} />
+            <Route path="/users" element={<ProtectedRoute roles={['admin']}><Users /></ProtectedRoute>} />
           </Routes>
         </div>
       </Router>
@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { format, subDays } from 'date-fns';
+import { ChartBarIcon, TableCellsIcon } from '@heroicons/react/24/outline';
+import Modal from './Modal';
+
+// Reason codes a late start or overrun can be tagged with
+export const delayReasonLabels: Record<string, string> = {
+  breakdown: 'Breakdown',
+  material_shortage: 'Material shortage',
+  staffing: 'Staffing',
+  quality_hold: 'Quality hold',
+  changeover: 'Changeover',
+  upstream_delay: 'Upstream delay',
+  other: 'Other'
+};
+
+const reasonLabel = (reason: string) => reason === 'untagged' ? 'Untagged' : delayReasonLabels[reason] || reason;
+
+interface AdherenceGroup {
+  key: string;
+  label: string;
+  events: number;
+  onTime: number;
+  lateStarts: number;
+  overruns: number;
+  earlyFinishes: number;
+  lateStartMinutes: number;
+  overrunMinutes: number;
+  reasons: Record<string, number>;
+}
+
+interface AdherenceEvent {
+  type: 'batch' | 'maintenance';
+  id: number;
+  label: string;
+  equipment: { id: number; name: string };
+  startTimestamp: string;
+  startDelayMinutes: number;
+  overrunMinutes: number | null;
+  lateStart: boolean;
+  overrun: boolean;
+  delayReason: string | null;
+  delayNotes: string | null;
+}
+
+interface Report {
+  toleranceMinutes: number;
+  totals: AdherenceGroup;
+  byEquipment: AdherenceGroup[];
+  byProduct: AdherenceGroup[];
+  byWeek: AdherenceGroup[];
+  byReason: Array<{ reason: string; events: number; delayMinutes: number }>;
+  events: AdherenceEvent[];
+}
+
+type Grouping = 'byEquipment' | 'byProduct' | 'byWeek';
+
+const groupings: Array<[Grouping, string]> = [
+  ['byEquipment', 'EQUIPMENT'],
+  ['byProduct', 'PRODUCT'],
+  ['byWeek', 'WEEK']
+];
+
+const inputClass = 'w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm';
+
+const formatMinutes = (minutes: number) => minutes < 120 ? `${minutes} min` : `${(minutes / 60).toFixed(1)} h`;
+
+const AdherenceReport: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 28), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [grouping, setGrouping] = useState<Grouping>('byEquipment');
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // The end date is inclusive
+  const rangeParams = useCallback(() => ({
+    start: new Date(startDate).toISOString(),
+    end: new Date(new Date(endDate).getTime() + 24 * 60 * 60 * 1000).toISOString()
+  }), [startDate, endDate]);
+
+  useEffect(() => {
+    if (!isOpen || !startDate || !endDate) return;
+    setLoading(true);
+    axios.get('/analytics/adherence', { params: rangeParams() })
+      .then(response => setReport(response.data))
+      .catch(error => {
+        console.error('Error fetching adherence report:', error);
+        toast.error(error.response?.data?.error || 'Failed to load adherence report');
+      })
+      .finally(() => setLoading(false));
+  }, [isOpen, startDate, endDate, rangeParams]);
+
+  const handleExport = async () => {
+    try {
+      const { start, end } = rangeParams();
+      const response = await axios.get('/export/adherence.xlsx', {
+        params: { startDate: start, endDate: end },
+        responseType: 'blob'
+      });
+
+      const url = window.URL.createObjectURL(new Blob([response.data]));
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', `schedule_adherence_${startDate}_${endDate}.xlsx`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+
+      toast.success('Adherence report downloaded successfully');
+    } catch (error) {
+      console.error('Error exporting adherence report:', error);
+      toast.error('Failed to export adherence report');
+    }
+  };
+
+  const delayedEvents = report ? report.events.filter(e => e.lateStart || e.overrun) : [];
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        title="Late starts, overruns and early finishes against the plan"
+      >
+        <ChartBarIcon className="h-4 w-4 mr-2" />
+        Adherence
+      </button>
+
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title="SCHEDULE ADHERENCE" size="4xl">
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">From</label>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">To</label>
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={!report}
+              className="inline-flex items-center justify-center px-4 py-2 bg-white/10 text-white border border-white/50 rounded-sm hover:bg-white/20 font-tech text-sm tracking-wider font-bold disabled:opacity-50"
+            >
+              <TableCellsIcon className="h-4 w-4 mr-2" />
+              EXPORT EXCEL
+            </button>
+          </div>
+
+          {loading && !report ? (
+            <p className="text-xs text-gray-500 font-mono">LOADING...</p>
+          ) : report && (
+            <>
+              <p className="text-xs text-gray-400 font-mono">
+                {report.totals.events} events with actual times: {report.totals.onTime} on time, {report.totals.lateStarts} late starts ({formatMinutes(report.totals.lateStartMinutes)}),
+                {' '}{report.totals.overruns} overruns ({formatMinutes(report.totals.overrunMinutes)}), {report.totals.earlyFinishes} early finishes.
+                {' '}Events within {report.toleranceMinutes} min of plan count as on time.
+              </p>
+
+              <div className="flex gap-2">
+                {groupings.map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => setGrouping(key)}
+                    className={`px-3 py-1 text-xs font-bold tracking-wider font-tech rounded-sm border ${grouping === key
+                      ? 'bg-white/20 border-white text-white'
+                      : 'bg-gray-900/50 border-gray-700 text-gray-400 hover:border-white/50 hover:text-white'
+                      }`}
+                  >
+                    BY {label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="max-h-[30vh] overflow-y-auto custom-scrollbar border border-white/10 rounded-sm">
+                <table className="min-w-full divide-y divide-white/10">
+                  <thead className="bg-white/5">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Group</th>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Events</th>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">On Time</th>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Late Starts</th>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Overruns</th>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Early</th>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Reasons</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/10 bg-black/30">
+                    {report[grouping].length === 0 ? (
+                      <tr><td colSpan={7} className="px-3 py-4 text-center text-xs text-gray-500 font-mono">NO EVENTS WITH ACTUAL TIMES</td></tr>
+                    ) : report[grouping].map(group => (
+                      <tr key={group.key}>
+                        <td className="px-3 py-2 text-xs text-white font-mono">{group.label}</td>
+                        <td className="px-3 py-2 text-xs text-gray-300 font-mono">{group.events}</td>
+                        <td className="px-3 py-2 text-xs text-green-300 font-mono">{group.onTime}</td>
+                        <td className="px-3 py-2 text-xs text-gray-300 font-mono">
+                          {group.lateStarts}{group.lateStarts > 0 && <span className="text-gray-500"> ({formatMinutes(group.lateStartMinutes)})</span>}
+                        </td>
+                        <td className="px-3 py-2 text-xs text-gray-300 font-mono">
+                          {group.overruns}{group.overruns > 0 && <span className="text-gray-500"> ({formatMinutes(group.overrunMinutes)})</span>}
+                        </td>
+                        <td className="px-3 py-2 text-xs text-gray-300 font-mono">{group.earlyFinishes}</td>
+                        <td className="px-3 py-2 text-xs text-gray-400">
+                          {Object.entries(group.reasons).map(([reason, count]) => `${reasonLabel(reason)} ${count}`).join(', ') || '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {report.byReason.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-bold text-white font-tech uppercase tracking-wider mb-2">Delay Reasons</h4>
+                  <div className="grid grid-cols-4 gap-2">
+                    {report.byReason.map(row => (
+                      <div key={row.reason} className="p-2 bg-white/5 rounded-sm border border-white/5">
+                        <span className="text-[10px] text-gray-500 block uppercase">{reasonLabel(row.reason)}</span>
+                        <span className="text-sm font-bold text-white font-mono">{row.events}</span>
+                        <span className="text-[10px] text-gray-400 font-mono ml-2">{formatMinutes(row.delayMinutes)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {delayedEvents.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-bold text-white font-tech uppercase tracking-wider mb-2">Delayed Events</h4>
+                  <p className="text-[10px] text-gray-500 font-mono mb-2">TAG A DELAY REASON FROM THE EVENT ON THE CALENDAR</p>
+                  <div className="max-h-[25vh] overflow-y-auto custom-scrollbar border border-white/10 rounded-sm divide-y divide-white/10">
+                    {delayedEvents.map(event => (
+                      <div key={`${event.type}-${event.id}`} className="px-3 py-2 flex justify-between text-xs font-mono">
+                        <span className="text-white">
+                          {event.label}
+                          <span className="text-gray-500"> • {event.equipment.name} • {format(new Date(event.startTimestamp), 'MMM d HH:mm')}</span>
+                        </span>
+                        <span className="text-gray-400 whitespace-nowrap ml-4">
+                          {event.lateStart && `+${formatMinutes(event.startDelayMinutes)} start`}
+                          {event.lateStart && event.overrun && ', '}
+                          {event.overrun && `+${formatMinutes(event.overrunMinutes!)} run`}
+                          <span className={event.delayReason ? 'text-yellow-300 ml-2' : 'text-red-400 ml-2'}>
+                            {event.delayReason ? reasonLabel(event.delayReason) : 'UNTAGGED'}
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </Modal>
+    </>
+  );
+};
+
+export default AdherenceReport;
@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+
+interface AuditEntry {
+  id: number;
+  actorEmail?: string | null;
+  action: 'create' | 'update' | 'delete';
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  reason?: string | null;
+  createdAt: string;
+}
+
+interface AuditHistoryProps {
+  entityType: string;
+  entityId: number;
+}
+
+// Bookkeeping and nested relation fields that would only add noise to a change list
+const IGNORED_FIELDS = ['updatedAt', 'createdAt', 'equipment', 'createdBy', 'uploadedBy', 'material'];
+
+// Attach a reason for a change to a write request; the backend stores it on the audit entry
+export const auditReasonHeaders = (reason?: string) =>
+  reason ? { 'X-Audit-Reason': encodeURIComponent(reason) } : undefined;
+
+const display = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const changedFields = (entry: AuditEntry) => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(key => !IGNORED_FIELDS.includes(key))
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => ({ key, before: before[key], after: after[key] }));
+};
+
+const actionStyles = {
+  create: 'bg-green-900/40 text-green-300 border-green-500/30',
+  update: 'bg-blue-900/40 text-blue-300 border-blue-500/30',
+  delete: 'bg-red-900/40 text-red-300 border-red-500/30'
+};
+
+const AuditHistory: React.FC<AuditHistoryProps> = ({ entityType, entityId }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    axios.get('/audit', { params: { entityType, entityId, limit: 200 } })
+      .then(response => setEntries(response.data.entries))
+      .catch(error => console.error('Error fetching audit history:', error))
+      .finally(() => setLoading(false));
+  }, [entityType, entityId]);
+
+  if (loading) {
+    return <p className="text-center text-sm text-gray-500 font-mono py-4">LOADING HISTORY...</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-center text-sm text-gray-500 font-mono py-4">NO RECORDED CHANGES</p>;
+  }
+
+  return (
+    <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1 custom-scrollbar">
+      {entries.map(entry => {
+        const changes = entry.action === 'update' ? changedFields(entry) : [];
+
+        return (
+          <div key={entry.id} className="bg-black/30 border border-white/10 rounded-sm p-3">
+            <div className="flex justify-between items-center">
+              <div className="flex items-center gap-2">
+                <span className={`inline-flex rounded px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider border ${actionStyles[entry.action]}`}>
+                  {entry.action}
+                </span>
+                <span className="text-xs text-white font-mono">{entry.actorEmail || 'SYSTEM'}</span>
+              </div>
+              <span className="text-[10px] text-gray-500 font-mono">
+                {format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm:ss')}
+              </span>
+            </div>
+
+            {entry.reason && (
+              <p className="mt-2 text-xs text-gray-300 italic">REASON: {entry.reason}</p>
+            )}
+
+            {changes.length > 0 && (
+              <table className="mt-2 min-w-full table-fixed">
+                <tbody>
+                  {changes.map(change => (
+                    <tr key={change.key} className="align-top">
+                      <td className="w-32 py-0.5 text-[10px] text-gray-500 font-mono uppercase">{change.key}</td>
+                      <td className="py-0.5 text-xs text-red-300 font-mono line-through break-all">{display(change.before)}</td>
+                      <td className="py-0.5 text-xs text-green-300 font-mono break-all">{display(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AuditHistory;
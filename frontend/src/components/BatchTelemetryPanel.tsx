@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import TelemetryChart, { TelemetryPoint, SetpointBand } from './TelemetryChart';
+
+interface BatchTelemetryPanelProps {
+  batchId: number;
+  recipeId?: number;
+  status?: string;
+  start: string | Date;
+  end: string | Date;
+  actualStart?: string | null;
+}
+
+interface RecipeStep {
+  stepNumber: number;
+  name: string;
+  duration?: number;
+  temperature?: string | number | null;
+  temperatureUnit?: string | null;
+  pressure?: string | number | null;
+  pressureUnit?: string | null;
+  processParameters?: Record<string, any> | null;
+}
+
+interface TelemetryBucket {
+  bucketStart: string;
+  bucketEnd: string;
+  metrics: Record<string, { min: number; max: number; avg: number; count: number }>;
+}
+
+// Metric keys as sent by the sensors, and the tolerance applied around a recipe setpoint
+// when the step's processParameters don't specify one
+const METRICS = [
+  { key: 'temp', title: 'Temperature', color: '#f97316', setpoint: 'temperature', defaultTolerance: 2 },
+  { key: 'pressure', title: 'Pressure', color: '#60a5fa', setpoint: 'pressure', defaultTolerance: 0.2 },
+  { key: 'ph', title: 'pH', color: '#a78bfa', setpoint: 'ph', defaultTolerance: 0.5 }
+] as const;
+
+const REFRESH_INTERVAL_MS = 15000;
+
+// Lay the recipe steps out back to back from the batch start and derive a band per step
+const buildSetpoints = (
+  steps: RecipeStep[],
+  batchStart: number,
+  setpoint: 'temperature' | 'pressure' | 'ph',
+  defaultTolerance: number
+): SetpointBand[] => {
+  const bands: SetpointBand[] = [];
+  let cursor = batchStart;
+
+  for (const step of steps) {
+    const stepStart = cursor;
+    const stepEnd = cursor + (step.duration || 0) * 60 * 1000;
+    cursor = stepEnd;
+    if (stepEnd <= stepStart) continue;
+
+    const params = step.processParameters || {};
+    const raw = setpoint === 'ph' ? params.ph : step[setpoint];
+    const target = raw !== null && raw !== undefined && raw !== '' ? Number(raw) : undefined;
+    const tolerance = Number(params[`${setpoint}Tolerance`] ?? defaultTolerance);
+    const low = params[`${setpoint}Min`] !== undefined ? Number(params[`${setpoint}Min`]) : target !== undefined ? target - tolerance : undefined;
+    const high = params[`${setpoint}Max`] !== undefined ? Number(params[`${setpoint}Max`]) : target !== undefined ? target + tolerance : undefined;
+
+    if (low === undefined || high === undefined || isNaN(low) || isNaN(high)) continue;
+
+    bands.push({
+      start: stepStart,
+      end: stepEnd,
+      target,
+      low,
+      high,
+      label: `Step ${step.stepNumber}: ${step.name} (${low} – ${high})`
+    });
+  }
+
+  return bands;
+};
+
+const BatchTelemetryPanel: React.FC<BatchTelemetryPanelProps> = ({
+  batchId,
+  recipeId,
+  status,
+  start,
+  end,
+  actualStart
+}) => {
+  const [buckets, setBuckets] = useState<TelemetryBucket[]>([]);
+  const [steps, setSteps] = useState<RecipeStep[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  // A started batch is running until it's completed or cancelled
+  const isLive = status === 'started';
+
+  const fetchTelemetry = useCallback(async () => {
+    try {
+      const response = await axios.get(`/batches/${batchId}/telemetry`, {
+        params: { points: 200, metrics: METRICS.map(m => m.key).join(',') }
+      });
+      setBuckets(response.data.buckets);
+      setLastUpdated(new Date());
+    } catch (error) {
+      console.error('Error fetching telemetry:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [batchId]);
+
+  useEffect(() => {
+    fetchTelemetry();
+  }, [fetchTelemetry]);
+
+  useEffect(() => {
+    if (!recipeId) return;
+    axios.get(`/recipes/${recipeId}`)
+      .then(response => setSteps(response.data.steps || []))
+      .catch(error => console.error('Error fetching recipe:', error));
+  }, [recipeId]);
+
+  // Keep polling while the batch is running
+  useEffect(() => {
+    if (!isLive) return;
+    const timer = setInterval(fetchTelemetry, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLive, fetchTelemetry]);
+
+  const rangeStart = new Date(start).getTime();
+  const rangeEnd = new Date(end).getTime();
+  const stepOrigin = actualStart ? new Date(actualStart).getTime() : rangeStart;
+  const unitFor = (key: string) => {
+    if (key === 'temp') return steps.find(s => s.temperatureUnit)?.temperatureUnit || undefined;
+    if (key === 'pressure') return steps.find(s => s.pressureUnit)?.pressureUnit || undefined;
+    return undefined;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-48">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-gray-400 text-xs font-mono">
+          {recipeId ? 'SHADED BANDS SHOW RECIPE STEP SETPOINTS' : 'NO RECIPE LINKED - SETPOINTS UNAVAILABLE'}
+        </p>
+        <div className="flex items-center gap-3">
+          {isLive && (
+            <span className="flex items-center gap-1 text-[10px] text-green-400 font-mono animate-pulse">
+              <span className="w-2 h-2 bg-green-500 rounded-full"></span>
+              LIVE
+            </span>
+          )}
+          {lastUpdated && (
+            <span className="text-[10px] text-gray-500 font-mono">
+              UPDATED {format(lastUpdated, 'HH:mm:ss')}
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={fetchTelemetry}
+            className="px-3 py-1 text-[10px] font-bold tracking-wider font-tech rounded-sm border border-white/20 text-gray-300 hover:bg-white/10 hover:text-white"
+          >
+            REFRESH
+          </button>
+        </div>
+      </div>
+
+      {buckets.length === 0 && (
+        <p className="text-center text-sm text-gray-500 font-mono py-4">NO TELEMETRY RECORDED FOR THIS BATCH</p>
+      )}
+
+      {METRICS.map(metric => {
+        const points: TelemetryPoint[] = buckets
+          .filter(b => b.metrics[metric.key])
+          .map(b => {
+            const start = new Date(b.bucketStart).getTime();
+            const end = new Date(b.bucketEnd).getTime();
+            return { time: (start + end) / 2, ...b.metrics[metric.key] };
+          });
+
+        return (
+          <TelemetryChart
+            key={metric.key}
+            title={metric.title}
+            unit={unitFor(metric.key)}
+            color={metric.color}
+            points={points}
+            setpoints={buildSetpoints(steps, stepOrigin, metric.setpoint, metric.defaultTolerance)}
+            rangeStart={rangeStart}
+            rangeEnd={rangeEnd}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
+export default BatchTelemetryPanel;
@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { TrashIcon } from '@heroicons/react/24/outline';
+
+interface ChangeoverRule {
+  id: number;
+  equipmentId: number;
+  fromProduct: string;
+  toProduct: string;
+  cleaningMinutes: number;
+  notes?: string | null;
+}
+
+interface ChangeoverRulesProps {
+  equipmentId: number;
+  canEdit: boolean;
+}
+
+const inputClass = 'w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm';
+
+const emptyRule = { fromProduct: '', toProduct: '', cleaningMinutes: 60, notes: '' };
+
+const ChangeoverRules: React.FC<ChangeoverRulesProps> = ({ equipmentId, canEdit }) => {
+  const [rules, setRules] = useState<ChangeoverRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [ruleData, setRuleData] = useState(emptyRule);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await axios.get('/changeovers', { params: { equipmentId } });
+      setRules(response.data);
+    } catch (error) {
+      console.error('Error fetching changeover rules:', error);
+      toast.error('Failed to load changeover rules');
+    } finally {
+      setLoading(false);
+    }
+  }, [equipmentId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await axios.post('/changeovers', { ...ruleData, equipmentId });
+      toast.success('Changeover rule added');
+      setRuleData(emptyRule);
+      fetchRules();
+    } catch (error: any) {
+      console.error('Error creating changeover rule:', error);
+      toast.error(error.response?.data?.error || 'Failed to add changeover rule');
+    }
+  };
+
+  const handleDelete = async (rule: ChangeoverRule) => {
+    if (!window.confirm(`Delete the ${rule.fromProduct} → ${rule.toProduct} changeover rule?`)) return;
+    try {
+      await axios.delete(`/changeovers/${rule.id}`);
+      toast.success('Changeover rule deleted');
+      fetchRules();
+    } catch (error) {
+      console.error('Error deleting changeover rule:', error);
+      toast.error('Failed to delete changeover rule');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-400 font-mono">
+        Cleaning required when this equipment switches from one product to another. Product pairs without a rule use the site default. A batch can't be scheduled straight after a different product unless a cleaning maintenance event of this length sits between them.
+      </p>
+
+      <div className="max-h-[40vh] overflow-y-auto custom-scrollbar border border-white/10 rounded-sm">
+        <table className="min-w-full divide-y divide-white/10">
+          <thead className="bg-white/5">
+            <tr>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">From</th>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">To</th>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Cleaning</th>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Notes</th>
+              <th className="px-3 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/10 bg-black/30">
+            {loading ? (
+              <tr><td colSpan={5} className="px-3 py-4 text-center text-xs text-gray-500 font-mono">LOADING...</td></tr>
+            ) : rules.length === 0 ? (
+              <tr><td colSpan={5} className="px-3 py-4 text-center text-xs text-gray-500 font-mono">NO CHANGEOVER RULES</td></tr>
+            ) : (
+              rules.map(rule => (
+                <tr key={rule.id}>
+                  <td className="whitespace-nowrap px-3 py-3 text-xs text-white font-mono">{rule.fromProduct}</td>
+                  <td className="whitespace-nowrap px-3 py-3 text-xs text-white font-mono">{rule.toProduct}</td>
+                  <td className="whitespace-nowrap px-3 py-3 text-xs text-white font-mono">{rule.cleaningMinutes} min</td>
+                  <td className="px-3 py-3 text-xs text-gray-400 font-mono">{rule.notes || '—'}</td>
+                  <td className="whitespace-nowrap px-3 py-3 text-right">
+                    {canEdit && (
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        className="p-1 text-gray-400 hover:text-red-400"
+                        title="Delete rule"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {canEdit && (
+        <form onSubmit={handleAdd} className="space-y-3 border-t border-white/10 pt-4">
+          <h4 className="text-xs font-bold text-white font-tech uppercase tracking-wider">Add Rule</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">From Product *</label>
+              <input
+                type="text"
+                required
+                value={ruleData.fromProduct}
+                onChange={(e) => setRuleData({ ...ruleData, fromProduct: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">To Product *</label>
+              <input
+                type="text"
+                required
+                value={ruleData.toProduct}
+                onChange={(e) => setRuleData({ ...ruleData, toProduct: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Cleaning (min) *</label>
+              <input
+                type="number"
+                min="0"
+                required
+                value={ruleData.cleaningMinutes}
+                onChange={(e) => setRuleData({ ...ruleData, cleaningMinutes: parseInt(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Notes</label>
+              <input
+                type="text"
+                value={ruleData.notes}
+                onChange={(e) => setRuleData({ ...ruleData, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-white/10 text-white border border-white/50 rounded-sm hover:bg-white/20 font-tech text-sm tracking-wider font-bold"
+            >
+              ADD RULE
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ChangeoverRules;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import Modal from './Modal';
+
+interface ImportRowResult {
+  sheet: string;
+  row: number;
+  status: 'valid' | 'created' | 'updated' | 'error';
+  id?: number;
+  errors?: string[];
+  conflicts?: Array<{ type: 'batch' | 'maintenance'; id: number | null; label: string; source: 'database' | 'file' }>;
+}
+
+interface ImportResponse {
+  dryRun: boolean;
+  fileName: string;
+  summary: {
+    total: number;
+    valid: number;
+    created: number;
+    updated: number;
+    errors: number;
+  };
+  results: ImportRowResult[];
+}
+
+interface EventImportProps {
+  onImported: () => void;
+}
+
+const statusStyles = {
+  valid: 'bg-blue-900/40 text-blue-300 border-blue-500/30',
+  created: 'bg-green-900/40 text-green-300 border-green-500/30',
+  updated: 'bg-green-900/40 text-green-300 border-green-500/30',
+  error: 'bg-red-900/40 text-red-300 border-red-500/30'
+};
+
+const EventImport: React.FC<EventImportProps> = ({ onImported }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ImportResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setFile(null);
+    setResult(null);
+  };
+
+  const upload = async (dryRun: boolean) => {
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append('file', file);
+
+    setLoading(true);
+    try {
+      const response = await axios.post(`/import?dryRun=${dryRun}`, formData);
+      setResult(response.data);
+
+      if (!dryRun) {
+        const { created, updated, errors } = response.data.summary;
+        toast.success(`Imported ${created + updated} events${errors ? `, ${errors} rows skipped` : ''}`);
+        onImported();
+      }
+    } catch (error: any) {
+      console.error('Error importing events:', error);
+      toast.error(error.response?.data?.error || 'Failed to import file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        title="Import events from Excel"
+      >
+        <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+        Import Excel
+      </button>
+
+      <Modal isOpen={isOpen} onClose={handleClose} title="IMPORT EVENTS" size="2xl">
+        <div className="space-y-4">
+          <p className="text-xs text-gray-400 font-mono">
+            Upload a workbook in the Export Excel layout. Rows with an ID update that event; rows without one are created.
+          </p>
+
+          <input
+            type="file"
+            accept=".xlsx,.xls"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] || null);
+              setResult(null);
+            }}
+            className="w-full text-sm text-gray-300 font-mono file:mr-4 file:py-2 file:px-4 file:rounded-sm file:border file:border-white/20 file:bg-white/10 file:text-white file:text-xs file:font-tech"
+          />
+
+          {result && (
+            <div>
+              <p className="text-xs text-gray-300 font-mono mb-2">
+                {result.dryRun
+                  ? `PREVIEW: ${result.summary.valid} READY, ${result.summary.errors} WITH ERRORS`
+                  : `IMPORTED: ${result.summary.created} CREATED, ${result.summary.updated} UPDATED, ${result.summary.errors} SKIPPED`}
+              </p>
+              <div className="max-h-[50vh] overflow-y-auto pr-1 custom-scrollbar space-y-2">
+                {result.results.map(row => (
+                  <div key={`${row.sheet}:${row.row}`} className="bg-black/30 border border-white/10 rounded-sm p-2">
+                    <div className="flex items-center gap-2">
+                      <span className={`inline-flex rounded px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider border ${statusStyles[row.status]}`}>
+                        {row.status}
+                      </span>
+                      <span className="text-xs text-white font-mono">
+                        {row.sheet.toUpperCase()} · ROW {row.row}{row.id ? ` · #${row.id}` : ''}
+                      </span>
+                    </div>
+                    {row.errors?.map((message, index) => (
+                      <p key={index} className="mt-1 text-xs text-red-300 font-mono">{message}</p>
+                    ))}
+                    {row.conflicts?.map((conflict, index) => (
+                      <p key={index} className="mt-1 text-xs text-yellow-300 font-mono">
+                        Overlaps {conflict.type === 'batch' ? `batch ${conflict.label}` : conflict.label} {conflict.source === 'file' ? '(earlier row in this file)' : `(#${conflict.id})`}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="px-4 py-2 text-xs font-bold font-tech text-gray-400 hover:text-white transition-colors"
+            >
+              CLOSE
+            </button>
+            <button
+              type="button"
+              onClick={() => upload(true)}
+              disabled={!file || loading}
+              className="px-4 py-2 border border-white/30 text-xs font-bold font-tech text-white bg-white/5 hover:bg-white/10 rounded-sm disabled:opacity-40"
+            >
+              PREVIEW
+            </button>
+            <button
+              type="button"
+              onClick={() => upload(false)}
+              disabled={!file || loading || !result?.dryRun || result.summary.valid === 0}
+              className="px-4 py-2 border border-[#007A73] text-xs font-bold font-tech text-white bg-[#007A73]/30 hover:bg-[#007A73]/50 rounded-sm disabled:opacity-40"
+            >
+              {loading ? 'WORKING...' : 'IMPORT'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+};
+
+export default EventImport;
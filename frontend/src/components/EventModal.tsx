@@ -1,18 +1,62 @@
 import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
 import { format } from 'date-fns';
 import Modal from './Modal';
 import RecipeContextModal from './RecipeContextModal';
+import BatchTelemetryPanel from './BatchTelemetryPanel';
+import AuditHistory from './AuditHistory';
+import { delayReasonLabels } from './AdherenceReport';
 
 interface Equipment {
   id: number;
   name: string;
 }
 
+type BatchAction = 'start' | 'complete' | 'cancel';
+
+interface SparePart {
+  id: number;
+  partNumber: string;
+  name: string;
+  unit: string;
+  available: number;
+}
+
+interface PartLine {
+  sparePartId: number | '';
+  quantity: number;
+}
+
+interface SchedulingIssue {
+  type: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Mass and volume units the backend can convert when comparing a batch with equipment capacity
+const BATCH_SIZE_UNITS = ['kg', 'g', 't', 'lb', 'L', 'mL', 'm3', 'gal'];
+
+// Lifecycle actions offered for each batch status; mirrors the backend's allowed transitions
+const batchActions: Record<string, BatchAction[]> = {
+  scheduled: ['start', 'cancel'],
+  started: ['complete', 'cancel'],
+  completed: [],
+  cancelled: []
+};
+
+const batchActionLabels: Record<BatchAction, string> = {
+  start: 'START BATCH',
+  complete: 'COMPLETE BATCH',
+  cancel: 'CANCEL BATCH'
+};
+
 interface EventModalProps {
   event: any;
   equipment: Equipment[];
   onSave: (event: any) => void;
-  onDelete: (eventId: number, eventType: string) => void;
+  onDelete: (eventId: number, eventType: string, changeReason?: string) => void;
+  onTransition?: (eventId: number, action: BatchAction, changeReason?: string) => void;
   onClose: () => void;
   canEdit: boolean;
 }
@@ -22,6 +66,7 @@ const EventModal: React.FC<EventModalProps> = ({
   equipment,
   onSave,
   onDelete,
+  onTransition,
   onClose,
   canEdit
 }) => {
@@ -32,33 +77,82 @@ const EventModal: React.FC<EventModalProps> = ({
     batchNo: event.batchNo || '',
     productName: event.productName || '',
     batchSize: event.batchSize || '',
+    batchSizeUnit: event.batchSizeUnit || '',
     inputs: event.inputs || {},
     // Maintenance fields
     reason: event.reason || 'scheduled',
     supervisorName: event.supervisorName || '',
     expectedDuration: event.expectedDuration || '',
-    spareParts: event.spareParts || {},
     changesMade: event.changesMade || '',
     // Common fields
     start: event.start ? format(new Date(event.start), "yyyy-MM-dd'T'HH:mm") : '',
     end: event.end ? format(new Date(event.end), "yyyy-MM-dd'T'HH:mm") : '',
     actualStart: event.actualStart ? format(new Date(event.actualStart), "yyyy-MM-dd'T'HH:mm") : '',
-    actualEnd: event.actualEnd ? format(new Date(event.actualEnd), "yyyy-MM-dd'T'HH:mm") : ''
+    actualEnd: event.actualEnd ? format(new Date(event.actualEnd), "yyyy-MM-dd'T'HH:mm") : '',
+    delayReason: event.delayReason || '',
+    delayNotes: event.delayNotes || ''
   });
 
   const [inputsJson, setInputsJson] = useState(
     JSON.stringify(event.inputs || {}, null, 2)
   );
-  const [sparePartsJson, setSparePartsJson] = useState(
-    JSON.stringify(event.spareParts || {}, null, 2)
+  const [parts, setParts] = useState<PartLine[]>(
+    (event.parts || []).map((p: any) => ({ sparePartId: p.sparePartId, quantity: Number(p.quantity) }))
   );
+  const [spareParts, setSpareParts] = useState<SparePart[]>([]);
   const [showRecipeContext, setShowRecipeContext] = useState(false);
+  const [activeTab, setActiveTab] = useState<'details' | 'telemetry' | 'history'>('details');
+  const [changeReason, setChangeReason] = useState('');
+  const [issues, setIssues] = useState<SchedulingIssue[]>([]);
+
+  // Capacity and material-of-construction checks, re-run as the equipment or batch size changes
+  useEffect(() => {
+    if (formData.type !== 'batch' || !formData.equipmentId || !canEdit) {
+      setIssues([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await axios.post('/batches/check', {
+          equipmentId: parseInt(formData.equipmentId.toString()),
+          batchSize: formData.batchSize ? parseFloat(formData.batchSize.toString()) : null,
+          batchSizeUnit: formData.batchSizeUnit || null,
+          batchEventId: event.isNew ? undefined : event.id
+        });
+        setIssues(response.data.issues);
+      } catch (error) {
+        console.error('Error checking batch:', error);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [formData.type, formData.equipmentId, formData.batchSize, formData.batchSizeUnit, canEdit, event.isNew, event.id]);
+
+  // Parts are taken out of stock when the maintenance is completed and can't be changed after that
+  const partsConsumed = (event.parts || []).some((p: any) => p.consumedQuantity !== null);
+  const legacySpareParts = event.spareParts && Object.keys(event.spareParts).length > 0 ? event.spareParts : null;
+
+  // Catalogue parts that fit the selected equipment
+  useEffect(() => {
+    if (formData.type !== 'maintenance' || !formData.equipmentId) {
+      setSpareParts([]);
+      return;
+    }
+
+    axios.get('/spare-parts', { params: { equipmentId: formData.equipmentId } })
+      .then(response => setSpareParts(response.data))
+      .catch(error => console.error('Error fetching spare parts:', error));
+  }, [formData.type, formData.equipmentId]);
+
+  const updatePart = (index: number, changes: Partial<PartLine>) => {
+    setParts(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
     let inputs = {};
-    let spareParts = {};
 
     try {
       inputs = JSON.parse(inputsJson || '{}');
@@ -67,24 +161,21 @@ const EventModal: React.FC<EventModalProps> = ({
       return;
     }
 
-    try {
-      spareParts = JSON.parse(sparePartsJson || '{}');
-    } catch (error) {
-      alert('Invalid JSON in spare parts field');
-      return;
-    }
-
     const eventData = {
       ...event,
       ...formData,
       equipmentId: parseInt(formData.equipmentId.toString()),
       batchSize: formData.batchSize ? parseFloat(formData.batchSize.toString()) : undefined,
+      batchSizeUnit: formData.batchSizeUnit || null,
       inputs,
-      spareParts,
+      spareParts: legacySpareParts || undefined,
+      parts: partsConsumed ? undefined : parts.filter(p => p.sparePartId && p.quantity > 0),
       start: new Date(formData.start).toISOString(),
       end: new Date(formData.end).toISOString(),
       actualStart: formData.actualStart ? new Date(formData.actualStart).toISOString() : null,
-      actualEnd: formData.actualEnd ? new Date(formData.actualEnd).toISOString() : null
+      actualEnd: formData.actualEnd ? new Date(formData.actualEnd).toISOString() : null,
+      delayReason: formData.delayReason || null,
+      changeReason: changeReason || undefined
     };
 
     onSave(eventData);
@@ -92,20 +183,120 @@ const EventModal: React.FC<EventModalProps> = ({
 
   const handleDelete = () => {
     if (window.confirm('Are you sure you want to delete this event?')) {
-      onDelete(event.id, event.type);
+      onDelete(event.id, event.type, changeReason || undefined);
+    }
+  };
+
+  const handleTransition = (action: BatchAction) => {
+    if (action === 'cancel' && !window.confirm('Cancel this batch? This cannot be undone.')) return;
+    onTransition?.(event.id, action, changeReason || undefined);
+  };
+
+  const handleDownloadRecord = async () => {
+    try {
+      const response = await axios.get(`/batches/${event.id}/record.pdf`, { responseType: 'blob' });
+      const url = window.URL.createObjectURL(new Blob([response.data], { type: 'application/pdf' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', `batch_record_${formData.batchNo || event.id}.pdf`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading batch record:', error);
+      toast.error('Failed to download batch record');
     }
   };
 
   const isNewEvent = event.isNew;
+  const showTelemetry = !isNewEvent && event.type === 'batch';
+  // A batch only moves while scheduled, and its actual times are set by the start and complete actions
+  const equipmentLocked = !isNewEvent && event.type === 'batch' && !!event.status && event.status !== 'scheduled';
+  const actualsLocked = event.type === 'batch';
+  const tabs = [
+    'details' as const,
+    ...(showTelemetry ? ['telemetry' as const] : []),
+    ...(!isNewEvent ? ['history' as const] : [])
+  ];
 
   return (
     <Modal
       isOpen={true}
       onClose={onClose}
       title={isNewEvent ? 'CREATE EVENT' : 'EVENT DETAILS'}
-      size="lg"
+      size={activeTab === 'details' ? 'lg' : '2xl'}
     >
-      <form onSubmit={handleSubmit} className="space-y-4">
+      {/* Tabs (existing events only) */}
+      {tabs.length > 1 && (
+        <div className="flex gap-2 mb-4 border-b border-white/10">
+          {tabs.map(tab => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 text-xs font-bold tracking-wider font-tech border-b-2 -mb-px transition-colors ${activeTab === tab
+                ? 'border-[#007A73] text-white'
+                : 'border-transparent text-gray-500 hover:text-gray-300'
+                }`}
+            >
+              {tab.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {showTelemetry && activeTab === 'telemetry' && (
+        <BatchTelemetryPanel
+          batchId={event.id}
+          recipeId={event.recipeId}
+          status={event.status}
+          start={event.startTimestamp || event.start}
+          end={event.endTimestamp || event.end}
+          actualStart={event.actualStart}
+        />
+      )}
+
+      {!isNewEvent && activeTab === 'history' && (
+        <AuditHistory
+          entityType={event.type === 'batch' ? 'batch_event' : 'maintenance_event'}
+          entityId={event.id}
+        />
+      )}
+
+      {/* Hidden rather than unmounted so unsaved edits survive a tab switch */}
+      <form onSubmit={handleSubmit} className={`space-y-4 ${activeTab !== 'details' ? 'hidden' : ''}`}>
+        {/* Batch status and lifecycle actions */}
+        {!isNewEvent && event.type === 'batch' && event.status && (
+          <div className="flex items-center justify-between bg-black/30 border border-white/10 rounded-sm px-3 py-2">
+            <span className="text-xs text-gray-400 font-mono uppercase">
+              Status: <span className="text-white">{event.status.replace('_', ' ')}</span>
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleDownloadRecord}
+                className="px-3 py-1 rounded-sm border font-tech text-xs tracking-wider bg-white/5 text-gray-300 border-white/20 hover:bg-white/10 hover:text-white"
+              >
+                BATCH RECORD
+              </button>
+              {canEdit && onTransition && (batchActions[event.status] || []).map(action => (
+                <button
+                  key={action}
+                  type="button"
+                  onClick={() => handleTransition(action)}
+                  className={`px-3 py-1 rounded-sm border font-tech text-xs tracking-wider ${action === 'cancel'
+                    ? 'bg-red-900/20 text-red-400 border-red-900/50 hover:bg-red-900/40'
+                    : 'bg-[#007A73]/20 text-white border-[#007A73] hover:bg-[#007A73]/40'
+                    }`}
+                >
+                  {batchActionLabels[action]}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Event Type */}
         {isNewEvent && (
           <div>
@@ -134,7 +325,7 @@ const EventModal: React.FC<EventModalProps> = ({
             onChange={(e) => setFormData(prev => ({ ...prev, equipmentId: e.target.value }))}
             className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 font-mono text-sm"
             required
-            disabled={!canEdit}
+            disabled={!canEdit || equipmentLocked}
           >
             <option value="">SELECT EQUIPMENT</option>
             {equipment.map(eq => (
@@ -185,7 +376,7 @@ const EventModal: React.FC<EventModalProps> = ({
                 value={formData.actualStart}
                 onChange={(e) => setFormData(prev => ({ ...prev, actualStart: e.target.value }))}
                 className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 font-mono text-sm"
-                disabled={!canEdit}
+                disabled={!canEdit || actualsLocked}
               />
             </div>
             <div>
@@ -197,6 +388,41 @@ const EventModal: React.FC<EventModalProps> = ({
                 value={formData.actualEnd}
                 onChange={(e) => setFormData(prev => ({ ...prev, actualEnd: e.target.value }))}
                 className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 font-mono text-sm"
+                disabled={!canEdit || actualsLocked}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Delay reason, once the event has actually started */}
+        {!isNewEvent && formData.actualStart && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">
+                Delay Reason
+              </label>
+              <select
+                value={formData.delayReason}
+                onChange={(e) => setFormData(prev => ({ ...prev, delayReason: e.target.value }))}
+                className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 font-mono text-sm"
+                disabled={!canEdit}
+              >
+                <option value="">No delay</option>
+                {Object.entries(delayReasonLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">
+                Delay Notes
+              </label>
+              <input
+                type="text"
+                value={formData.delayNotes}
+                onChange={(e) => setFormData(prev => ({ ...prev, delayNotes: e.target.value }))}
+                className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm"
+                placeholder="What held it up"
                 disabled={!canEdit}
               />
             </div>
@@ -241,15 +467,28 @@ const EventModal: React.FC<EventModalProps> = ({
               <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">
                 Batch Size (optional)
               </label>
-              <input
-                type="number"
-                step="0.01"
-                value={formData.batchSize}
-                onChange={(e) => setFormData(prev => ({ ...prev, batchSize: e.target.value }))}
-                className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm"
-                disabled={!canEdit}
-                placeholder="0.00"
-              />
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  value={formData.batchSize}
+                  onChange={(e) => setFormData(prev => ({ ...prev, batchSize: e.target.value }))}
+                  className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm"
+                  disabled={!canEdit}
+                  placeholder="0.00"
+                />
+                <select
+                  value={formData.batchSizeUnit}
+                  onChange={(e) => setFormData(prev => ({ ...prev, batchSizeUnit: e.target.value }))}
+                  className="w-28 bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 font-mono text-sm"
+                  disabled={!canEdit}
+                >
+                  <option value="">UNIT</option>
+                  {BATCH_SIZE_UNITS.map(unit => (
+                    <option key={unit} value={unit}>{unit}</option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             <div>
@@ -321,16 +560,75 @@ const EventModal: React.FC<EventModalProps> = ({
 
             <div>
               <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">
-                Spare Parts (JSON format)
+                Spare Parts {partsConsumed ? '(Consumed)' : '(Reserved)'}
               </label>
-              <textarea
-                value={sparePartsJson}
-                onChange={(e) => setSparePartsJson(e.target.value)}
-                rows={3}
-                className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 font-mono text-xs"
-                placeholder='{"filter": 2, "gasket": 1}'
-                disabled={!canEdit}
-              />
+              {partsConsumed ? (
+                <ul className="space-y-1">
+                  {event.parts.map((p: any) => (
+                    <li key={p.id} className="text-xs text-gray-300 font-mono">
+                      {p.sparePart.partNumber} — {p.sparePart.name}: {Number(p.consumedQuantity ?? p.quantity)} {p.sparePart.unit}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="space-y-2">
+                  {parts.map((line, index) => (
+                    <div key={index} className="flex gap-2">
+                      <select
+                        value={line.sparePartId}
+                        onChange={(e) => updatePart(index, { sparePartId: e.target.value ? parseInt(e.target.value) : '' })}
+                        className="flex-1 bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 font-mono text-xs"
+                        disabled={!canEdit}
+                      >
+                        <option value="">SELECT PART</option>
+                        {spareParts.map(part => (
+                          <option key={part.id} value={part.id}>
+                            {part.partNumber} — {part.name} ({part.available} {part.unit} available)
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={line.quantity}
+                        onChange={(e) => updatePart(index, { quantity: parseFloat(e.target.value) })}
+                        className="w-24 bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 font-mono text-xs"
+                        disabled={!canEdit}
+                      />
+                      {canEdit && (
+                        <button
+                          type="button"
+                          onClick={() => setParts(prev => prev.filter((_, i) => i !== index))}
+                          className="px-2 text-gray-400 hover:text-red-400 text-xs font-mono"
+                          title="Remove part"
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {canEdit && (
+                    <button
+                      type="button"
+                      onClick={() => setParts(prev => [...prev, { sparePartId: '', quantity: 1 }])}
+                      className="text-xs text-[#007A73] hover:text-white font-mono"
+                    >
+                      + ADD PART
+                    </button>
+                  )}
+                  {parts.length > 0 && (
+                    <p className="text-[10px] text-gray-500 font-mono">
+                      RESERVED NOW, TAKEN FROM STOCK WHEN THE ACTUAL END IS RECORDED
+                    </p>
+                  )}
+                </div>
+              )}
+              {legacySpareParts && (
+                <p className="mt-2 text-[10px] text-gray-500 font-mono">
+                  RECORDED BEFORE THE PARTS CATALOGUE: {JSON.stringify(legacySpareParts)}
+                </p>
+              )}
             </div>
 
             <div>
@@ -349,6 +647,39 @@ const EventModal: React.FC<EventModalProps> = ({
           </>
         )}
 
+        {/* Reason recorded in the audit trail */}
+        {canEdit && !isNewEvent && (
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">
+              Reason for Change
+            </label>
+            <input
+              type="text"
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
+              className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm"
+              placeholder="E.G. RESCHEDULED FOR RAW MATERIAL DELAY"
+            />
+          </div>
+        )}
+
+        {/* Scheduling checks */}
+        {issues.length > 0 && (
+          <div className="space-y-1">
+            {issues.map((issue, index) => (
+              <p
+                key={index}
+                className={`text-xs font-mono px-3 py-2 rounded-sm border ${issue.severity === 'error'
+                  ? 'bg-red-900/20 text-red-300 border-red-500/30'
+                  : 'bg-yellow-900/20 text-yellow-300 border-yellow-500/30'
+                  }`}
+              >
+                {issue.severity === 'error' ? 'BLOCKED: ' : 'WARNING: '}{issue.message}
+              </p>
+            ))}
+          </div>
+        )}
+
         {/* Action buttons */}
         {canEdit && (
           <div className="flex justify-between pt-4 border-t border-white/10">
@@ -382,7 +713,8 @@ const EventModal: React.FC<EventModalProps> = ({
               </button>
               <button
                 type="submit"
-                className="px-4 py-2 bg-white/10 text-white border border-white/50 rounded-sm hover:bg-white/20 hover:shadow-[0_0_15px_rgba(255,255,255,0.3)] font-tech text-sm tracking-wider font-bold"
+                disabled={issues.some(issue => issue.severity === 'error')}
+                className="px-4 py-2 disabled:opacity-40 bg-white/10 text-white border border-white/50 rounded-sm hover:bg-white/20 hover:shadow-[0_0_15px_rgba(255,255,255,0.3)] font-tech text-sm tracking-wider font-bold"
               >
                 {isNewEvent ? 'CREATE EVENT' : 'SAVE CHANGES'}
               </button>
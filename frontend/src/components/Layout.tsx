@@ -15,7 +15,9 @@ import {
   Zap,
   ChevronRight,
   Globe,
-  Cpu
+  Cpu,
+  FlaskConical,
+  Wrench
 } from 'lucide-react';
 import ManufacturingCopilotPanel from './ManufacturingCopilotPanel';
 import { AnimatePresence, motion } from 'framer-motion';
@@ -25,22 +27,28 @@ interface LayoutProps {
 }
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const { user, logout } = useAuth();
+  const { user, logout, demoMode } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isCopilotOpen, setIsCopilotOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
-  const handleLogout = () => {
-    // Demo mode - no logout needed
-    toast.success('Demo mode - logout disabled');
+  const handleLogout = async () => {
+    if (demoMode) {
+      toast.success('Demo mode - logout disabled');
+      return;
+    }
+    await logout();
+    navigate('/login');
   };
 
   const navigation = [
     { name: 'Dashboard', href: '/', icon: LayoutDashboard },
     { name: 'Equipment', href: '/equipment', icon: Database },
     { name: 'Inventory', href: '/inventory', icon: Box },
+    { name: 'Spare Parts', href: '/spare-parts', icon: Wrench },
+    { name: 'Recipes', href: '/recipes', icon: FlaskConical },
     { name: 'Progress', href: '/progress', icon: Activity },
   ];
 
@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { TrashIcon, CalendarDaysIcon } from '@heroicons/react/24/outline';
+
+type TriggerType = 'calendar' | 'runtime_hours' | 'batch_count';
+
+interface MaintenancePlan {
+  id: number;
+  name: string;
+  triggerType: TriggerType;
+  interval: number;
+  durationMinutes: number;
+  notes?: string | null;
+  active: boolean;
+  supervisor?: { id: number; email: string } | null;
+  status: {
+    lastPerformedAt: string | null;
+    used: number;
+    remaining: number;
+    dueAt: string | null;
+    overdue: boolean;
+    openEvent: { id: number; startTimestamp: string; endTimestamp: string } | null;
+  };
+}
+
+interface MaintenancePlansProps {
+  equipmentId: number;
+  canEdit: boolean;
+}
+
+const triggerUnits: Record<TriggerType, string> = {
+  calendar: 'days',
+  runtime_hours: 'run hours',
+  batch_count: 'batches'
+};
+
+const inputClass = 'w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm';
+
+const formatDate = (value: string) => format(new Date(value), 'MMM d, yyyy HH:mm');
+
+const emptyPlan = {
+  name: '',
+  triggerType: 'calendar' as TriggerType,
+  interval: 30,
+  durationMinutes: 240,
+  supervisorEmail: '',
+  notes: ''
+};
+
+const MaintenancePlans: React.FC<MaintenancePlansProps> = ({ equipmentId, canEdit }) => {
+  const [plans, setPlans] = useState<MaintenancePlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [planData, setPlanData] = useState(emptyPlan);
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      const response = await axios.get('/maintenance-plans', { params: { equipmentId } });
+      setPlans(response.data);
+    } catch (error) {
+      console.error('Error fetching maintenance plans:', error);
+      toast.error('Failed to load maintenance plans');
+    } finally {
+      setLoading(false);
+    }
+  }, [equipmentId]);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await axios.post('/maintenance-plans', { ...planData, equipmentId });
+      toast.success('Maintenance plan added');
+      setPlanData(emptyPlan);
+      fetchPlans();
+    } catch (error: any) {
+      console.error('Error creating maintenance plan:', error);
+      toast.error(error.response?.data?.error || 'Failed to add maintenance plan');
+    }
+  };
+
+  const handleGenerate = async (plan: MaintenancePlan) => {
+    try {
+      const response = await axios.post('/maintenance-plans/generate', { planId: plan.id });
+      const [created] = response.data.created;
+      if (created) {
+        toast.success(`PM booked for ${formatDate(created.startTimestamp)}`);
+      } else {
+        toast(response.data.skipped[0]?.reason || 'Nothing to schedule');
+      }
+      fetchPlans();
+    } catch (error) {
+      console.error('Error generating preventive maintenance:', error);
+      toast.error('Failed to schedule preventive maintenance');
+    }
+  };
+
+  const handleDelete = async (plan: MaintenancePlan) => {
+    if (!window.confirm(`Delete the "${plan.name}" maintenance plan? PM events it already booked are kept.`)) return;
+    try {
+      await axios.delete(`/maintenance-plans/${plan.id}`);
+      toast.success('Maintenance plan deleted');
+      fetchPlans();
+    } catch (error) {
+      console.error('Error deleting maintenance plan:', error);
+      toast.error('Failed to delete maintenance plan');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-400 font-mono">
+        Preventive maintenance is booked automatically once a plan falls due, in the first window free of batches, and its supervisor is notified. Run hours and batch counts come from completed batches since the last PM.
+      </p>
+
+      <div className="max-h-[40vh] overflow-y-auto custom-scrollbar border border-white/10 rounded-sm">
+        <table className="min-w-full divide-y divide-white/10">
+          <thead className="bg-white/5">
+            <tr>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Plan</th>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Trigger</th>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Since Last PM</th>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Next PM</th>
+              <th className="px-3 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/10 bg-black/30">
+            {loading ? (
+              <tr><td colSpan={5} className="px-3 py-4 text-center text-xs text-gray-500 font-mono">LOADING...</td></tr>
+            ) : plans.length === 0 ? (
+              <tr><td colSpan={5} className="px-3 py-4 text-center text-xs text-gray-500 font-mono">NO MAINTENANCE PLANS</td></tr>
+            ) : (
+              plans.map(plan => (
+                <tr key={plan.id} className={plan.active ? '' : 'opacity-50'}>
+                  <td className="px-3 py-3 text-xs text-white font-mono">
+                    {plan.name}
+                    <div className="text-gray-500">
+                      {plan.durationMinutes} min{plan.supervisor && ` • ${plan.supervisor.email}`}
+                    </div>
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-xs text-white font-mono">
+                    Every {plan.interval} {triggerUnits[plan.triggerType]}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-xs text-white font-mono">
+                    {plan.status.used} {triggerUnits[plan.triggerType]}
+                    <div className="text-gray-500">
+                      {plan.status.lastPerformedAt ? `Last ${formatDate(plan.status.lastPerformedAt)}` : 'No PM yet'}
+                    </div>
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-xs font-mono">
+                    {plan.status.openEvent ? (
+                      <span className="text-green-300">Booked {formatDate(plan.status.openEvent.startTimestamp)}</span>
+                    ) : plan.status.overdue ? (
+                      <span className="inline-flex px-2 py-0.5 text-xs font-bold rounded-sm border bg-red-900/40 text-red-300 border-red-500/30">
+                        OVERDUE
+                      </span>
+                    ) : plan.status.dueAt ? (
+                      <span className="text-white">Due {formatDate(plan.status.dueAt)}</span>
+                    ) : (
+                      <span className="text-gray-500">{plan.status.remaining} {triggerUnits[plan.triggerType]} to go</span>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-right">
+                    {canEdit && (
+                      <>
+                        {plan.active && !plan.status.openEvent && (
+                          <button
+                            onClick={() => handleGenerate(plan)}
+                            className="p-1 text-gray-400 hover:text-white"
+                            title="Book PM now if due"
+                          >
+                            <CalendarDaysIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(plan)}
+                          className="p-1 text-gray-400 hover:text-red-400"
+                          title="Delete plan"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {canEdit && (
+        <form onSubmit={handleAdd} className="space-y-3 border-t border-white/10 pt-4">
+          <h4 className="text-xs font-bold text-white font-tech uppercase tracking-wider">Add Plan</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Name *</label>
+              <input
+                type="text"
+                required
+                value={planData.name}
+                onChange={(e) => setPlanData({ ...planData, name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g. Agitator seal inspection"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Trigger *</label>
+              <select
+                value={planData.triggerType}
+                onChange={(e) => setPlanData({ ...planData, triggerType: e.target.value as TriggerType })}
+                className={inputClass}
+              >
+                <option value="calendar">Calendar (days)</option>
+                <option value="runtime_hours">Run hours</option>
+                <option value="batch_count">Batch count</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Every ({triggerUnits[planData.triggerType]}) *</label>
+              <input
+                type="number"
+                min="1"
+                required
+                value={planData.interval}
+                onChange={(e) => setPlanData({ ...planData, interval: parseInt(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Duration (min) *</label>
+              <input
+                type="number"
+                min="1"
+                required
+                value={planData.durationMinutes}
+                onChange={(e) => setPlanData({ ...planData, durationMinutes: parseInt(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Supervisor Email</label>
+              <input
+                type="email"
+                value={planData.supervisorEmail}
+                onChange={(e) => setPlanData({ ...planData, supervisorEmail: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Notes</label>
+              <input
+                type="text"
+                value={planData.notes}
+                onChange={(e) => setPlanData({ ...planData, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-white/10 text-white border border-white/50 rounded-sm hover:bg-white/20 font-tech text-sm tracking-wider font-bold"
+            >
+              ADD PLAN
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default MaintenancePlans;
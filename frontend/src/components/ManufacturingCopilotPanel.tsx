@@ -1,7 +1,9 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Send, Upload, FileText, Zap, Settings, X, Loader } from 'lucide-react';
 import axios from 'axios';
 import { toast } from 'react-hot-toast';
+import Modal from './Modal';
+import PlanDraftReview from './PlanDraftReview';
 
 interface Message {
     role: 'user' | 'assistant' | 'system' | 'tool';
@@ -9,6 +11,12 @@ interface Message {
     tool_calls?: any[];
 }
 
+interface PendingDraft {
+    id: number;
+    fileName: string;
+    createdAt: string;
+}
+
 interface CopilotPanelProps {
     isOpen: boolean;
     onClose: () => void;
@@ -23,6 +31,8 @@ const ManufacturingCopilotPanel: React.FC<CopilotPanelProps> = ({ isOpen, onClos
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [isUploading, setIsUploading] = useState(false);
+    const [pendingDrafts, setPendingDrafts] = useState<PendingDraft[]>([]);
+    const [reviewDraftId, setReviewDraftId] = useState<number | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -34,6 +44,34 @@ const ManufacturingCopilotPanel: React.FC<CopilotPanelProps> = ({ isOpen, onClos
         scrollToBottom();
     }, [messages]);
 
+    const fetchPendingDrafts = useCallback(async () => {
+        try {
+            const response = await axios.get(`${process.env.REACT_APP_API_URL || 'http://localhost:3001'}/api/upload-plan/drafts`);
+            setPendingDrafts(response.data);
+        } catch (error) {
+            console.error('Error fetching plan drafts:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchPendingDrafts();
+    }, [fetchPendingDrafts]);
+
+    const handleReviewClosed = () => {
+        setReviewDraftId(null);
+        fetchPendingDrafts();
+    };
+
+    const handlePlanCommitted = () => {
+        setReviewDraftId(null);
+        fetchPendingDrafts();
+        setMessages(prev => [...prev, {
+            role: 'assistant',
+            content: 'The reviewed plan has been committed to the calendar.'
+        }]);
+        if (onEventsUpdated) onEventsUpdated();
+    };
+
     const sendMessage = async (text: string, actionType?: string) => {
         if (!text.trim() && !actionType) return;
 
@@ -88,13 +126,18 @@ const ManufacturingCopilotPanel: React.FC<CopilotPanelProps> = ({ isOpen, onClos
                 }
             });
 
-            toast.success(`Successfully processed plan. Added ${response.data.eventsCreated} events.`);
+            const { draft, review } = response.data;
+            const stepCount = draft.plan.steps.length;
+            const issueCount = review.steps.filter((step: any) => step.errors.length > 0 || step.conflicts.length > 0).length;
+
+            toast.success('Plan parsed. Review it before committing.');
             setMessages(prev => [...prev, {
                 role: 'assistant',
-                content: `I've processed your uploaded plan and added ${response.data.eventsCreated} events to the calendar.`
+                content: `I've parsed ${draft.fileName} into a draft with ${stepCount} steps${issueCount ? ` (${issueCount} need attention)` : ''}. Nothing is scheduled until you review and commit it.`
             }]);
 
-            if (onEventsUpdated) onEventsUpdated();
+            fetchPendingDrafts();
+            setReviewDraftId(draft.id);
 
         } catch (error) {
             console.error('Upload error:', error);
@@ -155,6 +198,23 @@ const ManufacturingCopilotPanel: React.FC<CopilotPanelProps> = ({ isOpen, onClos
                 <div ref={messagesEndRef} />
             </div>
 
+            {/* Plan drafts awaiting review */}
+            {pendingDrafts.length > 0 && (
+                <div className="px-3 pt-3 bg-black/80 border-t border-white/10 space-y-1">
+                    <p className="text-[10px] text-gray-500 font-mono tracking-wider">PLANS AWAITING REVIEW</p>
+                    {pendingDrafts.map(draft => (
+                        <button
+                            key={draft.id}
+                            onClick={() => setReviewDraftId(draft.id)}
+                            className="w-full flex items-center space-x-2 px-2 py-1.5 text-left text-xs text-white font-mono bg-gray-900/50 border border-yellow-500/30 rounded-sm hover:bg-white/10 transition-colors"
+                        >
+                            <FileText className="h-3 w-3 text-yellow-300 shrink-0" />
+                            <span className="truncate">{draft.fileName}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
             {/* Quick Actions */}
             <div className="p-3 bg-black/80 border-t border-white/10 grid grid-cols-2 gap-2 backdrop-blur-md">
                 <button
@@ -224,6 +284,16 @@ const ManufacturingCopilotPanel: React.FC<CopilotPanelProps> = ({ isOpen, onClos
                     </p>
                 </div>
             </div>
+
+            {reviewDraftId && (
+                <Modal isOpen={!!reviewDraftId} onClose={handleReviewClosed} title="REVIEW PROCESS PLAN" size="4xl">
+                    <PlanDraftReview
+                        draftId={reviewDraftId}
+                        onClose={handleReviewClosed}
+                        onCommitted={handlePlanCommitted}
+                    />
+                </Modal>
+            )}
         </div>
     );
 };
@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+
+interface MaterialLot {
+  id: number;
+  lotNumber: string;
+  supplier?: string | null;
+  receivedDate: string;
+  expiryDate?: string | null;
+  status: 'quarantine' | 'released' | 'rejected';
+  initialQuantity: number;
+  quantity: number;
+}
+
+interface LotGenealogy {
+  lot: MaterialLot;
+  batches: Array<{
+    id: number;
+    batchNo: string;
+    productName?: string | null;
+    status: string;
+    actualStart?: string | null;
+    actualEnd?: string | null;
+    equipment?: { id: number; name: string } | null;
+    quantity: number;
+  }>;
+}
+
+interface MaterialLotsProps {
+  materialId: number;
+  unit: string;
+  onChanged: () => void;
+}
+
+const statusStyles = {
+  quarantine: 'bg-yellow-900/40 text-yellow-300 border-yellow-500/30',
+  released: 'bg-green-900/40 text-green-300 border-green-500/30',
+  rejected: 'bg-red-900/40 text-red-300 border-red-500/30'
+};
+
+const inputClass = 'w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm';
+
+const isExpired = (lot: MaterialLot) => !!lot.expiryDate && new Date(lot.expiryDate) < new Date();
+
+const MaterialLots: React.FC<MaterialLotsProps> = ({ materialId, unit, onChanged }) => {
+  const [lots, setLots] = useState<MaterialLot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [genealogy, setGenealogy] = useState<LotGenealogy | null>(null);
+  const [lotData, setLotData] = useState({
+    lotNumber: '',
+    supplier: '',
+    expiryDate: '',
+    quantity: 0,
+    status: 'quarantine'
+  });
+
+  const fetchLots = useCallback(async () => {
+    try {
+      const response = await axios.get(`/materials/${materialId}/lots`);
+      setLots(response.data);
+    } catch (error) {
+      console.error('Error fetching lots:', error);
+      toast.error('Failed to load lots');
+    } finally {
+      setLoading(false);
+    }
+  }, [materialId]);
+
+  useEffect(() => {
+    fetchLots();
+  }, [fetchLots]);
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await axios.post(`/materials/${materialId}/lots`, {
+        ...lotData,
+        expiryDate: lotData.expiryDate || null
+      });
+      toast.success('Lot received');
+      setLotData({ lotNumber: '', supplier: '', expiryDate: '', quantity: 0, status: 'quarantine' });
+      fetchLots();
+      onChanged();
+    } catch (error: any) {
+      console.error('Error receiving lot:', error);
+      toast.error(error.response?.data?.error || 'Failed to receive lot');
+    }
+  };
+
+  const handleStatus = async (lot: MaterialLot, status: MaterialLot['status']) => {
+    try {
+      await axios.put(`/materials/lots/${lot.id}`, { status });
+      toast.success(`Lot ${lot.lotNumber} ${status === 'quarantine' ? 'quarantined' : status}`);
+      fetchLots();
+    } catch (error: any) {
+      console.error('Error updating lot:', error);
+      toast.error(error.response?.data?.error || 'Failed to update lot');
+    }
+  };
+
+  const handleGenealogy = async (lot: MaterialLot) => {
+    if (genealogy?.lot.id === lot.id) {
+      setGenealogy(null);
+      return;
+    }
+    try {
+      const response = await axios.get(`/materials/lots/${lot.id}/genealogy`);
+      setGenealogy(response.data);
+    } catch (error) {
+      console.error('Error fetching lot genealogy:', error);
+      toast.error('Failed to load lot genealogy');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-400 font-mono">
+        Batches draw released, unexpired lots first-expiry-first-out. Quarantined, rejected and expired lots are held back from consumption.
+      </p>
+
+      <div className="max-h-[40vh] overflow-y-auto custom-scrollbar border border-white/10 rounded-sm">
+        <table className="min-w-full divide-y divide-white/10">
+          <thead className="bg-white/5">
+            <tr>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Lot</th>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Status</th>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Received</th>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Expiry</th>
+              <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Qty</th>
+              <th className="px-3 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/10 bg-black/30">
+            {loading ? (
+              <tr><td colSpan={6} className="px-3 py-4 text-center text-xs text-gray-500 font-mono">LOADING...</td></tr>
+            ) : lots.length === 0 ? (
+              <tr><td colSpan={6} className="px-3 py-4 text-center text-xs text-gray-500 font-mono">NO LOTS RECEIVED</td></tr>
+            ) : (
+              lots.map(lot => (
+                <tr key={lot.id}>
+                  <td className="whitespace-nowrap px-3 py-3 text-xs text-white font-mono">
+                    {lot.lotNumber}
+                    {lot.supplier && <span className="block text-gray-500">{lot.supplier}</span>}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-xs">
+                    <span className={`inline-flex rounded px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider border ${statusStyles[lot.status]}`}>
+                      {lot.status}
+                    </span>
+                    {isExpired(lot) && (
+                      <span className="ml-1 inline-flex rounded px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider border bg-red-900/40 text-red-300 border-red-500/30">
+                        expired
+                      </span>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-xs text-gray-400 font-mono">
+                    {format(new Date(lot.receivedDate), 'MMM d, yyyy')}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-xs text-gray-400 font-mono">
+                    {lot.expiryDate ? format(new Date(lot.expiryDate), 'MMM d, yyyy') : '—'}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-xs text-white font-mono">
+                    {Number(lot.quantity).toFixed(2)} / {Number(lot.initialQuantity).toFixed(2)} {unit}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-right text-[10px] font-bold font-tech space-x-3">
+                    {lot.status !== 'released' && (
+                      <button onClick={() => handleStatus(lot, 'released')} className="text-green-400 hover:text-green-300">RELEASE</button>
+                    )}
+                    {lot.status !== 'rejected' && (
+                      <button onClick={() => handleStatus(lot, 'rejected')} className="text-red-400 hover:text-red-300">REJECT</button>
+                    )}
+                    <button onClick={() => handleGenealogy(lot)} className="text-blue-400 hover:text-blue-300">
+                      {genealogy?.lot.id === lot.id ? 'HIDE BATCHES' : 'BATCHES'}
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {genealogy && (
+        <div className="bg-black/30 border border-white/10 rounded-sm p-3">
+          <h4 className="text-xs font-bold text-white font-tech uppercase tracking-wider mb-2">
+            Batches using lot {genealogy.lot.lotNumber}
+          </h4>
+          {genealogy.batches.length === 0 ? (
+            <p className="text-xs text-gray-500 font-mono">No batches have drawn from this lot.</p>
+          ) : (
+            <ul className="space-y-1">
+              {genealogy.batches.map(batch => (
+                <li key={batch.id} className="text-xs text-gray-300 font-mono">
+                  {batch.batchNo}{batch.productName ? ` · ${batch.productName}` : ''}
+                  {batch.equipment ? ` · ${batch.equipment.name}` : ''}
+                  {' · '}{batch.quantity} {unit}
+                  {batch.actualStart ? ` · started ${format(new Date(batch.actualStart), 'MMM d, HH:mm')}` : ''}
+                  <span className="ml-2 text-gray-500 uppercase">{batch.status}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleReceive} className="space-y-3 border-t border-white/10 pt-4">
+        <h4 className="text-xs font-bold text-white font-tech uppercase tracking-wider">Receive Lot</h4>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Lot Number *</label>
+            <input
+              type="text"
+              required
+              value={lotData.lotNumber}
+              onChange={(e) => setLotData({ ...lotData, lotNumber: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Supplier</label>
+            <input
+              type="text"
+              value={lotData.supplier}
+              onChange={(e) => setLotData({ ...lotData, supplier: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Quantity ({unit}) *</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0.01"
+              required
+              value={lotData.quantity}
+              onChange={(e) => setLotData({ ...lotData, quantity: parseFloat(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Expiry Date</label>
+            <input
+              type="date"
+              value={lotData.expiryDate}
+              onChange={(e) => setLotData({ ...lotData, expiryDate: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Initial Status</label>
+            <select
+              value={lotData.status}
+              onChange={(e) => setLotData({ ...lotData, status: e.target.value })}
+              className={inputClass}
+            >
+              <option value="quarantine">QUARANTINE</option>
+              <option value="released">RELEASED</option>
+            </select>
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            className="px-4 py-2 bg-white/10 text-white border border-white/50 rounded-sm hover:bg-white/20 font-tech text-sm tracking-wider font-bold"
+          >
+            RECEIVE LOT
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default MaterialLots;
@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { CalendarDaysIcon, ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import Modal from './Modal';
+
+interface Requirement {
+  date: string;
+  batchEventId: number;
+  batchNo: string;
+  productName: string;
+  status: string;
+  quantity: number;
+  balance: number;
+}
+
+interface PurchaseSuggestion {
+  quantity: number;
+  needBy: string;
+  orderBy: string;
+  expectedArrival: string;
+  late: boolean;
+  estimatedCost: number | null;
+}
+
+interface MaterialPlan {
+  material: {
+    id: number;
+    materialId: string | null;
+    name: string;
+    unit: string;
+    supplier: string | null;
+    minimumStock: number;
+  };
+  leadTimeDays: number;
+  available: number;
+  demand: number;
+  projectedBalance: number;
+  lowestBalance: number;
+  shortageDate: string | null;
+  belowMinimumDate: string | null;
+  requirements: Requirement[];
+  suggestion: PurchaseSuggestion | null;
+}
+
+interface Projection {
+  horizonDays: number;
+  defaultLeadTimeDays: number;
+  materials: MaterialPlan[];
+}
+
+const horizons = [30, 60, 90];
+
+const formatDate = (date: string) => format(new Date(date), 'MMM d');
+
+const MaterialPlanning: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [horizonDays, setHorizonDays] = useState(60);
+  const [projection, setProjection] = useState<Projection | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLoading(true);
+    axios.get('/materials/mrp', { params: { horizonDays } })
+      .then(response => setProjection(response.data))
+      .catch(error => {
+        console.error('Error fetching material requirements plan:', error);
+        toast.error(error.response?.data?.error || 'Failed to load material requirements plan');
+      })
+      .finally(() => setLoading(false));
+  }, [isOpen, horizonDays]);
+
+  const plans = projection
+    ? projection.materials.filter(plan => showAll || plan.suggestion || plan.requirements.length > 0)
+    : [];
+  const toOrder = projection ? projection.materials.filter(plan => plan.suggestion).length : 0;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="inline-flex items-center justify-center px-4 py-2 border border-white/50 text-sm font-bold font-tech text-white bg-black/50 hover:bg-white/10 transition-all duration-300 rounded-sm"
+        title="Projected stock against upcoming batches, with purchase suggestions"
+      >
+        <CalendarDaysIcon className="-ml-1 mr-2 h-5 w-5" />
+        MRP
+      </button>
+
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title="MATERIAL REQUIREMENTS PLAN" size="4xl">
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <div className="flex gap-2">
+              {horizons.map(days => (
+                <button
+                  key={days}
+                  onClick={() => setHorizonDays(days)}
+                  className={`px-3 py-1 text-xs font-bold tracking-wider font-tech rounded-sm border ${horizonDays === days
+                    ? 'bg-white/20 border-white text-white'
+                    : 'bg-gray-900/50 border-gray-700 text-gray-400 hover:border-white/50 hover:text-white'
+                    }`}
+                >
+                  {days} DAYS
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-400 font-mono cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showAll}
+                onChange={(e) => setShowAll(e.target.checked)}
+                className="rounded-sm bg-black/50 border-white/20"
+              />
+              SHOW MATERIALS WITHOUT DEMAND
+            </label>
+          </div>
+
+          {loading && !projection ? (
+            <p className="text-xs text-gray-500 font-mono">LOADING...</p>
+          ) : projection && (
+            <>
+              <p className="text-xs text-gray-400 font-mono">
+                Scheduled and running batches draw their planned quantities on their start dates.
+                {' '}{toOrder} material{toOrder === 1 ? '' : 's'} to order within {projection.horizonDays} days.
+                {' '}Materials without a lead time use {projection.defaultLeadTimeDays} days.
+              </p>
+
+              <div className="max-h-[60vh] overflow-y-auto custom-scrollbar border border-white/10 rounded-sm">
+                <table className="min-w-full divide-y divide-white/10">
+                  <thead className="bg-white/5">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Material</th>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Available</th>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Demand</th>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Lowest</th>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Short On</th>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Order</th>
+                      <th className="px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Order By</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/10 bg-black/30">
+                    {plans.length === 0 ? (
+                      <tr><td colSpan={7} className="px-3 py-4 text-center text-xs text-gray-500 font-mono">NO UPCOMING MATERIAL DEMAND</td></tr>
+                    ) : plans.map(plan => (
+                      <React.Fragment key={plan.material.id}>
+                        <tr
+                          onClick={() => setExpanded(expanded === plan.material.id ? null : plan.material.id)}
+                          className="cursor-pointer hover:bg-white/5"
+                        >
+                          <td className="px-3 py-2 text-xs text-white font-mono">
+                            <span className="inline-flex items-center">
+                              {expanded === plan.material.id
+                                ? <ChevronDownIcon className="h-3 w-3 mr-1 text-gray-500" />
+                                : <ChevronRightIcon className="h-3 w-3 mr-1 text-gray-500" />}
+                              {plan.material.name}
+                            </span>
+                            {plan.material.supplier && <span className="block text-[10px] text-gray-500 ml-4">{plan.material.supplier}</span>}
+                          </td>
+                          <td className="px-3 py-2 text-xs text-gray-300 font-mono">{plan.available} {plan.material.unit}</td>
+                          <td className="px-3 py-2 text-xs text-gray-300 font-mono">{plan.demand} {plan.material.unit}</td>
+                          <td className={`px-3 py-2 text-xs font-mono ${plan.lowestBalance < 0 ? 'text-red-400' : plan.lowestBalance < plan.material.minimumStock ? 'text-yellow-300' : 'text-gray-300'}`}>
+                            {plan.lowestBalance} {plan.material.unit}
+                          </td>
+                          <td className="px-3 py-2 text-xs font-mono">
+                            {plan.shortageDate
+                              ? <span className="text-red-400">{formatDate(plan.shortageDate)}</span>
+                              : plan.belowMinimumDate
+                                ? <span className="text-yellow-300">MIN {formatDate(plan.belowMinimumDate)}</span>
+                                : <span className="text-green-300">OK</span>}
+                          </td>
+                          <td className="px-3 py-2 text-xs text-white font-mono font-bold">
+                            {plan.suggestion ? `${plan.suggestion.quantity} ${plan.material.unit}` : '-'}
+                            {plan.suggestion?.estimatedCost != null && (
+                              <span className="block text-[10px] text-gray-500 font-normal">${plan.suggestion.estimatedCost.toFixed(2)}</span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-xs font-mono">
+                            {plan.suggestion ? (
+                              <>
+                                <span className={plan.suggestion.late ? 'text-red-400 font-bold' : 'text-gray-300'}>
+                                  {plan.suggestion.late ? 'LATE' : formatDate(plan.suggestion.orderBy)}
+                                </span>
+                                <span className="block text-[10px] text-gray-500">{plan.leadTimeDays}d lead time</span>
+                              </>
+                            ) : '-'}
+                          </td>
+                        </tr>
+                        {expanded === plan.material.id && (
+                          <tr>
+                            <td colSpan={7} className="px-6 py-3 bg-white/5">
+                              {plan.suggestion?.late && (
+                                <p className="text-[10px] text-red-400 font-mono mb-2">
+                                  SHOULD HAVE BEEN ORDERED BY {formatDate(plan.suggestion.orderBy).toUpperCase()}; ORDERED TODAY IT ARRIVES {formatDate(plan.suggestion.expectedArrival).toUpperCase()}, NEEDED {formatDate(plan.suggestion.needBy).toUpperCase()}
+                                </p>
+                              )}
+                              {plan.requirements.length === 0 ? (
+                                <p className="text-xs text-gray-500 font-mono">NO UPCOMING BATCHES USE THIS MATERIAL</p>
+                              ) : (
+                                <div className="divide-y divide-white/5">
+                                  {plan.requirements.map(requirement => (
+                                    <div key={requirement.batchEventId} className="py-1 flex justify-between text-xs font-mono">
+                                      <span className="text-gray-300">
+                                        {formatDate(requirement.date)}
+                                        <span className="text-white ml-3">{requirement.batchNo}</span>
+                                        <span className="text-gray-500"> • {requirement.productName}</span>
+                                      </span>
+                                      <span className="whitespace-nowrap ml-4">
+                                        <span className="text-gray-400">-{requirement.quantity}</span>
+                                        <span className={`ml-3 ${requirement.balance < 0 ? 'text-red-400' : requirement.balance < plan.material.minimumStock ? 'text-yellow-300' : 'text-gray-300'}`}>
+                                          {requirement.balance} {plan.material.unit}
+                                        </span>
+                                      </span>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </Modal>
+    </>
+  );
+};
+
+export default MaterialPlanning;
@@ -0,0 +1,344 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { TrashIcon } from '@heroicons/react/24/outline';
+
+interface PlanStep {
+  stepNumber: number;
+  title: string;
+  equipmentId: string;
+  startTime: string;
+  endTime: string;
+  type: 'BATCH' | 'MAINTENANCE' | 'OTHER';
+  included: boolean;
+}
+
+interface PlanData {
+  batchMetadata: {
+    productName: string;
+    batchId: string;
+    plannedStart?: string | null;
+    plannedEnd?: string | null;
+  };
+  equipment: { id: string; name?: string; type?: string }[];
+  inventory: { name: string; quantity: number; unit: string }[];
+  steps: PlanStep[];
+}
+
+interface PlanReview {
+  equipment: { id: string; name?: string; match: { id: number; name: string } | null }[];
+  steps: {
+    index: number;
+    included: boolean;
+    equipmentStatus: 'matched' | 'new' | 'missing';
+    equipment: { id: number; name: string } | null;
+    errors: string[];
+    conflicts: { type: 'batch' | 'maintenance'; id: number | null; label: string; startTimestamp: string; endTimestamp: string; source: 'database' | 'plan' }[];
+  }[];
+  materials: { name: string; match: { id: number; name: string; unit: string } | null; quantity: number; error: string | null }[];
+  canCommit: boolean;
+}
+
+interface EquipmentOption {
+  id: number;
+  name: string;
+  equipmentId?: string | null;
+}
+
+interface PlanDraftReviewProps {
+  draftId: number;
+  onClose: () => void;
+  onCommitted: () => void;
+}
+
+const inputClass = 'w-full bg-black/50 border border-white/20 rounded-sm px-2 py-1 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-xs';
+
+const equipmentStatusStyles = {
+  matched: 'bg-green-900/40 text-green-300 border-green-500/30',
+  new: 'bg-yellow-900/40 text-yellow-300 border-yellow-500/30',
+  missing: 'bg-red-900/40 text-red-300 border-red-500/30'
+};
+
+// datetime-local inputs work in local time without seconds; the plan stores ISO strings
+const toInputValue = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? '' : format(date, "yyyy-MM-dd'T'HH:mm");
+};
+
+const PlanDraftReview: React.FC<PlanDraftReviewProps> = ({ draftId, onClose, onCommitted }) => {
+  const [plan, setPlan] = useState<PlanData | null>(null);
+  const [review, setReview] = useState<PlanReview | null>(null);
+  const [equipment, setEquipment] = useState<EquipmentOption[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([axios.get(`/api/upload-plan/drafts/${draftId}`), axios.get('/equipment')])
+      .then(([draftResponse, equipmentResponse]) => {
+        setPlan(draftResponse.data.draft.plan);
+        setReview(draftResponse.data.review);
+        setEquipment(equipmentResponse.data);
+      })
+      .catch(error => {
+        console.error('Error fetching plan draft:', error);
+        toast.error('Failed to load plan draft');
+      });
+  }, [draftId]);
+
+  if (!plan || !review) {
+    return <p className="text-center text-sm text-gray-500 font-mono py-4">LOADING PLAN...</p>;
+  }
+
+  const updatePlan = (changes: Partial<PlanData>) => {
+    setPlan({ ...plan, ...changes });
+    setDirty(true);
+  };
+
+  const updateStep = (index: number, changes: Partial<PlanStep>) => {
+    updatePlan({ steps: plan.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await axios.put(`/api/upload-plan/drafts/${draftId}`, { plan });
+      setPlan(response.data.draft.plan);
+      setReview(response.data.review);
+      setDirty(false);
+      return response.data.review as PlanReview;
+    } catch (error: any) {
+      console.error('Error saving plan draft:', error);
+      toast.error(error.response?.data?.error || 'Failed to save plan draft');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    const latest = dirty ? await handleSave() : review;
+    if (!latest?.canCommit) {
+      if (latest) toast.error('Resolve the highlighted steps and materials before committing');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await axios.post(`/api/upload-plan/drafts/${draftId}/commit`);
+      toast.success(`Plan committed. Added ${response.data.eventsCreated} events.`);
+      onCommitted();
+    } catch (error: any) {
+      console.error('Error committing plan draft:', error);
+      if (error.response?.data?.review) setReview(error.response.data.review);
+      toast.error(error.response?.data?.error || 'Failed to commit plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!window.confirm('Reject this plan? Nothing from it will be scheduled.')) return;
+
+    try {
+      await axios.post(`/api/upload-plan/drafts/${draftId}/reject`);
+      toast.success('Plan draft rejected');
+      onClose();
+    } catch (error: any) {
+      console.error('Error rejecting plan draft:', error);
+      toast.error(error.response?.data?.error || 'Failed to reject plan');
+    }
+  };
+
+  // Existing equipment plus any new equipment the plan would create
+  const newEquipment = review.equipment.filter(eq => !eq.match);
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider font-tech mb-1">Batch No</label>
+          <input
+            className={inputClass}
+            value={plan.batchMetadata.batchId}
+            onChange={(e) => updatePlan({ batchMetadata: { ...plan.batchMetadata, batchId: e.target.value } })}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider font-tech mb-1">Product</label>
+          <input
+            className={inputClass}
+            value={plan.batchMetadata.productName}
+            onChange={(e) => updatePlan({ batchMetadata: { ...plan.batchMetadata, productName: e.target.value } })}
+          />
+        </div>
+      </div>
+
+      {/* Steps */}
+      <div>
+        <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider font-tech mb-2">Steps</h4>
+        <div className="space-y-2 max-h-[40vh] overflow-y-auto pr-1 custom-scrollbar">
+          {plan.steps.map((step, index) => {
+            const stepReview = review.steps[index];
+            const hasIssues = !!stepReview && step.included && (stepReview.errors.length > 0 || stepReview.conflicts.length > 0);
+            const knownReference = equipment.some(e => (e.equipmentId || e.name) === step.equipmentId) ||
+              newEquipment.some(eq => eq.id === step.equipmentId);
+
+            return (
+              <div
+                key={index}
+                className={`border rounded-sm p-2 ${hasIssues ? 'border-red-500/40 bg-red-900/10' : 'border-white/10 bg-black/30'} ${step.included ? '' : 'opacity-50'}`}
+              >
+                <div className="grid grid-cols-12 gap-2 items-center">
+                  <label className="col-span-1 flex items-center gap-1 text-xs text-gray-400 font-mono">
+                    <input
+                      type="checkbox"
+                      checked={step.included}
+                      onChange={(e) => updateStep(index, { included: e.target.checked })}
+                      className="rounded border-gray-600 bg-gray-800 text-blue-500 focus:ring-offset-black focus:ring-blue-500"
+                      title="Include this step"
+                    />
+                    {step.stepNumber}
+                  </label>
+                  <input
+                    className={`${inputClass} col-span-3`}
+                    value={step.title}
+                    onChange={(e) => updateStep(index, { title: e.target.value })}
+                  />
+                  <select
+                    className={`${inputClass} col-span-2`}
+                    value={step.equipmentId}
+                    onChange={(e) => updateStep(index, { equipmentId: e.target.value })}
+                  >
+                    {!knownReference && <option value={step.equipmentId}>UNMATCHED: {step.equipmentId || '—'}</option>}
+                    {equipment.map(e => (
+                      <option key={e.id} value={e.equipmentId || e.name}>{e.name}</option>
+                    ))}
+                    {newEquipment.map(eq => (
+                      <option key={`new-${eq.id}`} value={eq.id}>NEW: {eq.name || eq.id}</option>
+                    ))}
+                  </select>
+                  <select
+                    className={`${inputClass} col-span-2`}
+                    value={step.type}
+                    onChange={(e) => updateStep(index, { type: e.target.value as PlanStep['type'] })}
+                  >
+                    <option value="BATCH">BATCH</option>
+                    <option value="MAINTENANCE">MAINTENANCE</option>
+                    <option value="OTHER">OTHER</option>
+                  </select>
+                  <input
+                    type="datetime-local"
+                    className={`${inputClass} col-span-2`}
+                    value={toInputValue(step.startTime)}
+                    onChange={(e) => updateStep(index, { startTime: new Date(e.target.value).toISOString() })}
+                  />
+                  <input
+                    type="datetime-local"
+                    className={`${inputClass} col-span-2`}
+                    value={toInputValue(step.endTime)}
+                    onChange={(e) => updateStep(index, { endTime: new Date(e.target.value).toISOString() })}
+                  />
+                </div>
+
+                {stepReview && step.included && (
+                  <div className="mt-1 pl-1 space-y-0.5">
+                    <span className={`inline-flex rounded px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider border ${equipmentStatusStyles[stepReview.equipmentStatus]}`}>
+                      {stepReview.equipmentStatus === 'matched' ? `MATCHED: ${stepReview.equipment?.name}` : stepReview.equipmentStatus}
+                    </span>
+                    {stepReview.errors.map((message, i) => (
+                      <p key={i} className="text-xs text-red-300 font-mono">{message}</p>
+                    ))}
+                    {stepReview.conflicts.map((conflict, i) => (
+                      <p key={i} className="text-xs text-yellow-300 font-mono">
+                        Overlaps {conflict.source === 'plan' || conflict.type === 'maintenance' ? conflict.label : `batch ${conflict.label}`} ({format(new Date(conflict.startTimestamp), 'MMM d HH:mm')} – {format(new Date(conflict.endTimestamp), 'MMM d HH:mm')})
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Materials */}
+      <div>
+        <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider font-tech mb-2">Materials</h4>
+        {plan.inventory.length === 0 ? (
+          <p className="text-xs text-gray-500 font-mono">NO MATERIALS EXTRACTED</p>
+        ) : (
+          <div className="space-y-1">
+            {plan.inventory.map((item, index) => {
+              const reviewed = dirty ? undefined : review.materials[index];
+              const match = reviewed?.match;
+
+              return (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <span className="col-span-5 text-xs text-white font-mono truncate">{item.name}</span>
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    className={`${inputClass} col-span-2`}
+                    value={item.quantity}
+                    onChange={(e) => updatePlan({
+                      inventory: plan.inventory.map((m, i) => (i === index ? { ...m, quantity: Number(e.target.value) } : m))
+                    })}
+                  />
+                  <span className="col-span-1 text-xs text-gray-400 font-mono">{item.unit}</span>
+                  <span className="col-span-3 text-[10px] font-mono uppercase">
+                    {dirty ? '' : reviewed?.error ? (
+                      <span className="text-red-300 normal-case" title={reviewed.error}>{reviewed.error}</span>
+                    ) : match ? (
+                      <span className="text-green-300">IN STOCK LIST{match.unit !== item.unit ? ` (${Number(reviewed!.quantity.toFixed(3))} ${match.unit})` : ''}</span>
+                    ) : <span className="text-yellow-300">NEW MATERIAL</span>}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => updatePlan({ inventory: plan.inventory.filter((_, i) => i !== index) })}
+                    className="col-span-1 text-gray-400 hover:text-red-400 transition-colors"
+                    title="Remove"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-between items-center pt-2 border-t border-white/10">
+        <button
+          type="button"
+          onClick={handleReject}
+          disabled={saving}
+          className="px-4 py-2 text-xs font-bold font-tech text-red-400 hover:text-red-300 transition-colors disabled:opacity-40"
+        >
+          REJECT PLAN
+        </button>
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || !dirty}
+            className="px-4 py-2 border border-white/30 text-xs font-bold font-tech text-white bg-white/5 hover:bg-white/10 rounded-sm disabled:opacity-40"
+          >
+            SAVE &amp; RECHECK
+          </button>
+          <button
+            type="button"
+            onClick={handleCommit}
+            disabled={saving || (!dirty && !review.canCommit)}
+            className="px-4 py-2 border border-[#007A73] text-xs font-bold font-tech text-white bg-[#007A73]/30 hover:bg-[#007A73]/50 rounded-sm disabled:opacity-40"
+          >
+            {saving ? 'WORKING...' : 'COMMIT PLAN'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanDraftReview;
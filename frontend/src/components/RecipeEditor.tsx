@@ -0,0 +1,674 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { GripVertical } from 'lucide-react';
+import { PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+export interface RecipeDetail {
+  id: number;
+  recipeId?: string | null;
+  name: string;
+  product: string;
+  version: number;
+  status: string;
+  yield?: string | number | null;
+  yieldUnit?: string | null;
+  totalTime?: number | null;
+  description?: string | null;
+  steps: {
+    id: number;
+    stepNumber: number;
+    name: string;
+    description?: string | null;
+    equipmentId?: number | null;
+    duration?: number | null;
+    temperature?: string | number | null;
+    temperatureUnit?: string | null;
+    pressure?: string | number | null;
+    pressureUnit?: string | null;
+    instructions?: string | null;
+    processParameters?: Record<string, any> | null;
+    sdsLinks?: { sds: { id: number; chemicalName: string; casNumber?: string | null } }[];
+  }[];
+  materials: {
+    materialId: number;
+    stepNumber?: number | null;
+    quantity: string | number;
+    unit: string;
+    timingNotes?: string | null;
+  }[];
+}
+
+interface RecipeEditorProps {
+  recipe?: RecipeDetail;
+  onSaved: (recipe: RecipeDetail) => void;
+  onCancel: () => void;
+}
+
+interface Option {
+  id: number;
+  name: string;
+  unit?: string;
+  chemicalName?: string;
+  casNumber?: string | null;
+}
+
+interface StepMaterialForm {
+  materialId: number | '';
+  quantity: string;
+  unit: string;
+  timingNotes: string;
+}
+
+interface StepForm {
+  key: string;
+  id?: number;
+  name: string;
+  description: string;
+  equipmentId: number | '';
+  duration: string;
+  temperature: string;
+  temperatureUnit: string;
+  pressure: string;
+  pressureUnit: string;
+  instructions: string;
+  parameters: { key: string; value: string }[];
+  materials: StepMaterialForm[];
+  sdsLinks: { id: number; chemicalName: string }[];
+  pendingSdsIds: number[];
+}
+
+const inputClass = 'w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm';
+const labelClass = 'block text-xs font-medium text-gray-400 mb-1 font-mono uppercase';
+
+let nextKey = 0;
+const newKey = () => `step-${nextKey++}`;
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+const emptyStep = (): StepForm => ({
+  key: newKey(),
+  name: '',
+  description: '',
+  equipmentId: '',
+  duration: '',
+  temperature: '',
+  temperatureUnit: '°C',
+  pressure: '',
+  pressureUnit: 'bar',
+  instructions: '',
+  parameters: [],
+  materials: [],
+  sdsLinks: [],
+  pendingSdsIds: []
+});
+
+const toStepForms = (recipe?: RecipeDetail): StepForm[] =>
+  (recipe?.steps || []).map(step => ({
+    key: newKey(),
+    id: step.id,
+    name: step.name,
+    description: text(step.description),
+    equipmentId: step.equipmentId || '',
+    duration: text(step.duration),
+    temperature: text(step.temperature),
+    temperatureUnit: step.temperatureUnit || '°C',
+    pressure: text(step.pressure),
+    pressureUnit: step.pressureUnit || 'bar',
+    instructions: text(step.instructions),
+    parameters: Object.entries(step.processParameters || {}).map(([key, value]) => ({ key, value: text(value) })),
+    materials: recipe!.materials
+      .filter(m => m.stepNumber === step.stepNumber)
+      .map(m => ({ materialId: m.materialId, quantity: text(m.quantity), unit: m.unit, timingNotes: text(m.timingNotes) })),
+    sdsLinks: (step.sdsLinks || []).map(link => ({ id: link.sds.id, chemicalName: link.sds.chemicalName })),
+    pendingSdsIds: []
+  }));
+
+const optionalNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+// Numeric parameter values are stored as numbers so setpoint limits (e.g. phMin) can be compared
+const parameterValue = (value: string) =>
+  value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+
+const RecipeEditor: React.FC<RecipeEditorProps> = ({ recipe, onSaved, onCancel }) => {
+  const [equipment, setEquipment] = useState<Option[]>([]);
+  const [materials, setMaterials] = useState<Option[]>([]);
+  const [sdsList, setSdsList] = useState<Option[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [formData, setFormData] = useState({
+    recipeId: text(recipe?.recipeId),
+    name: recipe?.name || '',
+    product: recipe?.product || '',
+    yield: text(recipe?.yield),
+    yieldUnit: recipe?.yieldUnit || 'kg',
+    description: text(recipe?.description)
+  });
+  const [steps, setSteps] = useState<StepForm[]>(() => {
+    const forms = toStepForms(recipe);
+    return forms.length > 0 ? forms : [emptyStep()];
+  });
+  // Materials not tied to a particular step are carried through untouched
+  const unassignedMaterials = (recipe?.materials || []).filter(m => !m.stepNumber);
+
+  const isLocked = recipe && (recipe.status === 'approved' || recipe.status === 'active');
+
+  useEffect(() => {
+    Promise.all([axios.get('/equipment'), axios.get('/materials'), axios.get('/sds')])
+      .then(([equipmentRes, materialsRes, sdsRes]) => {
+        setEquipment(equipmentRes.data);
+        setMaterials(materialsRes.data);
+        setSdsList(sdsRes.data);
+      })
+      .catch(error => {
+        console.error('Error fetching recipe builder options:', error);
+        toast.error('Failed to load equipment and materials');
+      });
+  }, []);
+
+  const updateStep = (index: number, changes: Partial<StepForm>) => {
+    setSteps(prev => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const removeStep = (index: number) => {
+    setSteps(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex === null || dragIndex === index) return;
+    setSteps(prev => {
+      const reordered = [...prev];
+      const [moved] = reordered.splice(dragIndex, 1);
+      reordered.splice(index, 0, moved);
+      return reordered;
+    });
+    setDragIndex(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Step numbers follow the order on screen, so reordering renumbers steps and their materials
+    const payload = {
+      recipeId: formData.recipeId || null,
+      name: formData.name,
+      product: formData.product,
+      yield: optionalNumber(formData.yield),
+      yieldUnit: formData.yieldUnit || null,
+      description: formData.description || null,
+      steps: steps.map((step, index) => ({
+        id: step.id,
+        stepNumber: index + 1,
+        name: step.name,
+        description: step.description || null,
+        equipmentId: step.equipmentId || null,
+        duration: optionalNumber(step.duration),
+        temperature: optionalNumber(step.temperature),
+        temperatureUnit: step.temperatureUnit || null,
+        pressure: optionalNumber(step.pressure),
+        pressureUnit: step.pressureUnit || null,
+        instructions: step.instructions || null,
+        processParameters: step.parameters.length > 0
+          ? Object.fromEntries(step.parameters.filter(p => p.key.trim()).map(p => [p.key.trim(), parameterValue(p.value)]))
+          : null
+      })),
+      materials: [
+        ...steps.flatMap((step, index) =>
+          step.materials
+            .filter(m => m.materialId !== '')
+            .map(m => ({
+              materialId: m.materialId,
+              stepNumber: index + 1,
+              quantity: Number(m.quantity),
+              unit: m.unit,
+              timingNotes: m.timingNotes || null
+            }))
+        ),
+        ...unassignedMaterials.map(m => ({
+          materialId: m.materialId,
+          stepNumber: null,
+          quantity: Number(m.quantity),
+          unit: m.unit,
+          timingNotes: m.timingNotes || null
+        }))
+      ]
+    };
+
+    setSaving(true);
+    try {
+      const response = recipe
+        ? await axios.put(`/recipes/${recipe.id}`, payload)
+        : await axios.post('/recipes', payload);
+      const saved: RecipeDetail = response.data.versionCreated ? response.data.recipe : response.data;
+
+      // SDS links need the saved step IDs, so they are attached once the recipe exists
+      const links = steps.flatMap((step, index) => {
+        const savedStep = saved.steps.find(s => s.stepNumber === index + 1);
+        return savedStep ? step.pendingSdsIds.map(sdsId => ({ sdsId, recipeStepId: savedStep.id })) : [];
+      });
+      for (const link of links) {
+        await axios.post(`/sds/${link.sdsId}/link-to-recipe-step`, { recipeStepId: link.recipeStepId });
+      }
+
+      toast.success(response.data.versionCreated
+        ? `Saved as new draft version ${saved.version}`
+        : recipe ? 'Recipe updated successfully' : 'Recipe created successfully');
+      onSaved(links.length > 0 ? (await axios.get(`/recipes/${saved.id}`)).data : saved);
+    } catch (error: any) {
+      console.error('Error saving recipe:', error);
+      toast.error(error.response?.data?.error || 'Failed to save recipe');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalTime = steps.reduce((sum, step) => sum + (Number(step.duration) || 0), 0);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {isLocked && (
+        <div className="bg-yellow-900/20 border-l-4 border-yellow-500 p-3">
+          <p className="text-xs text-yellow-200 font-mono">
+            THIS RECIPE IS {recipe!.status.toUpperCase()} - SAVING CREATES A NEW DRAFT VERSION
+          </p>
+        </div>
+      )}
+
+      <div className="bg-black/50 border border-white/10 rounded-sm p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>Recipe ID</label>
+          <input
+            type="text"
+            value={formData.recipeId}
+            onChange={(e) => setFormData({ ...formData, recipeId: e.target.value })}
+            disabled={!!recipe}
+            className={`${inputClass} disabled:opacity-50`}
+            placeholder="AUTO-GENERATED IF EMPTY"
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Name *</label>
+          <input
+            type="text"
+            required
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Product *</label>
+          <input
+            type="text"
+            required
+            value={formData.product}
+            onChange={(e) => setFormData({ ...formData, product: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>Yield</label>
+            <input
+              type="number"
+              step="0.01"
+              value={formData.yield}
+              onChange={(e) => setFormData({ ...formData, yield: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Unit</label>
+            <input
+              type="text"
+              value={formData.yieldUnit}
+              onChange={(e) => setFormData({ ...formData, yieldUnit: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="md:col-span-2">
+          <label className={labelClass}>Description</label>
+          <input
+            type="text"
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <h2 className="text-sm font-bold text-white font-tech tracking-widest">
+          STEPS <span className="text-gray-500 font-mono text-xs ml-2">TOTAL {totalTime} MIN</span>
+        </h2>
+        <span className="text-[10px] text-gray-500 font-mono">DRAG STEPS TO REORDER</span>
+      </div>
+
+      <div className="space-y-3">
+        {steps.map((step, index) => (
+          <div
+            key={step.key}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            className={`bg-black/50 border rounded-sm p-4 transition-colors ${dragIndex === index ? 'border-[#007A73] opacity-50' : 'border-white/10'}`}
+          >
+            <div className="flex items-start gap-3">
+              <div
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragEnd={() => setDragIndex(null)}
+                className="flex flex-col items-center pt-6 cursor-grab text-gray-500 hover:text-white"
+                title="Drag to reorder"
+              >
+                <GripVertical size={18} />
+                <span className="text-xs font-mono font-bold mt-1">{index + 1}</span>
+              </div>
+
+              <div className="flex-1 space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                  <div className="md:col-span-2">
+                    <label className={labelClass}>Step Name *</label>
+                    <input
+                      type="text"
+                      required
+                      value={step.name}
+                      onChange={(e) => updateStep(index, { name: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Equipment</label>
+                    <select
+                      value={step.equipmentId}
+                      onChange={(e) => updateStep(index, { equipmentId: e.target.value ? parseInt(e.target.value) : '' })}
+                      className={inputClass}
+                    >
+                      <option value="">NONE</option>
+                      {equipment.map(eq => (
+                        <option key={eq.id} value={eq.id}>{eq.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Duration (min)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={step.duration}
+                      onChange={(e) => updateStep(index, { duration: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div>
+                    <label className={labelClass}>Temperature</label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={step.temperature}
+                      onChange={(e) => updateStep(index, { temperature: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Temp Unit</label>
+                    <select
+                      value={step.temperatureUnit}
+                      onChange={(e) => updateStep(index, { temperatureUnit: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="°C">°C</option>
+                      <option value="°F">°F</option>
+                      <option value="K">K</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Pressure</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={step.pressure}
+                      onChange={(e) => updateStep(index, { pressure: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Pressure Unit</label>
+                    <select
+                      value={step.pressureUnit}
+                      onChange={(e) => updateStep(index, { pressureUnit: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="bar">BAR</option>
+                      <option value="psi">PSI</option>
+                      <option value="kPa">KPA</option>
+                      <option value="atm">ATM</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className={labelClass}>Description</label>
+                    <textarea
+                      rows={2}
+                      value={step.description}
+                      onChange={(e) => updateStep(index, { description: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Instructions</label>
+                    <textarea
+                      rows={2}
+                      value={step.instructions}
+                      onChange={(e) => updateStep(index, { instructions: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                {/* Process parameters */}
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <label className={labelClass}>Process Parameters</label>
+                    <button
+                      type="button"
+                      onClick={() => updateStep(index, { parameters: [...step.parameters, { key: '', value: '' }] })}
+                      className="text-[10px] text-blue-400 hover:text-blue-300 font-mono"
+                    >
+                      + ADD PARAMETER
+                    </button>
+                  </div>
+                  {step.parameters.map((param, pIndex) => (
+                    <div key={pIndex} className="flex gap-2 mb-2">
+                      <input
+                        type="text"
+                        value={param.key}
+                        onChange={(e) => updateStep(index, {
+                          parameters: step.parameters.map((p, i) => (i === pIndex ? { ...p, key: e.target.value } : p))
+                        })}
+                        className={inputClass}
+                        placeholder="e.g. ph, agitationRpm, temperatureTolerance"
+                      />
+                      <input
+                        type="text"
+                        value={param.value}
+                        onChange={(e) => updateStep(index, {
+                          parameters: step.parameters.map((p, i) => (i === pIndex ? { ...p, value: e.target.value } : p))
+                        })}
+                        className={inputClass}
+                        placeholder="VALUE"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => updateStep(index, { parameters: step.parameters.filter((_, i) => i !== pIndex) })}
+                        className="text-gray-400 hover:text-red-400"
+                      >
+                        <XMarkIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Step materials */}
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <label className={labelClass}>Materials</label>
+                    <button
+                      type="button"
+                      onClick={() => updateStep(index, {
+                        materials: [...step.materials, { materialId: '', quantity: '', unit: 'kg', timingNotes: '' }]
+                      })}
+                      className="text-[10px] text-blue-400 hover:text-blue-300 font-mono"
+                    >
+                      + ADD MATERIAL
+                    </button>
+                  </div>
+                  {step.materials.map((material, mIndex) => {
+                    const updateMaterial = (changes: Partial<StepMaterialForm>) => updateStep(index, {
+                      materials: step.materials.map((m, i) => (i === mIndex ? { ...m, ...changes } : m))
+                    });
+
+                    return (
+                      <div key={mIndex} className="grid grid-cols-[2fr_1fr_1fr_2fr_auto] gap-2 mb-2">
+                        <select
+                          required
+                          value={material.materialId}
+                          onChange={(e) => {
+                            const selected = materials.find(m => m.id === parseInt(e.target.value));
+                            updateMaterial({
+                              materialId: selected ? selected.id : '',
+                              unit: selected?.unit || material.unit
+                            });
+                          }}
+                          className={inputClass}
+                        >
+                          <option value="">SELECT MATERIAL</option>
+                          {materials.map(m => (
+                            <option key={m.id} value={m.id}>{m.name}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0.01"
+                          required
+                          value={material.quantity}
+                          onChange={(e) => updateMaterial({ quantity: e.target.value })}
+                          className={inputClass}
+                          placeholder="QTY"
+                        />
+                        <input
+                          type="text"
+                          required
+                          value={material.unit}
+                          onChange={(e) => updateMaterial({ unit: e.target.value })}
+                          className={inputClass}
+                        />
+                        <input
+                          type="text"
+                          value={material.timingNotes}
+                          onChange={(e) => updateMaterial({ timingNotes: e.target.value })}
+                          className={inputClass}
+                          placeholder="TIMING NOTES"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => updateStep(index, { materials: step.materials.filter((_, i) => i !== mIndex) })}
+                          className="text-gray-400 hover:text-red-400"
+                        >
+                          <XMarkIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {/* Safety data sheets */}
+                <div>
+                  <label className={labelClass}>Safety Data Sheets</label>
+                  <div className="flex flex-wrap gap-2 items-center">
+                    {step.sdsLinks.map(link => (
+                      <span key={link.id} className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-medium bg-orange-900/40 text-orange-200 border border-orange-500/30">
+                        {link.chemicalName}
+                      </span>
+                    ))}
+                    {step.pendingSdsIds.map(sdsId => (
+                      <span key={sdsId} className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium bg-blue-900/40 text-blue-200 border border-blue-500/30" title="Linked when the recipe is saved">
+                        {sdsList.find(s => s.id === sdsId)?.chemicalName}
+                        <button
+                          type="button"
+                          onClick={() => updateStep(index, { pendingSdsIds: step.pendingSdsIds.filter(id => id !== sdsId) })}
+                        >
+                          <XMarkIcon className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && updateStep(index, {
+                        pendingSdsIds: [...step.pendingSdsIds, parseInt(e.target.value)]
+                      })}
+                      className="bg-black/50 border border-white/20 rounded-sm px-2 py-1 text-white focus:border-white/50 focus:ring-0 font-mono text-xs"
+                    >
+                      <option value="">+ LINK SDS</option>
+                      {sdsList
+                        .filter(s => !step.sdsLinks.some(l => l.id === s.id) && !step.pendingSdsIds.includes(s.id))
+                        .map(s => (
+                          <option key={s.id} value={s.id}>
+                            {s.chemicalName}{s.casNumber ? ` (${s.casNumber})` : ''}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                </div>
+              </div>
+
+              <button
+                type="button"
+                onClick={() => removeStep(index)}
+                disabled={steps.length === 1}
+                className="text-gray-400 hover:text-red-400 disabled:opacity-30 pt-6"
+                title="Remove step"
+              >
+                <TrashIcon className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setSteps([...steps, emptyStep()])}
+        className="w-full inline-flex items-center justify-center px-4 py-2 border border-dashed border-white/20 text-xs font-bold font-tech text-gray-400 hover:text-white hover:border-white/50 rounded-sm"
+      >
+        <PlusIcon className="h-4 w-4 mr-1" />
+        ADD STEP
+      </button>
+
+      <div className="flex justify-end gap-2 pt-4 border-t border-white/10">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-white/20 text-gray-300 rounded-sm hover:bg-white/10 hover:text-white font-tech text-sm tracking-wider"
+        >
+          CANCEL
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-white/10 text-white border border-white/50 rounded-sm hover:bg-white/20 hover:shadow-[0_0_15px_rgba(255,255,255,0.3)] font-tech text-sm tracking-wider font-bold disabled:opacity-50"
+        >
+          {saving ? 'SAVING...' : isLocked ? 'SAVE AS NEW VERSION' : recipe ? 'UPDATE' : 'CREATE'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default RecipeEditor;
@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+
+interface RecipeVersion {
+  id: number;
+  version: number;
+  status: string;
+  createdAt: string;
+}
+
+interface RecipeDetail {
+  id: number;
+  name: string;
+  product: string;
+  version: number;
+  status: string;
+  yield?: string | number | null;
+  yieldUnit?: string | null;
+  totalTime?: number | null;
+  description?: string | null;
+  steps: {
+    stepNumber: number;
+    name: string;
+    description?: string | null;
+    duration?: number | null;
+    temperature?: string | number | null;
+    temperatureUnit?: string | null;
+    pressure?: string | number | null;
+    pressureUnit?: string | null;
+    instructions?: string | null;
+    processParameters?: Record<string, any> | null;
+    equipment?: { name: string } | null;
+    sdsLinks?: { sds: { chemicalName: string } }[];
+  }[];
+  materials: {
+    stepNumber?: number | null;
+    quantity: string | number;
+    unit: string;
+    timingNotes?: string | null;
+    material: { id: number; name: string };
+  }[];
+}
+
+interface RecipeVersionDiffProps {
+  recipeId: number;
+}
+
+type Row = { label: string; left?: string; right?: string };
+
+const show = (value: unknown) =>
+  value === null || value === undefined || value === '' ? undefined : String(value);
+
+const withUnit = (value: unknown, unit?: string | null) =>
+  show(value) !== undefined ? `${Number(value)} ${unit || ''}`.trim() : undefined;
+
+const params = (value?: Record<string, any> | null) =>
+  value && Object.keys(value).length > 0
+    ? Object.entries(value).map(([k, v]) => `${k}=${v}`).join(', ')
+    : undefined;
+
+const headerRows = (left?: RecipeDetail, right?: RecipeDetail): Row[] => [
+  { label: 'Name', left: left?.name, right: right?.name },
+  { label: 'Product', left: left?.product, right: right?.product },
+  { label: 'Yield', left: withUnit(left?.yield, left?.yieldUnit), right: withUnit(right?.yield, right?.yieldUnit) },
+  { label: 'Total Time', left: withUnit(left?.totalTime, 'min'), right: withUnit(right?.totalTime, 'min') },
+  { label: 'Description', left: show(left?.description), right: show(right?.description) }
+];
+
+const stepRows = (left?: RecipeDetail['steps'][number], right?: RecipeDetail['steps'][number]): Row[] => [
+  { label: 'Name', left: left?.name, right: right?.name },
+  { label: 'Equipment', left: left?.equipment?.name, right: right?.equipment?.name },
+  { label: 'Duration', left: withUnit(left?.duration, 'min'), right: withUnit(right?.duration, 'min') },
+  { label: 'Temperature', left: withUnit(left?.temperature, left?.temperatureUnit), right: withUnit(right?.temperature, right?.temperatureUnit) },
+  { label: 'Pressure', left: withUnit(left?.pressure, left?.pressureUnit), right: withUnit(right?.pressure, right?.pressureUnit) },
+  { label: 'Parameters', left: params(left?.processParameters), right: params(right?.processParameters) },
+  { label: 'Description', left: show(left?.description), right: show(right?.description) },
+  { label: 'Instructions', left: show(left?.instructions), right: show(right?.instructions) },
+  {
+    label: 'SDS',
+    left: left?.sdsLinks?.map(l => l.sds.chemicalName).join(', ') || undefined,
+    right: right?.sdsLinks?.map(l => l.sds.chemicalName).join(', ') || undefined
+  }
+];
+
+// Materials are matched across versions by material and step
+const materialKey = (m: RecipeDetail['materials'][number]) => `${m.material.id}:${m.stepNumber ?? '-'}`;
+
+const materialLabel = (m?: RecipeDetail['materials'][number]) =>
+  m ? `${Number(m.quantity)} ${m.unit}${m.timingNotes ? ` (${m.timingNotes})` : ''}` : undefined;
+
+const cellClass = (row: Row, side: 'left' | 'right') => {
+  if (row.left === row.right) return 'text-gray-400';
+  if (side === 'left') return row.right === undefined ? 'bg-red-900/30 text-red-200' : 'bg-yellow-900/30 text-yellow-100';
+  return row.left === undefined ? 'bg-green-900/30 text-green-200' : 'bg-yellow-900/30 text-yellow-100';
+};
+
+const DiffTable: React.FC<{ title: string; rows: Row[] }> = ({ title, rows }) => (
+  <div className="border border-white/10 rounded-sm overflow-hidden">
+    <div className="bg-white/5 px-3 py-2 text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">{title}</div>
+    <table className="min-w-full table-fixed divide-y divide-white/5">
+      <tbody>
+        {rows.filter(row => row.left !== undefined || row.right !== undefined).map((row, i) => (
+          <tr key={i}>
+            <td className="w-28 px-3 py-1.5 text-[10px] text-gray-500 font-mono uppercase align-top">{row.label}</td>
+            <td className={`px-3 py-1.5 text-xs font-mono align-top ${cellClass(row, 'left')}`}>{row.left ?? '—'}</td>
+            <td className={`px-3 py-1.5 text-xs font-mono align-top ${cellClass(row, 'right')}`}>{row.right ?? '—'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const RecipeVersionDiff: React.FC<RecipeVersionDiffProps> = ({ recipeId }) => {
+  const [versions, setVersions] = useState<RecipeVersion[]>([]);
+  const [leftId, setLeftId] = useState<number | null>(null);
+  const [rightId, setRightId] = useState<number | null>(null);
+  const [left, setLeft] = useState<RecipeDetail>();
+  const [right, setRight] = useState<RecipeDetail>();
+
+  useEffect(() => {
+    axios.get(`/recipes/${recipeId}/versions`)
+      .then(response => {
+        const list: RecipeVersion[] = response.data;
+        setVersions(list);
+        // Default to comparing the selected version against the one before it
+        const index = Math.max(list.findIndex(v => v.id === recipeId), 0);
+        setRightId(list[index]?.id ?? null);
+        setLeftId(list[index + 1]?.id ?? list[index]?.id ?? null);
+      })
+      .catch(error => {
+        console.error('Error fetching recipe versions:', error);
+        toast.error('Failed to load recipe versions');
+      });
+  }, [recipeId]);
+
+  useEffect(() => {
+    if (leftId) axios.get(`/recipes/${leftId}`).then(response => setLeft(response.data));
+  }, [leftId]);
+
+  useEffect(() => {
+    if (rightId) axios.get(`/recipes/${rightId}`).then(response => setRight(response.data));
+  }, [rightId]);
+
+  const stepNumbers = Array.from(new Set([
+    ...(left?.steps || []).map(s => s.stepNumber),
+    ...(right?.steps || []).map(s => s.stepNumber)
+  ])).sort((a, b) => a - b);
+
+  const materialKeys = Array.from(new Set([
+    ...(left?.materials || []).map(materialKey),
+    ...(right?.materials || []).map(materialKey)
+  ]));
+
+  const versionSelect = (value: number | null, onChange: (id: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 font-mono text-sm"
+    >
+      {versions.map(v => (
+        <option key={v.id} value={v.id}>
+          V{v.version} · {v.status.toUpperCase()} · {format(new Date(v.createdAt), 'MMM d, yyyy')}
+        </option>
+      ))}
+    </select>
+  );
+
+  if (versions.length < 2) {
+    return <p className="text-center text-sm text-gray-500 font-mono py-4">ONLY ONE VERSION OF THIS RECIPE EXISTS</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-[7rem_1fr_1fr] gap-3 items-center">
+        <span className="text-[10px] text-gray-500 font-mono uppercase">Compare</span>
+        {versionSelect(leftId, setLeftId)}
+        {versionSelect(rightId, setRightId)}
+      </div>
+
+      <div className="flex gap-4 text-[10px] font-mono uppercase">
+        <span className="text-red-300">■ Removed</span>
+        <span className="text-green-300">■ Added</span>
+        <span className="text-yellow-200">■ Changed</span>
+      </div>
+
+      <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1 custom-scrollbar">
+        <DiffTable title="Recipe" rows={headerRows(left, right)} />
+
+        {stepNumbers.map(stepNumber => (
+          <DiffTable
+            key={stepNumber}
+            title={`Step ${stepNumber}`}
+            rows={stepRows(
+              left?.steps.find(s => s.stepNumber === stepNumber),
+              right?.steps.find(s => s.stepNumber === stepNumber)
+            )}
+          />
+        ))}
+
+        {materialKeys.length > 0 && (
+          <DiffTable
+            title="Materials"
+            rows={materialKeys.map(key => {
+              const l = left?.materials.find(m => materialKey(m) === key);
+              const r = right?.materials.find(m => materialKey(m) === key);
+              const m = l || r!;
+              return {
+                label: `${m.material.name}${m.stepNumber ? ` · S${m.stepNumber}` : ''}`,
+                left: materialLabel(l),
+                right: materialLabel(r)
+              };
+            })}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecipeVersionDiff;
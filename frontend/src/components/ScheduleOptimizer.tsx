@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { SparklesIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import Modal from './Modal';
+
+interface RecipeOption {
+  id: number;
+  name: string;
+  product: string;
+  version: number;
+  status: string;
+  yieldUnit?: string | null;
+}
+
+interface OrderRow {
+  recipeId: string;
+  batchNo: string;
+  batchSize: string;
+  batchSizeUnit: string;
+  dueDate: string;
+  priority: number;
+}
+
+interface ProposedBatch {
+  orderIndex: number;
+  recipeId: number;
+  recipeName: string;
+  batchNo: string;
+  productName: string;
+  batchSize: number;
+  batchSizeUnit: string | null;
+  priority: number;
+  dueDate: string;
+  startTimestamp: string;
+  endTimestamp: string;
+  lateMinutes: number;
+  bookings: Array<{
+    stepNumber: number;
+    stepName: string;
+    equipmentName: string;
+    startTimestamp: string;
+    endTimestamp: string;
+  }>;
+  warnings: Array<{ stepNumber: number; message: string }>;
+}
+
+interface Proposal {
+  summary: { orders: number; scheduled: number; unscheduled: number; late: number };
+  scheduled: ProposedBatch[];
+  unscheduled: Array<{ orderIndex: number; batchNo: string; reason: string }>;
+}
+
+interface ScheduleOptimizerProps {
+  onAccepted: () => void;
+}
+
+const emptyOrder: OrderRow = { recipeId: '', batchNo: '', batchSize: '', batchSizeUnit: '', dueDate: '', priority: 3 };
+
+const inputClass = 'w-full bg-black/50 border border-white/20 rounded-sm px-2 py-1.5 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-xs';
+
+const formatLate = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+const ScheduleOptimizer: React.FC<ScheduleOptimizerProps> = ({ onAccepted }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [recipes, setRecipes] = useState<RecipeOption[]>([]);
+  const [orders, setOrders] = useState<OrderRow[]>([{ ...emptyOrder }]);
+  const [horizonDays, setHorizonDays] = useState(60);
+  const [proposal, setProposal] = useState<Proposal | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const handleOpen = async () => {
+    setIsOpen(true);
+    try {
+      const response = await axios.get('/recipes', { params: { latestOnly: 'true' } });
+      setRecipes(response.data.filter((recipe: RecipeOption) => recipe.status === 'approved' || recipe.status === 'active'));
+    } catch (error) {
+      console.error('Error fetching recipes:', error);
+      toast.error('Failed to load recipes');
+    }
+  };
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setOrders([{ ...emptyOrder }]);
+    setProposal(null);
+    setSelected([]);
+  };
+
+  const updateOrder = (index: number, changes: Partial<OrderRow>) => {
+    setOrders(orders.map((order, i) => (i === index ? { ...order, ...changes } : order)));
+    setProposal(null);
+  };
+
+  const handleOptimize = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const response = await axios.post('/schedule/optimize', {
+        horizonDays,
+        orders: orders.map(order => ({
+          recipeId: parseInt(order.recipeId),
+          batchNo: order.batchNo,
+          batchSize: parseFloat(order.batchSize),
+          batchSizeUnit: order.batchSizeUnit || undefined,
+          dueDate: new Date(order.dueDate).toISOString(),
+          priority: order.priority
+        }))
+      });
+      setProposal(response.data);
+      setSelected(response.data.scheduled.map((batch: ProposedBatch) => batch.orderIndex));
+    } catch (error: any) {
+      console.error('Error optimizing schedule:', error);
+      toast.error(error.response?.data?.error || 'Failed to optimize schedule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!proposal) return;
+
+    setLoading(true);
+    try {
+      const batches = proposal.scheduled
+        .filter(batch => selected.includes(batch.orderIndex))
+        .map(batch => ({
+          recipeId: batch.recipeId,
+          batchNo: batch.batchNo,
+          batchSize: batch.batchSize,
+          batchSizeUnit: batch.batchSizeUnit,
+          productName: batch.productName,
+          startTimestamp: batch.startTimestamp
+        }));
+      const response = await axios.post('/schedule/accept', { batches });
+      toast.success(response.data.message);
+      onAccepted();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error accepting schedule:', error);
+      toast.error(error.response?.data?.error || 'Failed to book proposal');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (orderIndex: number) =>
+    setSelected(selected.includes(orderIndex) ? selected.filter(i => i !== orderIndex) : [...selected, orderIndex]);
+
+  return (
+    <>
+      <button
+        onClick={handleOpen}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        title="Propose a schedule for a set of batch orders"
+      >
+        <SparklesIcon className="h-4 w-4 mr-2" />
+        Optimize
+      </button>
+
+      <Modal isOpen={isOpen} onClose={handleClose} title="OPTIMIZE SCHEDULE" size="4xl">
+        <form onSubmit={handleOptimize} className="space-y-4">
+          <p className="text-xs text-gray-400 font-mono">
+            Orders are placed most urgent first (priority 1 is highest, then due date) at the earliest time every step's equipment is free of batches, maintenance and changeover time. Nothing is booked until you accept.
+          </p>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-12 gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-wider font-tech">
+              <div className="col-span-3">Recipe</div>
+              <div className="col-span-2">Batch No</div>
+              <div className="col-span-1">Size</div>
+              <div className="col-span-1">Unit</div>
+              <div className="col-span-3">Due</div>
+              <div className="col-span-1">Priority</div>
+              <div className="col-span-1" />
+            </div>
+            {orders.map((order, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2">
+                <select
+                  required
+                  value={order.recipeId}
+                  onChange={(e) => updateOrder(index, { recipeId: e.target.value })}
+                  className={`${inputClass} col-span-3`}
+                >
+                  <option value="">Select recipe</option>
+                  {recipes.map(recipe => (
+                    <option key={recipe.id} value={recipe.id}>{recipe.name} v{recipe.version}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  required
+                  value={order.batchNo}
+                  onChange={(e) => updateOrder(index, { batchNo: e.target.value })}
+                  className={`${inputClass} col-span-2`}
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  required
+                  value={order.batchSize}
+                  onChange={(e) => updateOrder(index, { batchSize: e.target.value })}
+                  className={`${inputClass} col-span-1`}
+                />
+                <input
+                  type="text"
+                  value={order.batchSizeUnit}
+                  placeholder={recipes.find(recipe => String(recipe.id) === order.recipeId)?.yieldUnit || ''}
+                  onChange={(e) => updateOrder(index, { batchSizeUnit: e.target.value })}
+                  className={`${inputClass} col-span-1`}
+                />
+                <input
+                  type="datetime-local"
+                  required
+                  value={order.dueDate}
+                  onChange={(e) => updateOrder(index, { dueDate: e.target.value })}
+                  className={`${inputClass} col-span-3`}
+                />
+                <select
+                  value={order.priority}
+                  onChange={(e) => updateOrder(index, { priority: parseInt(e.target.value) })}
+                  className={`${inputClass} col-span-1`}
+                >
+                  {[1, 2, 3, 4, 5].map(priority => (
+                    <option key={priority} value={priority}>{priority}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setOrders(orders.filter((_, i) => i !== index));
+                    setProposal(null);
+                  }}
+                  disabled={orders.length === 1}
+                  className="col-span-1 text-red-400 hover:text-red-300 disabled:opacity-30"
+                  title="Remove order"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setOrders([...orders, { ...emptyOrder }])}
+              className="inline-flex items-center text-xs font-bold font-tech text-gray-400 hover:text-white"
+            >
+              <PlusIcon className="h-4 w-4 mr-1" />
+              ADD ORDER
+            </button>
+          </div>
+
+          <div className="flex items-end justify-between gap-4">
+            <div className="w-40">
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Horizon (days)</label>
+              <input
+                type="number"
+                min="1"
+                max="365"
+                value={horizonDays}
+                onChange={(e) => setHorizonDays(parseInt(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-white/10 text-white border border-white/50 rounded-sm hover:bg-white/20 font-tech text-sm tracking-wider font-bold disabled:opacity-50"
+            >
+              {loading && !proposal ? 'OPTIMIZING...' : 'OPTIMIZE'}
+            </button>
+          </div>
+        </form>
+
+        {proposal && (
+          <div className="mt-6 border-t border-white/10 pt-4 space-y-3">
+            <p className="text-xs text-gray-300 font-mono">
+              PROPOSAL: {proposal.summary.scheduled} SCHEDULED, {proposal.summary.late} LATE, {proposal.summary.unscheduled} UNSCHEDULED
+            </p>
+
+            <div className="max-h-[45vh] overflow-y-auto pr-1 custom-scrollbar space-y-2">
+              {proposal.scheduled.map(batch => (
+                <label key={batch.orderIndex} className="block bg-black/30 border border-white/10 rounded-sm p-3 cursor-pointer">
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(batch.orderIndex)}
+                      onChange={() => toggle(batch.orderIndex)}
+                      className="rounded border-gray-600 bg-gray-800 text-white focus:ring-white focus:ring-offset-black"
+                    />
+                    <span className="text-sm text-white font-mono">{batch.batchNo}</span>
+                    <span className="text-xs text-gray-400 font-mono">{batch.recipeName} · P{batch.priority}</span>
+                    {batch.lateMinutes > 0 ? (
+                      <span className="inline-flex rounded px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider border bg-red-900/40 text-red-300 border-red-500/30">
+                        late {formatLate(batch.lateMinutes)}
+                      </span>
+                    ) : (
+                      <span className="inline-flex rounded px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider border bg-green-900/40 text-green-300 border-green-500/30">
+                        on time
+                      </span>
+                    )}
+                    <span className="ml-auto text-xs text-gray-400 font-mono">
+                      {format(new Date(batch.startTimestamp), 'MMM d HH:mm')} – {format(new Date(batch.endTimestamp), 'MMM d HH:mm')}
+                      {' · due '}{format(new Date(batch.dueDate), 'MMM d HH:mm')}
+                    </span>
+                  </div>
+                  <ul className="mt-2 pl-7 space-y-0.5">
+                    {batch.bookings.map(booking => (
+                      <li key={booking.stepNumber} className="text-xs text-gray-400 font-mono">
+                        {booking.stepNumber}. {booking.stepName} · {booking.equipmentName} · {format(new Date(booking.startTimestamp), 'MMM d HH:mm')} – {format(new Date(booking.endTimestamp), 'HH:mm')}
+                      </li>
+                    ))}
+                    {batch.warnings.map((warning, i) => (
+                      <li key={`w${i}`} className="text-xs text-yellow-300 font-mono">WARNING (step {warning.stepNumber}): {warning.message}</li>
+                    ))}
+                  </ul>
+                </label>
+              ))}
+
+              {proposal.unscheduled.map(order => (
+                <div key={order.orderIndex} className="bg-red-900/20 border border-red-500/30 rounded-sm p-3">
+                  <span className="text-sm text-white font-mono">{order.batchNo}</span>
+                  <p className="mt-1 text-xs text-red-300 font-mono">{order.reason}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={handleAccept}
+                disabled={loading || selected.length === 0}
+                className="px-4 py-2 bg-[#007A73]/20 text-white border border-[#007A73] rounded-sm hover:bg-[#007A73]/40 font-tech text-sm tracking-wider font-bold disabled:opacity-50"
+              >
+                {selected.length === proposal.scheduled.length ? 'ACCEPT ALL' : `ACCEPT ${selected.length} SELECTED`}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export default ScheduleOptimizer;
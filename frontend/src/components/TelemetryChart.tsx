@@ -0,0 +1,143 @@
+import React from 'react';
+import { format } from 'date-fns';
+
+export interface TelemetryPoint {
+  time: number;
+  avg: number;
+  min: number;
+  max: number;
+}
+
+export interface SetpointBand {
+  start: number;
+  end: number;
+  target?: number;
+  low: number;
+  high: number;
+  label?: string;
+}
+
+interface TelemetryChartProps {
+  title: string;
+  unit?: string;
+  color: string;
+  points: TelemetryPoint[];
+  setpoints: SetpointBand[];
+  rangeStart: number;
+  rangeEnd: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 40 };
+
+// Returns the setpoint band covering a timestamp, if any
+export const bandAt = (bands: SetpointBand[], time: number) =>
+  bands.find(band => time >= band.start && time < band.end);
+
+export const isExcursion = (point: TelemetryPoint, bands: SetpointBand[]) => {
+  const band = bandAt(bands, point.time);
+  return !!band && (point.min < band.low || point.max > band.high);
+};
+
+const TelemetryChart: React.FC<TelemetryChartProps> = ({
+  title,
+  unit,
+  color,
+  points,
+  setpoints,
+  rangeStart,
+  rangeEnd
+}) => {
+  const values = [
+    ...points.flatMap(p => [p.min, p.max]),
+    ...setpoints.flatMap(s => [s.low, s.high])
+  ];
+  const rawMin = values.length ? Math.min(...values) : 0;
+  const rawMax = values.length ? Math.max(...values) : 1;
+  const margin = (rawMax - rawMin) * 0.1 || 1;
+  const yMin = rawMin - margin;
+  const yMax = rawMax + margin;
+  const span = Math.max(rangeEnd - rangeStart, 1);
+
+  const x = (time: number) =>
+    PADDING.left + ((time - rangeStart) / span) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (value: number) =>
+    PADDING.top + (1 - (value - yMin) / (yMax - yMin)) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  const avgPath = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.time)},${y(p.avg)}`).join(' ');
+  const rangePath = points.length > 1
+    ? [
+      ...points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.time)},${y(p.max)}`),
+      ...[...points].reverse().map(p => `L${x(p.time)},${y(p.min)}`),
+      'Z'
+    ].join(' ')
+    : '';
+  const excursions = points.filter(p => isExcursion(p, setpoints));
+
+  return (
+    <div className="bg-black/30 p-3 rounded-sm border border-white/5">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="font-mono text-xs uppercase" style={{ color }}>
+          {title}{unit ? ` (${unit})` : ''}
+        </h4>
+        {excursions.length > 0 ? (
+          <span className="text-[10px] font-bold tracking-wider text-red-400 font-mono">
+            {excursions.length} EXCURSION{excursions.length > 1 ? 'S' : ''}
+          </span>
+        ) : (
+          <span className="text-[10px] tracking-wider text-gray-500 font-mono">
+            {points.length === 0 ? 'NO DATA' : 'WITHIN LIMITS'}
+          </span>
+        )}
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40">
+        {/* Axes */}
+        <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} stroke="rgba(255,255,255,0.2)" />
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} stroke="rgba(255,255,255,0.2)" />
+        <text x={PADDING.left - 4} y={PADDING.top + 8} textAnchor="end" fontSize="9" fill="#6b7280">{yMax.toFixed(1)}</text>
+        <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} textAnchor="end" fontSize="9" fill="#6b7280">{yMin.toFixed(1)}</text>
+        <text x={PADDING.left} y={HEIGHT - 4} fontSize="9" fill="#6b7280">{format(new Date(rangeStart), 'MMM d HH:mm')}</text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" fontSize="9" fill="#6b7280">{format(new Date(rangeEnd), 'MMM d HH:mm')}</text>
+
+        {/* Recipe setpoint bands */}
+        {setpoints.map((band, i) => (
+          <g key={i}>
+            <rect
+              x={x(band.start)}
+              y={y(band.high)}
+              width={Math.max(x(band.end) - x(band.start), 1)}
+              height={Math.max(y(band.low) - y(band.high), 1)}
+              fill="rgba(0,122,115,0.12)"
+            >
+              {band.label && <title>{band.label}</title>}
+            </rect>
+            {band.target !== undefined && (
+              <line
+                x1={x(band.start)}
+                y1={y(band.target)}
+                x2={x(band.end)}
+                y2={y(band.target)}
+                stroke="#007A73"
+                strokeDasharray="4 3"
+              />
+            )}
+          </g>
+        ))}
+
+        {/* Min/max envelope and average trend */}
+        {rangePath && <path d={rangePath} fill={color} fillOpacity={0.15} stroke="none" />}
+        {avgPath && <path d={avgPath} fill="none" stroke={color} strokeWidth={1.5} />}
+
+        {/* Excursions outside the setpoint band */}
+        {excursions.map((p, i) => (
+          <circle key={i} cx={x(p.time)} cy={y(p.avg)} r={3} fill="#f87171">
+            <title>{`${format(new Date(p.time), 'MMM d HH:mm')}: ${p.min.toFixed(2)} – ${p.max.toFixed(2)}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default TelemetryChart;
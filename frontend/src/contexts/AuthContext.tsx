@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
 import axios from 'axios';
 import toast from 'react-hot-toast';
 
@@ -12,8 +12,9 @@ interface AuthContextType {
   user: User | null;
   token: string | null;
   login: (email: string, password: string) => Promise<boolean>;
-  logout: () => void;
+  logout: () => Promise<void>;
   loading: boolean;
+  demoMode: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -31,34 +32,99 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  // Set default admin user for demo (no login required)
-  const [user, setUser] = useState<User | null>({
-    id: 1,
-    email: 'demo@example.com',
-    role: 'admin'
-  });
-  const [token, setToken] = useState<string | null>('demo-token');
-  const [loading, setLoading] = useState(false);
+  const [user, setUser] = useState<User | null>(null);
+  const [token, setToken] = useState<string | null>(localStorage.getItem('auth_token'));
+  const [loading, setLoading] = useState(true);
+  const [demoMode, setDemoMode] = useState(false);
+  const refreshPromise = useRef<Promise<string> | null>(null);
 
-  useEffect(() => {
-    // Auto-login for demo mode
-    setLoading(false);
+  const storeSession = useCallback((newToken: string, refreshToken: string, newUser: User) => {
+    setToken(newToken);
+    setUser(newUser);
+
+    localStorage.setItem('auth_token', newToken);
+    localStorage.setItem('auth_refresh_token', refreshToken);
+    localStorage.setItem('auth_user', JSON.stringify(newUser));
+
+    // Set default authorization header
+    axios.defaults.headers.common['Authorization'] = `Bearer ${newToken}`;
   }, []);
 
+  const clearSession = useCallback(() => {
+    setUser(null);
+    setToken(null);
+    localStorage.removeItem('auth_token');
+    localStorage.removeItem('auth_refresh_token');
+    localStorage.removeItem('auth_user');
+    delete axios.defaults.headers.common['Authorization'];
+  }, []);
+
+  // Exchange the refresh token for a new pair; concurrent 401s share a single refresh request
+  const refreshSession = useCallback(() => {
+    if (!refreshPromise.current) {
+      const refreshToken = localStorage.getItem('auth_refresh_token');
+      refreshPromise.current = (refreshToken
+        ? axios.post('/auth/refresh', { refreshToken }).then(response => {
+          const { token: newToken, refreshToken: newRefreshToken, user: newUser } = response.data;
+          storeSession(newToken, newRefreshToken, newUser);
+          return newToken as string;
+        })
+        : Promise.reject(new Error('No refresh token'))
+      ).finally(() => {
+        refreshPromise.current = null;
+      });
+    }
+    return refreshPromise.current;
+  }, [storeSession]);
+
+  useEffect(() => {
+    // Retry requests that failed on an expired access token once, after refreshing the session
+    const interceptor = axios.interceptors.response.use(undefined, async (error) => {
+      const original = error.config;
+      if (error.response?.status !== 401 || !original || original._retried || original.url?.startsWith('/auth/')) {
+        return Promise.reject(error);
+      }
+
+      original._retried = true;
+      try {
+        const newToken = await refreshSession();
+        original.headers['Authorization'] = `Bearer ${newToken}`;
+        return axios(original);
+      } catch (refreshError) {
+        clearSession();
+        return Promise.reject(error);
+      }
+    });
+
+    return () => axios.interceptors.response.eject(interceptor);
+  }, [refreshSession, clearSession]);
+
+  useEffect(() => {
+    // Restore the stored session, or pick up the demo user when the backend runs in demo mode
+    const storedToken = localStorage.getItem('auth_token');
+    if (storedToken) {
+      axios.defaults.headers.common['Authorization'] = `Bearer ${storedToken}`;
+    }
+
+    axios.get('/auth/me')
+      .then(response => {
+        setUser(response.data.user);
+        setDemoMode(response.data.demoMode);
+      })
+      .catch(() => refreshSession()
+        .then(() => axios.get('/auth/me'))
+        .then(response => setUser(response.data.user))
+        .catch(() => clearSession()))
+      .finally(() => setLoading(false));
+  }, [refreshSession, clearSession]);
+
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
       const response = await axios.post('/auth/login', { email, password });
-      const { token: newToken, user: newUser } = response.data;
-
-      setToken(newToken);
-      setUser(newUser);
-      
-      localStorage.setItem('auth_token', newToken);
-      localStorage.setItem('auth_user', JSON.stringify(newUser));
-      
-      // Set default authorization header
-      axios.defaults.headers.common['Authorization'] = `Bearer ${newToken}`;
-      
+      const { token: newToken, refreshToken, user: newUser } = response.data;
+
+      storeSession(newToken, refreshToken, newUser);
+
       toast.success('Logged in successfully');
       return true;
     } catch (error: any) {
@@ -69,12 +135,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const logout = () => {
-    setUser(null);
-    setToken(null);
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('auth_user');
-    delete axios.defaults.headers.common['Authorization'];
+  const logout = async () => {
+    const refreshToken = localStorage.getItem('auth_refresh_token');
+    try {
+      if (refreshToken) {
+        await axios.post('/auth/logout', { refreshToken });
+      }
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+    clearSession();
     toast.success('Logged out successfully');
   };
 
@@ -83,7 +153,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     token,
     login,
     logout,
-    loading
+    loading,
+    demoMode
   };
 
   return (
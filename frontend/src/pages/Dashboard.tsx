@@ -1,4 +1,6 @@
 import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import {
   Activity,
@@ -18,25 +20,79 @@ import {
   TrendingDown,
   Wind,
   Thermometer,
-  BarChart3
+  BarChart3,
+  CalendarCheck
 } from 'lucide-react';
 import Layout from '../components/Layout';
 import ManufacturingCopilotPanel from '../components/ManufacturingCopilotPanel';
 
+// Fleet totals from /analytics/equipment; ratios are 0-1, or null without data
+interface AnalyticsTotals {
+  availability: number | null;
+  utilization: number | null;
+  scheduleAdherence: number | null;
+  performance: number | null;
+  oee: number | null;
+  batches: { completed: number; inProgress: number };
+}
+
+interface EquipmentAnalytics {
+  start: string;
+  end: string;
+  totals: AnalyticsTotals;
+}
+
+// Top-ranked entry from /analytics/bottlenecks
+interface Bottleneck {
+  equipment: { id: number; name: string };
+  evidence: string[];
+  events: Array<{ id: number; startTimestamp: string }>;
+}
+
+// Progress page filtered to the bottleneck's equipment with its affected events highlighted
+const bottleneckLink = (bottleneck: Bottleneck) => {
+  const params = new URLSearchParams({ equipmentId: bottleneck.equipment.id.toString() });
+  if (bottleneck.events.length > 0) {
+    params.set('events', bottleneck.events.map(e => e.id).join(','));
+    const earliest = bottleneck.events.reduce((min, e) => e.startTimestamp < min ? e.startTimestamp : min, bottleneck.events[0].startTimestamp);
+    params.set('date', earliest.slice(0, 10));
+  }
+  return `/progress?${params.toString()}`;
+};
+
+const percent = (value: number | null | undefined) => value == null ? '—' : `${(value * 100).toFixed(1)}%`;
+
 const Dashboard: React.FC = () => {
-  // Mock Data
+  const [analytics, setAnalytics] = useState<EquipmentAnalytics | null>(null);
+  const [bottleneck, setBottleneck] = useState<Bottleneck | null>(null);
+
+  useEffect(() => {
+    axios.get('/analytics/equipment')
+      .then(response => setAnalytics(response.data))
+      .catch(error => console.error('Error fetching equipment analytics:', error));
+    axios.get('/analytics/bottlenecks')
+      .then(response => setBottleneck(response.data[0] || null))
+      .catch(error => console.error('Error fetching bottlenecks:', error));
+  }, []);
+
+  const totals = analytics?.totals;
+  const rangeDays = analytics ? (new Date(analytics.end).getTime() - new Date(analytics.start).getTime()) / (24 * 60 * 60 * 1000) : 0;
+  const healthScore = totals?.availability != null ? Math.round(totals.availability * 100) : null;
+
+  // Operations, maintenance health and OEE come from equipment analytics and the bottleneck analysis; the rest is still mock data
   const metrics = {
     operations: {
-      throughput: "1,240 kg/h",
-      efficiency: "94.2%",
-      activeBatches: 3,
-      bottleneck: "Reactor 2 (Cooling)"
+      throughput: totals && rangeDays > 0 ? `${(totals.batches.completed / rangeDays).toFixed(1)} batches/day` : '—',
+      efficiency: percent(totals?.performance),
+      utilization: percent(totals?.utilization),
+      adherence: percent(totals?.scheduleAdherence),
+      activeBatches: totals ? totals.batches.inProgress : 0
     },
     maintenance: {
-      healthScore: "88/100",
+      healthScore: healthScore !== null ? `${healthScore}/100` : '—',
       upcomingPMs: 2,
       criticalAlerts: 0,
-      riskForecast: "Low"
+      riskForecast: healthScore === null ? '—' : healthScore >= 95 ? 'Low' : healthScore >= 85 ? 'Medium' : 'High'
     },
     energy: {
       steam: "4.2 ton/h",
@@ -53,7 +109,7 @@ const Dashboard: React.FC = () => {
     economics: {
       yieldLoss: "1.2%",
       costPerBatch: "$12,450",
-      oee: "87.5%",
+      oee: percent(totals?.oee),
       output: "On Target"
     }
   };
@@ -123,16 +179,36 @@ const Dashboard: React.FC = () => {
 
               <div className="space-y-4 flex-1">
                 <MetricRow label="Throughput" value={metrics.operations.throughput} icon={Factory} />
-                <MetricRow label="Efficiency" value={metrics.operations.efficiency} icon={Gauge} trend="up" />
+                <MetricRow label="Efficiency" value={metrics.operations.efficiency} icon={Gauge} />
+                <MetricRow label="Utilization" value={metrics.operations.utilization} icon={Activity} />
+                <MetricRow label="Adherence" value={metrics.operations.adherence} icon={CalendarCheck} />
                 <MetricRow label="Active Batches" value={metrics.operations.activeBatches.toString()} icon={Layers} />
 
-                <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-sm">
-                  <div className="flex items-center gap-2 text-red-400 mb-1">
-                    <AlertTriangle size={14} />
-                    <span className="text-[10px] font-bold tracking-wider">BOTTLENECK DETECTED</span>
+                {bottleneck ? (
+                  <Link
+                    to={bottleneckLink(bottleneck)}
+                    className="block mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-sm hover:bg-red-500/20 transition-colors"
+                  >
+                    <div className="flex items-center gap-2 text-red-400 mb-1">
+                      <AlertTriangle size={14} />
+                      <span className="text-[10px] font-bold tracking-wider">BOTTLENECK DETECTED</span>
+                    </div>
+                    <p className="text-xs text-gray-300">{bottleneck.equipment.name}</p>
+                    {bottleneck.evidence.map(line => (
+                      <p key={line} className="text-[10px] text-gray-500 font-mono mt-1">{line}</p>
+                    ))}
+                    {bottleneck.events.length > 0 && (
+                      <p className="text-[10px] text-red-300 font-mono mt-2">VIEW {bottleneck.events.length} AFFECTED EVENTS →</p>
+                    )}
+                  </Link>
+                ) : (
+                  <div className="mt-4 p-3 bg-green-500/10 border border-green-500/20 rounded-sm">
+                    <div className="flex items-center gap-2 text-green-400">
+                      <CheckCircle size={14} />
+                      <span className="text-[10px] font-bold tracking-wider">NO BOTTLENECK DETECTED</span>
+                    </div>
                   </div>
-                  <p className="text-xs text-gray-300">{metrics.operations.bottleneck}</p>
-                </div>
+                )}
               </div>
             </motion.div>
 
@@ -154,7 +230,10 @@ const Dashboard: React.FC = () => {
                   <span className="text-xl font-bold text-white font-tech">{metrics.maintenance.healthScore}</span>
                 </div>
                 <div className="w-full bg-gray-800 h-1 rounded-full overflow-hidden">
-                  <div className="bg-green-500 w-[88%] h-full"></div>
+                  <div
+                    className={`${healthScore === null || healthScore >= 95 ? 'bg-green-500' : healthScore >= 85 ? 'bg-yellow-500' : 'bg-red-500'} h-full`}
+                    style={{ width: `${healthScore ?? 0}%` }}
+                  ></div>
                 </div>
 
                 <div className="grid grid-cols-2 gap-2 mt-2">
@@ -164,7 +243,9 @@ const Dashboard: React.FC = () => {
                   </div>
                   <div className="p-2 bg-white/5 rounded-sm border border-white/5">
                     <span className="text-[10px] text-gray-500 block">RISK LEVEL</span>
-                    <span className="text-lg font-bold text-green-400">{metrics.maintenance.riskForecast}</span>
+                    <span className={`text-lg font-bold ${metrics.maintenance.riskForecast === 'High' ? 'text-red-400' : metrics.maintenance.riskForecast === 'Medium' ? 'text-yellow-400' : 'text-green-400'}`}>
+                      {metrics.maintenance.riskForecast}
+                    </span>
                   </div>
                 </div>
               </div>
@@ -239,7 +320,7 @@ const Dashboard: React.FC = () => {
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
                 <EconomicCard label="YIELD LOSS" value={metrics.economics.yieldLoss} trend="down" good={true} />
                 <EconomicCard label="COST / BATCH" value={metrics.economics.costPerBatch} />
-                <EconomicCard label="OEE" value={metrics.economics.oee} trend="up" good={true} />
+                <EconomicCard label="OEE (7D)" value={metrics.economics.oee} />
                 <EconomicCard label="OUTPUT" value={metrics.economics.output} />
               </div>
             </motion.div>
@@ -3,8 +3,11 @@ import axios from 'axios';
 import toast from 'react-hot-toast';
 import Layout from '../components/Layout';
 import Modal from '../components/Modal';
+import AuditHistory from '../components/AuditHistory';
+import ChangeoverRules from '../components/ChangeoverRules';
+import MaintenancePlans from '../components/MaintenancePlans';
 import { useAuth } from '../contexts/AuthContext';
-import { PlusIcon, PencilIcon, TrashIcon, BoltIcon } from '@heroicons/react/24/outline';
+import { PlusIcon, PencilIcon, TrashIcon, BoltIcon, ClockIcon, ArrowsRightLeftIcon, WrenchScrewdriverIcon } from '@heroicons/react/24/outline';
 
 interface Equipment {
   id: number;
@@ -16,6 +19,7 @@ interface Equipment {
   sizeUnit?: string | null;
   capacity?: number | null;
   capacityUnit?: string | null;
+  minimumFillPercent?: number | null;
   materialOfConstruction?: string | null;
   isCustom: boolean;
   createdBy?: {
@@ -34,6 +38,9 @@ const Equipment: React.FC = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isQuickAddModalOpen, setIsQuickAddModalOpen] = useState(false);
   const [editingEquipment, setEditingEquipment] = useState<Equipment | null>(null);
+  const [historyEquipment, setHistoryEquipment] = useState<Equipment | null>(null);
+  const [changeoverEquipment, setChangeoverEquipment] = useState<Equipment | null>(null);
+  const [pmEquipment, setPmEquipment] = useState<Equipment | null>(null);
   const [isQuickAdd, setIsQuickAdd] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
@@ -44,6 +51,7 @@ const Equipment: React.FC = () => {
     sizeUnit: '',
     capacity: '',
     capacityUnit: '',
+    minimumFillPercent: '',
     materialOfConstruction: ''
   });
 
@@ -88,6 +96,7 @@ const Equipment: React.FC = () => {
       sizeUnit: '',
       capacity: '',
       capacityUnit: '',
+      minimumFillPercent: '',
       materialOfConstruction: ''
     });
     setIsModalOpen(true);
@@ -105,6 +114,7 @@ const Equipment: React.FC = () => {
       sizeUnit: eq.sizeUnit || '',
       capacity: eq.capacity?.toString() || '',
       capacityUnit: eq.capacityUnit || '',
+      minimumFillPercent: eq.minimumFillPercent?.toString() || '',
       materialOfConstruction: eq.materialOfConstruction || ''
     });
     setIsModalOpen(true);
@@ -124,6 +134,7 @@ const Equipment: React.FC = () => {
         sizeUnit: formData.sizeUnit || null,
         capacity: formData.capacity ? parseFloat(formData.capacity) : null,
         capacityUnit: formData.capacityUnit || null,
+        minimumFillPercent: formData.minimumFillPercent ? parseFloat(formData.minimumFillPercent) : null,
         materialOfConstruction: formData.materialOfConstruction || null,
         isCustom: editingEquipment ? editingEquipment.isCustom : !isQuickAdd
       };
@@ -154,6 +165,7 @@ const Equipment: React.FC = () => {
         sizeUnit: '',
         capacity: '',
         capacityUnit: '',
+        minimumFillPercent: '',
         materialOfConstruction: ''
       });
     } catch (error: any) {
@@ -193,6 +205,7 @@ const Equipment: React.FC = () => {
       sizeUnit: '',
       capacity: '',
       capacityUnit: '',
+      minimumFillPercent: '',
       materialOfConstruction: ''
     });
     setIsModalOpen(true); // Open the edit modal
@@ -272,25 +285,48 @@ const Equipment: React.FC = () => {
                       )}
                     </div>
                   </div>
-                  {canEdit && (
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => handleEdit(eq)}
-                        className="p-2 text-gray-400 hover:text-white hover:bg-white/10 rounded-sm transition-colors"
-                        title="Edit equipment"
-                      >
-                        <PencilIcon className="h-4 w-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(eq)}
-                        className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-900/20 rounded-sm transition-colors"
-                        title="Delete equipment"
-                        disabled={eq._count.batchEvents > 0 || eq._count.maintenanceEvents > 0}
-                      >
-                        <TrashIcon className="h-4 w-4" />
-                      </button>
-                    </div>
-                  )}
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setHistoryEquipment(eq)}
+                      className="p-2 text-gray-400 hover:text-blue-400 hover:bg-white/10 rounded-sm transition-colors"
+                      title="Change history"
+                    >
+                      <ClockIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setChangeoverEquipment(eq)}
+                      className="p-2 text-gray-400 hover:text-yellow-400 hover:bg-white/10 rounded-sm transition-colors"
+                      title="Changeover rules"
+                    >
+                      <ArrowsRightLeftIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setPmEquipment(eq)}
+                      className="p-2 text-gray-400 hover:text-orange-400 hover:bg-white/10 rounded-sm transition-colors"
+                      title="Preventive maintenance plans"
+                    >
+                      <WrenchScrewdriverIcon className="h-4 w-4" />
+                    </button>
+                    {canEdit && (
+                      <>
+                        <button
+                          onClick={() => handleEdit(eq)}
+                          className="p-2 text-gray-400 hover:text-white hover:bg-white/10 rounded-sm transition-colors"
+                          title="Edit equipment"
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(eq)}
+                          className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-900/20 rounded-sm transition-colors"
+                          title="Delete equipment"
+                          disabled={eq._count.batchEvents > 0 || eq._count.maintenanceEvents > 0}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
                 </div>
               </li>
             ))}
@@ -437,7 +473,23 @@ const Equipment: React.FC = () => {
               </div>
             </div>
 
-            <div className="md:col-span-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">
+                Minimum Fill (% of capacity)
+              </label>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                max="100"
+                value={formData.minimumFillPercent}
+                onChange={(e) => setFormData(prev => ({ ...prev, minimumFillPercent: e.target.value }))}
+                className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm"
+                placeholder="DEFAULT"
+              />
+            </div>
+
+            <div>
               <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">
                 Material of Construction
               </label>
@@ -468,6 +520,42 @@ const Equipment: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      {/* Change History Modal */}
+      {historyEquipment && (
+        <Modal
+          isOpen={!!historyEquipment}
+          onClose={() => setHistoryEquipment(null)}
+          title={`HISTORY: ${historyEquipment.name.toUpperCase()}`}
+          size="2xl"
+        >
+          <AuditHistory entityType="equipment" entityId={historyEquipment.id} />
+        </Modal>
+      )}
+
+      {/* Changeover Rules Modal */}
+      {changeoverEquipment && (
+        <Modal
+          isOpen={!!changeoverEquipment}
+          onClose={() => setChangeoverEquipment(null)}
+          title={`CHANGEOVERS: ${changeoverEquipment.name.toUpperCase()}`}
+          size="2xl"
+        >
+          <ChangeoverRules equipmentId={changeoverEquipment.id} canEdit={canEdit} />
+        </Modal>
+      )}
+
+      {/* Preventive Maintenance Plans Modal */}
+      {pmEquipment && (
+        <Modal
+          isOpen={!!pmEquipment}
+          onClose={() => setPmEquipment(null)}
+          title={`PM PLANS: ${pmEquipment.name.toUpperCase()}`}
+          size="2xl"
+        >
+          <MaintenancePlans equipmentId={pmEquipment.id} canEdit={canEdit} />
+        </Modal>
+      )}
     </Layout>
   );
 };
@@ -3,12 +3,17 @@ import axios from 'axios';
 import toast from 'react-hot-toast';
 import Layout from '../components/Layout';
 import Modal from '../components/Modal';
+import AuditHistory from '../components/AuditHistory';
+import MaterialLots from '../components/MaterialLots';
+import MaterialPlanning from '../components/MaterialPlanning';
 import {
   PlusIcon,
   PencilIcon,
   TrashIcon,
   ExclamationTriangleIcon,
-  ClockIcon
+  ClockIcon,
+  ClipboardDocumentListIcon,
+  ArchiveBoxIcon
 } from '@heroicons/react/24/outline';
 
 interface Material {
@@ -19,7 +24,9 @@ interface Material {
   unit: string;
   minimumStock: number;
   supplier?: string;
+  leadTimeDays?: number | null;
   costPerUnit?: number;
+  density?: number | null;
   isLowStock?: boolean;
   casNumber?: string;
   safetyTags?: string[];
@@ -39,6 +46,9 @@ interface Transaction {
     batchNo: string;
     productName: string;
   };
+  lot?: {
+    lotNumber: string;
+  };
 }
 
 const Inventory: React.FC = () => {
@@ -48,6 +58,8 @@ const Inventory: React.FC = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isTransactionModalOpen, setIsTransactionModalOpen] = useState(false);
   const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
+  const [auditMaterial, setAuditMaterial] = useState<Material | null>(null);
+  const [lotsMaterial, setLotsMaterial] = useState<Material | null>(null);
   const [loading, setLoading] = useState(true);
   const [isLookingUp, setIsLookingUp] = useState(false);
   const [formData, setFormData] = useState<Partial<Material>>({
@@ -223,7 +235,9 @@ const Inventory: React.FC = () => {
       unit: material.unit,
       minimumStock: material.minimumStock,
       supplier: material.supplier,
+      leadTimeDays: material.leadTimeDays ?? null,
       costPerUnit: material.costPerUnit,
+      density: material.density ?? null,
       casNumber: material.casNumber || '',
       safetyTags: material.safetyTags || []
     });
@@ -251,7 +265,8 @@ const Inventory: React.FC = () => {
               TRACK RAW MATERIALS, STOCK LEVELS, AND TRANSACTIONS
             </p>
           </div>
-          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex gap-3">
+            <MaterialPlanning />
             <button
               onClick={() => setIsModalOpen(true)}
               className="inline-flex items-center justify-center px-4 py-2 border border-white/50 text-sm font-bold font-tech text-white bg-white/10 hover:bg-white/20 hover:shadow-[0_0_15px_rgba(255,255,255,0.4)] transition-all duration-300 rounded-sm"
@@ -366,6 +381,20 @@ const Inventory: React.FC = () => {
                         >
                           <ClockIcon className="h-5 w-5 inline" />
                         </button>
+                        <button
+                          onClick={() => setLotsMaterial(material)}
+                          className="text-gray-400 hover:text-white mr-4 transition-colors"
+                          title="Lots"
+                        >
+                          <ArchiveBoxIcon className="h-5 w-5 inline" />
+                        </button>
+                        <button
+                          onClick={() => setAuditMaterial(material)}
+                          className="text-gray-400 hover:text-white mr-4 transition-colors"
+                          title="Audit Trail"
+                        >
+                          <ClipboardDocumentListIcon className="h-5 w-5 inline" />
+                        </button>
                         <button
                           onClick={() => handleEdit(material)}
                           className="text-gray-400 hover:text-white mr-4 transition-colors"
@@ -466,6 +495,18 @@ const Inventory: React.FC = () => {
                 placeholder="ENTER SUPPLIER"
               />
             </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Lead Time (days)</label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={formData.leadTimeDays ?? ''}
+                onChange={(e) => setFormData({ ...formData, leadTimeDays: e.target.value ? parseInt(e.target.value, 10) : null })}
+                className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm"
+                placeholder="DEFAULT LEAD TIME IF BLANK"
+              />
+            </div>
             <div>
               <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Cost Per Unit</label>
               <input
@@ -477,6 +518,18 @@ const Inventory: React.FC = () => {
                 placeholder="0.00"
               />
             </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Density (kg/L)</label>
+              <input
+                type="number"
+                step="0.0001"
+                min="0"
+                value={formData.density ?? ''}
+                onChange={(e) => setFormData({ ...formData, density: e.target.value ? parseFloat(e.target.value) : null })}
+                className="w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm"
+                placeholder="NEEDED TO CONVERT BETWEEN MASS AND VOLUME"
+              />
+            </div>
 
             <div>
               <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">CAS Number</label>
@@ -585,6 +638,7 @@ const Inventory: React.FC = () => {
                     <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Type</th>
                     <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Qty</th>
                     <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Balance</th>
+                    <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Lot</th>
                     <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Notes</th>
                   </tr>
                 </thead>
@@ -608,6 +662,9 @@ const Inventory: React.FC = () => {
                       <td className="whitespace-nowrap px-3 py-3 text-xs text-gray-400 font-mono">
                         {Number(txn.remainingBalance).toFixed(2)}
                       </td>
+                      <td className="whitespace-nowrap px-3 py-3 text-xs text-gray-400 font-mono">
+                        {txn.lot?.lotNumber || '-'}
+                      </td>
                       <td className="px-3 py-3 text-xs text-gray-500 italic">
                         {txn.notes || '-'}
                       </td>
@@ -698,6 +755,30 @@ const Inventory: React.FC = () => {
             </form>
           </Modal>
         )}
+
+        {/* Lots Modal */}
+        {lotsMaterial && (
+          <Modal
+            isOpen={!!lotsMaterial}
+            onClose={() => setLotsMaterial(null)}
+            title={`LOTS: ${lotsMaterial.name.toUpperCase()}`}
+            size="4xl"
+          >
+            <MaterialLots materialId={lotsMaterial.id} unit={lotsMaterial.unit} onChanged={fetchMaterials} />
+          </Modal>
+        )}
+
+        {/* Audit Trail Modal */}
+        {auditMaterial && (
+          <Modal
+            isOpen={!!auditMaterial}
+            onClose={() => setAuditMaterial(null)}
+            title={`AUDIT TRAIL: ${auditMaterial.name.toUpperCase()}`}
+            size="2xl"
+          >
+            <AuditHistory entityType="material" entityId={auditMaterial.id} />
+          </Modal>
+        )}
       </div>
     </Layout>
   );
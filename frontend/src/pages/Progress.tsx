@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import FullCalendar from '@fullcalendar/react';
 import resourceTimelinePlugin from '@fullcalendar/resource-timeline';
 import dayGridPlugin from '@fullcalendar/daygrid';
@@ -8,7 +9,11 @@ import axios from 'axios';
 import toast from 'react-hot-toast';
 import Layout from '../components/Layout';
 import EventModal from '../components/EventModal';
+import { auditReasonHeaders } from '../components/AuditHistory';
 import ExportButtons from '../components/ExportButtons';
+import EventImport from '../components/EventImport';
+import ScheduleOptimizer from '../components/ScheduleOptimizer';
+import AdherenceReport from '../components/AdherenceReport';
 import { useAuth } from '../contexts/AuthContext';
 
 interface Equipment {
@@ -22,6 +27,9 @@ interface BatchEvent {
     batchNo: string;
     productName: string;
     batchSize?: number;
+    batchSizeUnit?: string;
+    status: string;
+    recipeId?: number;
     startTimestamp: string;
     endTimestamp: string;
     actualStart?: string;
@@ -30,6 +38,15 @@ interface BatchEvent {
     equipment: Equipment;
 }
 
+interface ChangeoverViolation {
+    equipmentId: number;
+    from: { id: number | null; batchNo: string; productName: string };
+    to: { id: number | null; batchNo: string; productName: string };
+    requiredMinutes: number;
+    gapMinutes: number;
+    cleaning: { startTimestamp: string; endTimestamp: string } | null;
+}
+
 interface MaintenanceEvent {
     id: number;
     equipmentId: number;
@@ -40,16 +57,22 @@ interface MaintenanceEvent {
     actualStart?: string;
     actualEnd?: string;
     equipment: Equipment;
+    maintenancePlan?: { id: number; name: string } | null;
 }
 
 const Progress: React.FC = () => {
     const { user } = useAuth();
+    // Set by links from the Dashboard bottleneck banner
+    const [searchParams, setSearchParams] = useSearchParams();
+    const highlightedIds = new Set((searchParams.get('events') || '').split(',').filter(Boolean).map(Number));
+    const highlightedEquipmentId = searchParams.get('equipmentId');
     const [equipment, setEquipment] = useState<Equipment[]>([]);
     const [batchEvents, setBatchEvents] = useState<BatchEvent[]>([]);
     const [maintenanceEvents, setMaintenanceEvents] = useState<MaintenanceEvent[]>([]);
+    const [changeoverViolations, setChangeoverViolations] = useState<ChangeoverViolation[]>([]);
     const [selectedEvent, setSelectedEvent] = useState<any>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
-    const [calendarView, setCalendarView] = useState('resourceTimelineDay'); // Default to Day view as requested
+    const [calendarView, setCalendarView] = useState(highlightedIds.size > 0 ? 'resourceTimelineWeek' : 'resourceTimelineDay'); // Default to Day view as requested
     const [showActualTimes, setShowActualTimes] = useState(false);
     const [initialLoading, setInitialLoading] = useState(true);
     const [isRefreshing, setIsRefreshing] = useState(false);
@@ -63,15 +86,17 @@ const Progress: React.FC = () => {
         else setIsRefreshing(true);
 
         try {
-            const [equipmentRes, batchRes, maintenanceRes] = await Promise.all([
+            const [equipmentRes, batchRes, maintenanceRes, changeoverRes] = await Promise.all([
                 axios.get('/equipment'),
                 axios.get('/batches'),
-                axios.get('/maintenance')
+                axios.get('/maintenance'),
+                axios.get('/changeovers/violations')
             ]);
 
             setEquipment(equipmentRes.data);
             setBatchEvents(batchRes.data);
             setMaintenanceEvents(maintenanceRes.data);
+            setChangeoverViolations(changeoverRes.data);
         } catch (error) {
             console.error('Error fetching data:', error);
             toast.error('Failed to load data');
@@ -81,6 +106,15 @@ const Progress: React.FC = () => {
         }
     };
 
+    const fetchChangeoverViolations = async () => {
+        try {
+            const response = await axios.get('/changeovers/violations');
+            setChangeoverViolations(response.data);
+        } catch (error) {
+            console.error('Error fetching changeover violations:', error);
+        }
+    };
+
     const handleDatesSet = () => {
         // Auto-refresh data when view or date range changes
         fetchData(false);
@@ -126,7 +160,7 @@ const Progress: React.FC = () => {
         setIsModalOpen(true);
     };
 
-    const handleEventUpdate = async (updatedEvent: any) => {
+    const handleEventUpdate = async (updatedEvent: any, autoCleaning = false): Promise<void> => {
         try {
             if (updatedEvent.isNew) {
                 // Create new event
@@ -136,9 +170,11 @@ const Progress: React.FC = () => {
                         batchNo: updatedEvent.batchNo,
                         productName: updatedEvent.productName,
                         batchSize: updatedEvent.batchSize,
+                        batchSizeUnit: updatedEvent.batchSizeUnit,
                         startTimestamp: updatedEvent.start,
                         endTimestamp: updatedEvent.end,
-                        inputs: updatedEvent.inputs
+                        inputs: updatedEvent.inputs,
+                        autoCleaning
                     });
                     setBatchEvents(prev => [...prev, response.data]);
                 } else {
@@ -150,6 +186,7 @@ const Progress: React.FC = () => {
                         startTimestamp: updatedEvent.start,
                         endTimestamp: updatedEvent.end,
                         spareParts: updatedEvent.spareParts,
+                        parts: updatedEvent.parts,
                         changesMade: updatedEvent.changesMade
                     });
                     setMaintenanceEvents(prev => [...prev, response.data]);
@@ -163,12 +200,14 @@ const Progress: React.FC = () => {
                         batchNo: updatedEvent.batchNo,
                         productName: updatedEvent.productName,
                         batchSize: updatedEvent.batchSize,
+                        batchSizeUnit: updatedEvent.batchSizeUnit,
                         startTimestamp: updatedEvent.start,
                         endTimestamp: updatedEvent.end,
-                        actualStart: updatedEvent.actualStart,
-                        actualEnd: updatedEvent.actualEnd,
-                        inputs: updatedEvent.inputs
-                    });
+                        delayReason: updatedEvent.delayReason,
+                        delayNotes: updatedEvent.delayNotes,
+                        inputs: updatedEvent.inputs,
+                        autoCleaning
+                    }, { headers: auditReasonHeaders(updatedEvent.changeReason) });
                     setBatchEvents(prev => prev.map(event =>
                         event.id === updatedEvent.id ? response.data : event
                     ));
@@ -182,9 +221,12 @@ const Progress: React.FC = () => {
                         endTimestamp: updatedEvent.end,
                         actualStart: updatedEvent.actualStart,
                         actualEnd: updatedEvent.actualEnd,
+                        delayReason: updatedEvent.delayReason,
+                        delayNotes: updatedEvent.delayNotes,
                         spareParts: updatedEvent.spareParts,
+                        parts: updatedEvent.parts,
                         changesMade: updatedEvent.changesMade
-                    });
+                    }, { headers: auditReasonHeaders(updatedEvent.changeReason) });
                     setMaintenanceEvents(prev => prev.map(event =>
                         event.id === updatedEvent.id ? response.data : event
                     ));
@@ -194,23 +236,56 @@ const Progress: React.FC = () => {
 
             setIsModalOpen(false);
             setSelectedEvent(null);
+            if (autoCleaning) {
+                // Cleaning events were booked alongside the batch
+                fetchData(false);
+            } else {
+                fetchChangeoverViolations();
+            }
         } catch (error: any) {
             console.error('Error saving event:', error);
-            const message = error.response?.data?.error || 'Failed to save event';
+            const changeovers = error.response?.data?.changeovers;
+            if (changeovers && !autoCleaning && changeovers.every((c: ChangeoverViolation) => c.cleaning) &&
+                window.confirm(`${error.response.data.message}.\n\nBook the cleaning automatically?`)) {
+                return handleEventUpdate(updatedEvent, true);
+            }
+            const shortages = error.response?.data?.shortages;
+            const message = shortages
+                ? `Insufficient spare parts: ${shortages.map((s: any) => `${s.partNumber} ${s.name} (need ${s.required} ${s.unit}, have ${s.available})`).join(', ')}`
+                : error.response?.data?.message || error.response?.data?.error || 'Failed to save event';
+            toast.error(message);
+        }
+    };
+
+    const handleBatchTransition = async (eventId: number, action: 'start' | 'complete' | 'cancel', changeReason?: string) => {
+        try {
+            await axios.post(`/batches/${eventId}/${action}`, {}, { headers: auditReasonHeaders(changeReason) });
+            toast.success(action === 'start' ? 'Batch started' : action === 'complete' ? 'Batch completed' : 'Batch cancelled');
+            setIsModalOpen(false);
+            setSelectedEvent(null);
+            // Equipment status and stock change along with the batch, so reload everything
+            fetchData(false);
+        } catch (error: any) {
+            console.error('Error changing batch status:', error);
+            const shortages = error.response?.data?.shortages;
+            const message = shortages
+                ? `Insufficient inventory: ${shortages.map((s: any) => `${s.materialName} (need ${s.required} ${s.unit}, have ${s.available})`).join(', ')}`
+                : error.response?.data?.error || 'Failed to change batch status';
             toast.error(message);
         }
     };
 
-    const handleEventDelete = async (eventId: number, eventType: string) => {
+    const handleEventDelete = async (eventId: number, eventType: string, changeReason?: string) => {
         try {
             if (eventType === 'batch') {
-                await axios.delete(`/batches/${eventId}`);
+                await axios.delete(`/batches/${eventId}`, { headers: auditReasonHeaders(changeReason) });
                 setBatchEvents(prev => prev.filter(event => event.id !== eventId));
             } else {
-                await axios.delete(`/maintenance/${eventId}`);
+                await axios.delete(`/maintenance/${eventId}`, { headers: auditReasonHeaders(changeReason) });
                 setMaintenanceEvents(prev => prev.filter(event => event.id !== eventId));
             }
             toast.success('Event deleted successfully');
+            fetchChangeoverViolations();
             setIsModalOpen(false);
             setSelectedEvent(null);
         } catch (error) {
@@ -219,16 +294,25 @@ const Progress: React.FC = () => {
         }
     };
 
+    // Batches that start without the cleaning their changeover needs
+    const changeoverFlags = new Map(changeoverViolations.filter(v => v.to.id).map(v => [v.to.id, v]));
+
     // Prepare calendar events
     const calendarEvents = [
         // Batch events
         ...batchEvents.map(event => ({
             id: `batch-${event.id}`,
-            title: `${event.batchNo} - ${event.productName}`,
+            title: changeoverFlags.has(event.id)
+                ? `⚠ ${event.batchNo} - ${event.productName} (needs ${changeoverFlags.get(event.id)!.requiredMinutes} min cleaning)`
+                : `${event.batchNo} - ${event.productName}`,
             start: event.startTimestamp,
             end: event.endTimestamp,
             resourceId: event.equipmentId.toString(),
-            className: 'fc-event-batch',
+            className: [
+                'fc-event-batch',
+                changeoverFlags.has(event.id) ? 'fc-event-changeover' : '',
+                highlightedIds.has(event.id) ? 'fc-event-bottleneck' : ''
+            ].join(' ').trim(),
             extendedProps: {
                 type: 'batch',
                 ...event
@@ -237,7 +321,7 @@ const Progress: React.FC = () => {
         // Maintenance events
         ...maintenanceEvents.map(event => ({
             id: `maintenance-${event.id}`,
-            title: `Maintenance - ${event.reason}`,
+            title: `Maintenance - ${event.reason}${event.maintenancePlan ? ` (${event.maintenancePlan.name})` : ''}`,
             start: event.startTimestamp,
             end: event.endTimestamp,
             resourceId: event.equipmentId.toString(),
@@ -363,8 +447,30 @@ const Progress: React.FC = () => {
                     </button>
 
                     <ExportButtons />
+
+                    <AdherenceReport />
+
+                    {user?.role !== 'viewer' && <EventImport onImported={() => fetchData(false)} />}
+
+                    {user?.role !== 'viewer' && <ScheduleOptimizer onAccepted={() => fetchData(false)} />}
                 </div>
 
+                {/* Bottleneck highlight */}
+                {highlightedEquipmentId && (
+                    <div className="mb-4 bg-yellow-900/20 border-l-4 border-yellow-500 p-3 flex justify-between items-center">
+                        <span className="text-xs text-yellow-200 font-mono">
+                            BOTTLENECK: <span className="font-bold text-yellow-400">{equipment.find(eq => eq.id.toString() === highlightedEquipmentId)?.name || `EQUIPMENT ${highlightedEquipmentId}`}</span>
+                            {highlightedIds.size > 0 && ` — ${highlightedIds.size} AFFECTED EVENT${highlightedIds.size === 1 ? '' : 'S'} OUTLINED`}
+                        </span>
+                        <button
+                            onClick={() => setSearchParams({})}
+                            className="text-xs text-gray-400 hover:text-white font-tech tracking-wider"
+                        >
+                            CLEAR
+                        </button>
+                    </div>
+                )}
+
                 {/* Calendar */}
                 <div className="bg-black/50 backdrop-blur-sm rounded-sm shadow-2xl border border-gray-800 overflow-hidden animate-fade-in-up relative group">
                     <div className="absolute top-0 left-0 w-full h-[1px] bg-gradient-to-r from-transparent via-white/50 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-700"></div>
@@ -372,6 +478,7 @@ const Progress: React.FC = () => {
                     <FullCalendar
                         plugins={[resourceTimelinePlugin, dayGridPlugin, timeGridPlugin, interactionPlugin]}
                         initialView={calendarView}
+                        initialDate={searchParams.get('date') || undefined}
                         headerToolbar={{
                             left: 'prev,next today',
                             center: 'title',
@@ -404,6 +511,10 @@ const Progress: React.FC = () => {
                         <div className="w-4 h-4 bg-red-600 rounded mr-2"></div>
                         <span>Maintenance Events</span>
                     </div>
+                    <div className="flex items-center">
+                        <div className="w-4 h-4 border-2 border-red-500 rounded mr-2"></div>
+                        <span>Missing Changeover Cleaning{changeoverViolations.length > 0 ? ` (${changeoverViolations.length})` : ''}</span>
+                    </div>
                     {showActualTimes && (
                         <div className="flex items-center">
                             <div className="w-4 h-4 bg-gray-600 border-2 border-gray-800 rounded mr-2"></div>
@@ -420,6 +531,7 @@ const Progress: React.FC = () => {
                     equipment={equipment}
                     onSave={handleEventUpdate}
                     onDelete={handleEventDelete}
+                    onTransition={handleBatchTransition}
                     onClose={() => {
                         setIsModalOpen(false);
                         setSelectedEvent(null);
@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import Layout from '../components/Layout';
+import Modal from '../components/Modal';
+import RecipeEditor, { RecipeDetail } from '../components/RecipeEditor';
+import RecipeVersionDiff from '../components/RecipeVersionDiff';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  ArrowsRightLeftIcon
+} from '@heroicons/react/24/outline';
+
+interface RecipeSummary {
+  id: number;
+  recipeId?: string | null;
+  name: string;
+  product: string;
+  version: number;
+  status: string;
+  totalTime?: number | null;
+  updatedAt: string;
+  createdBy?: { email: string } | null;
+  _count: {
+    steps: number;
+    materials: number;
+    batches: number;
+  };
+}
+
+const statusStyles: Record<string, string> = {
+  draft: 'bg-gray-800 text-gray-300 border-gray-600',
+  approved: 'bg-blue-900/50 text-blue-200 border-blue-500/30',
+  active: 'bg-green-900/50 text-green-200 border-green-500/30',
+  obsolete: 'bg-red-900/50 text-red-200 border-red-500/30'
+};
+
+const Recipes: React.FC = () => {
+  const [recipes, setRecipes] = useState<RecipeSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState(''); // The search as last submitted
+  const [latestOnly, setLatestOnly] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingRecipe, setEditingRecipe] = useState<RecipeDetail | undefined>();
+  const [diffRecipe, setDiffRecipe] = useState<RecipeSummary | null>(null);
+
+  const fetchRecipes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await axios.get('/recipes', {
+        params: { search: query || undefined, latestOnly: latestOnly ? 'true' : undefined }
+      });
+      setRecipes(response.data);
+    } catch (error) {
+      console.error('Error fetching recipes:', error);
+      toast.error('Failed to load recipes');
+    } finally {
+      setLoading(false);
+    }
+  }, [query, latestOnly]);
+
+  useEffect(() => {
+    fetchRecipes();
+  }, [fetchRecipes]);
+
+  const handleNew = () => {
+    setEditingRecipe(undefined);
+    setIsEditing(true);
+  };
+
+  const handleEdit = async (recipe: RecipeSummary) => {
+    try {
+      const response = await axios.get(`/recipes/${recipe.id}`);
+      setEditingRecipe(response.data);
+      setIsEditing(true);
+    } catch (error) {
+      console.error('Error fetching recipe:', error);
+      toast.error('Failed to load recipe');
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!window.confirm('Are you sure you want to delete this draft recipe?')) return;
+
+    try {
+      await axios.delete(`/recipes/${id}`);
+      toast.success('Recipe deleted successfully');
+      fetchRecipes();
+    } catch (error: any) {
+      console.error('Error deleting recipe:', error);
+      toast.error(error.response?.data?.error || 'Failed to delete recipe');
+    }
+  };
+
+  const handleSaved = () => {
+    setIsEditing(false);
+    setEditingRecipe(undefined);
+    fetchRecipes();
+  };
+
+  if (isEditing) {
+    return (
+      <Layout>
+        <div className="px-4 sm:px-6 lg:px-8 py-6">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-white font-tech tracking-wider">
+              {editingRecipe ? 'EDIT' : 'NEW'} <span className="text-[#007A73]">RECIPE</span>
+            </h1>
+            {editingRecipe && (
+              <p className="text-gray-500 text-xs font-mono tracking-[0.2em] mt-1">
+                {editingRecipe.recipeId} · VERSION {editingRecipe.version} · {editingRecipe.status.toUpperCase()}
+              </p>
+            )}
+          </div>
+          <RecipeEditor
+            recipe={editingRecipe}
+            onSaved={handleSaved}
+            onCancel={() => setIsEditing(false)}
+          />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="px-4 sm:px-6 lg:px-8 py-6">
+        {/* Header */}
+        <div className="mb-8 animate-fade-in-up flex justify-between items-end">
+          <div>
+            <h1 className="text-3xl font-bold text-white font-tech tracking-wider">
+              RECIPE <span className="text-[#007A73]">BUILDER</span>
+            </h1>
+            <p className="text-gray-500 text-xs font-mono tracking-[0.2em] mt-1">
+              MASTER RECIPES, PROCESS STEPS AND VERSION HISTORY
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+            <button
+              onClick={handleNew}
+              className="inline-flex items-center justify-center px-4 py-2 border border-white/50 text-sm font-bold font-tech text-white bg-white/10 hover:bg-white/20 hover:shadow-[0_0_15px_rgba(255,255,255,0.4)] transition-all duration-300 rounded-sm"
+            >
+              <PlusIcon className="-ml-1 mr-2 h-5 w-5" />
+              NEW RECIPE
+            </button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (search === query) {
+              fetchRecipes();
+            } else {
+              setQuery(search);
+            }
+          }}
+          className="flex gap-3 items-center mb-4"
+        >
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="w-72 bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm"
+            placeholder="SEARCH NAME, PRODUCT OR ID"
+          />
+          <label className="flex items-center gap-2 text-xs text-gray-400 font-mono cursor-pointer">
+            <input
+              type="checkbox"
+              checked={latestOnly}
+              onChange={(e) => setLatestOnly(e.target.checked)}
+              className="rounded border-gray-600 bg-gray-800 text-blue-500 focus:ring-offset-black focus:ring-blue-500"
+            />
+            LATEST VERSIONS ONLY
+          </label>
+        </form>
+
+        {/* Recipes Table */}
+        <div className="bg-black/50 backdrop-blur-sm border border-white/10 rounded-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-white/10">
+              <thead className="bg-white/5">
+                <tr>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">ID</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Name</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Product</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Version</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Steps</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Total Time</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Status</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Updated</th>
+                  <th className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10 bg-transparent">
+                {loading ? (
+                  <tr>
+                    <td colSpan={9} className="px-3 py-4 text-center text-sm text-gray-500 font-mono">
+                      LOADING DATA...
+                    </td>
+                  </tr>
+                ) : recipes.length === 0 ? (
+                  <tr>
+                    <td colSpan={9} className="px-3 py-4 text-center text-sm text-gray-500 font-mono">
+                      NO RECIPES FOUND
+                    </td>
+                  </tr>
+                ) : (
+                  recipes.map((recipe) => (
+                    <tr key={recipe.id} className="hover:bg-white/5 transition-colors duration-150">
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-300 font-mono">
+                        {recipe.recipeId || `RCP-${recipe.id}`}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm font-medium text-white font-tech tracking-wide">
+                        {recipe.name}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-400">
+                        {recipe.product}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-300 font-mono">
+                        V{recipe.version}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-400 font-mono">
+                        {recipe._count.steps}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-400 font-mono">
+                        {recipe.totalTime ? `${recipe.totalTime} MIN` : '-'}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm">
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-[10px] font-medium border uppercase tracking-wider ${statusStyles[recipe.status]}`}>
+                          {recipe.status}
+                        </span>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-xs text-gray-500 font-mono">
+                        {format(new Date(recipe.updatedAt), 'MMM d, yyyy')}
+                      </td>
+                      <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                        <button
+                          onClick={() => setDiffRecipe(recipe)}
+                          className="text-blue-400 hover:text-blue-300 mr-4 transition-colors"
+                          title="Compare Versions"
+                        >
+                          <ArrowsRightLeftIcon className="h-5 w-5 inline" />
+                        </button>
+                        {recipe.status !== 'obsolete' && (
+                          <button
+                            onClick={() => handleEdit(recipe)}
+                            className="text-gray-400 hover:text-white mr-4 transition-colors"
+                            title="Edit"
+                          >
+                            <PencilIcon className="h-5 w-5 inline" />
+                          </button>
+                        )}
+                        {recipe.status === 'draft' && recipe._count.batches === 0 && (
+                          <button
+                            onClick={() => handleDelete(recipe.id)}
+                            className="text-gray-400 hover:text-red-400 transition-colors"
+                            title="Delete"
+                          >
+                            <TrashIcon className="h-5 w-5 inline" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Version Diff Modal */}
+        {diffRecipe && (
+          <Modal
+            isOpen={!!diffRecipe}
+            onClose={() => setDiffRecipe(null)}
+            title={`VERSIONS: ${diffRecipe.name.toUpperCase()}`}
+            size="4xl"
+          >
+            <RecipeVersionDiff recipeId={diffRecipe.id} />
+          </Modal>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Recipes;
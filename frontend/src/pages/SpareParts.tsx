@@ -0,0 +1,630 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import Layout from '../components/Layout';
+import Modal from '../components/Modal';
+import AuditHistory from '../components/AuditHistory';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  ExclamationTriangleIcon,
+  ClockIcon,
+  ClipboardDocumentListIcon
+} from '@heroicons/react/24/outline';
+
+interface Equipment {
+  id: number;
+  name: string;
+}
+
+interface SparePart {
+  id: number;
+  partNumber: string;
+  name: string;
+  description?: string | null;
+  unit: string;
+  quantityOnHand: number;
+  reserved: number;
+  available: number;
+  reorderPoint: number;
+  reorderQuantity?: number | null;
+  supplier?: string | null;
+  costPerUnit?: number | null;
+  location?: string | null;
+  isLowStock: boolean;
+  fits: Array<{ equipment: Equipment }>;
+}
+
+interface PartTransaction {
+  id: number;
+  transactionType: string;
+  quantity: number;
+  remainingBalance: number;
+  notes?: string | null;
+  timestamp: string;
+  maintenanceEvent?: {
+    id: number;
+    reason: string;
+    equipment: Equipment;
+  } | null;
+}
+
+const inputClass = 'w-full bg-black/50 border border-white/20 rounded-sm px-3 py-2 text-white focus:border-white/50 focus:ring-0 placeholder-gray-600 font-mono text-sm';
+
+const emptyForm = {
+  partNumber: '',
+  name: '',
+  description: '',
+  unit: 'pcs',
+  quantityOnHand: 0,
+  reorderPoint: 0,
+  reorderQuantity: '' as number | '',
+  supplier: '',
+  costPerUnit: '' as number | '',
+  location: '',
+  equipmentIds: [] as number[]
+};
+
+const SpareParts: React.FC = () => {
+  const { user } = useAuth();
+  const [parts, setParts] = useState<SparePart[]>([]);
+  const [equipment, setEquipment] = useState<Equipment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedPart, setSelectedPart] = useState<SparePart | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [stockPart, setStockPart] = useState<SparePart | null>(null);
+  const [transactions, setTransactions] = useState<PartTransaction[]>([]);
+  const [transactionData, setTransactionData] = useState({ transactionType: 'received', quantity: 0, notes: '' });
+  const [auditPart, setAuditPart] = useState<SparePart | null>(null);
+
+  const canEdit = user?.role !== 'viewer';
+
+  useEffect(() => {
+    fetchParts();
+    axios.get('/equipment')
+      .then(response => setEquipment(response.data))
+      .catch(error => console.error('Error fetching equipment:', error));
+  }, []);
+
+  const fetchParts = async () => {
+    try {
+      const response = await axios.get('/spare-parts');
+      setParts(response.data);
+    } catch (error) {
+      console.error('Error fetching spare parts:', error);
+      toast.error('Failed to load spare parts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTransactions = async (partId: number) => {
+    try {
+      const response = await axios.get(`/spare-parts/${partId}/transactions`);
+      setTransactions(response.data);
+    } catch (error) {
+      console.error('Error fetching spare part transactions:', error);
+      toast.error('Failed to load transactions');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { quantityOnHand, ...fields } = formData;
+    const payload = {
+      ...fields,
+      reorderQuantity: fields.reorderQuantity === '' ? null : fields.reorderQuantity,
+      costPerUnit: fields.costPerUnit === '' ? null : fields.costPerUnit
+    };
+
+    try {
+      if (selectedPart) {
+        await axios.put(`/spare-parts/${selectedPart.id}`, payload);
+        toast.success('Spare part updated successfully');
+      } else {
+        await axios.post('/spare-parts', { ...payload, quantityOnHand });
+        toast.success('Spare part created successfully');
+      }
+      fetchParts();
+      handleCloseModal();
+    } catch (error: any) {
+      console.error('Error saving spare part:', error);
+      toast.error(error.response?.data?.error || 'Failed to save spare part');
+    }
+  };
+
+  const handleDelete = async (part: SparePart) => {
+    if (!window.confirm(`Delete spare part ${part.partNumber}?`)) return;
+
+    try {
+      await axios.delete(`/spare-parts/${part.id}`);
+      toast.success('Spare part deleted successfully');
+      fetchParts();
+    } catch (error: any) {
+      console.error('Error deleting spare part:', error);
+      toast.error(error.response?.data?.error || 'Failed to delete spare part');
+    }
+  };
+
+  const handleAddTransaction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stockPart) return;
+
+    try {
+      await axios.post(`/spare-parts/${stockPart.id}/transactions`, transactionData);
+      toast.success('Transaction recorded successfully');
+      setTransactionData({ transactionType: 'received', quantity: 0, notes: '' });
+      const response = await axios.get('/spare-parts');
+      setParts(response.data);
+      setStockPart(response.data.find((p: SparePart) => p.id === stockPart.id) || null);
+      fetchTransactions(stockPart.id);
+    } catch (error: any) {
+      console.error('Error recording transaction:', error);
+      toast.error(error.response?.data?.error || 'Failed to record transaction');
+    }
+  };
+
+  const handleEdit = (part: SparePart) => {
+    setSelectedPart(part);
+    setFormData({
+      partNumber: part.partNumber,
+      name: part.name,
+      description: part.description || '',
+      unit: part.unit,
+      quantityOnHand: Number(part.quantityOnHand),
+      reorderPoint: Number(part.reorderPoint),
+      reorderQuantity: part.reorderQuantity != null ? Number(part.reorderQuantity) : '',
+      supplier: part.supplier || '',
+      costPerUnit: part.costPerUnit != null ? Number(part.costPerUnit) : '',
+      location: part.location || '',
+      equipmentIds: part.fits.map(f => f.equipment.id)
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleViewStock = (part: SparePart) => {
+    setStockPart(part);
+    fetchTransactions(part.id);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedPart(null);
+    setFormData(emptyForm);
+  };
+
+  const toggleEquipment = (equipmentId: number, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      equipmentIds: checked ? [...prev.equipmentIds, equipmentId] : prev.equipmentIds.filter(id => id !== equipmentId)
+    }));
+  };
+
+  const lowStockCount = parts.filter(p => p.isLowStock).length;
+
+  return (
+    <Layout>
+      <div className="px-4 sm:px-6 lg:px-8 py-6">
+        {/* Header */}
+        <div className="mb-8 animate-fade-in-up flex justify-between items-end">
+          <div>
+            <h1 className="text-3xl font-bold text-white font-tech tracking-wider">
+              SPARE <span className="text-[#007A73]">PARTS</span>
+            </h1>
+            <p className="text-gray-500 text-xs font-mono tracking-[0.2em] mt-1">
+              MAINTENANCE PARTS, STOCK LEVELS AND REORDER POINTS
+            </p>
+          </div>
+          {canEdit && (
+            <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+              <button
+                onClick={() => setIsModalOpen(true)}
+                className="inline-flex items-center justify-center px-4 py-2 border border-white/50 text-sm font-bold font-tech text-white bg-white/10 hover:bg-white/20 hover:shadow-[0_0_15px_rgba(255,255,255,0.4)] transition-all duration-300 rounded-sm"
+              >
+                <PlusIcon className="-ml-1 mr-2 h-5 w-5" />
+                ADD PART
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Low Stock Alert */}
+        {lowStockCount > 0 && (
+          <div className="mt-4 bg-yellow-900/20 border-l-4 border-yellow-500 p-4 mb-8 backdrop-blur-sm">
+            <div className="flex">
+              <ExclamationTriangleIcon className="h-5 w-5 text-yellow-500" />
+              <div className="ml-3">
+                <p className="text-sm text-yellow-200 font-mono">
+                  <span className="font-bold text-yellow-400">{lowStockCount} PART{lowStockCount > 1 ? 'S' : ''}</span> AT OR BELOW REORDER POINT
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Parts Table */}
+        <div className="bg-black/50 backdrop-blur-sm border border-white/10 rounded-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-white/10">
+              <thead className="bg-white/5">
+                <tr>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Part No</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Name</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">On Hand</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Reserved</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Available</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Reorder At</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Fits</th>
+                  <th className="px-3 py-3.5 text-left text-xs font-bold text-gray-300 uppercase tracking-wider font-tech">Status</th>
+                  <th className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10 bg-transparent">
+                {loading ? (
+                  <tr>
+                    <td colSpan={9} className="px-3 py-4 text-center text-sm text-gray-500 font-mono">
+                      LOADING DATA...
+                    </td>
+                  </tr>
+                ) : parts.length === 0 ? (
+                  <tr>
+                    <td colSpan={9} className="px-3 py-4 text-center text-sm text-gray-500 font-mono">
+                      NO SPARE PARTS FOUND
+                    </td>
+                  </tr>
+                ) : (
+                  parts.map((part) => (
+                    <tr key={part.id} className="hover:bg-white/5 transition-colors duration-150">
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-300 font-mono">{part.partNumber}</td>
+                      <td className="px-3 py-4 text-sm font-medium text-white font-tech tracking-wide">
+                        {part.name}
+                        {part.location && <div className="text-xs text-gray-500 font-mono">{part.location}</div>}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-300 font-mono">
+                        {Number(part.quantityOnHand).toFixed(2)} {part.unit}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-400 font-mono">{part.reserved.toFixed(2)}</td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-white font-mono">{part.available.toFixed(2)}</td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-400 font-mono">{Number(part.reorderPoint).toFixed(2)}</td>
+                      <td className="px-3 py-4 text-xs text-gray-400">
+                        {part.fits.length > 0 ? part.fits.map(f => f.equipment.name).join(', ') : <span className="text-gray-600">ANY</span>}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm">
+                        {part.isLowStock ? (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-medium bg-red-900/50 text-red-200 border border-red-500/30 uppercase tracking-wider">
+                            Reorder
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-medium bg-green-900/50 text-green-200 border border-green-500/30 uppercase tracking-wider">
+                            In Stock
+                          </span>
+                        )}
+                      </td>
+                      <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                        <button
+                          onClick={() => handleViewStock(part)}
+                          className="text-blue-400 hover:text-blue-300 mr-4 transition-colors"
+                          title="Stock History"
+                        >
+                          <ClockIcon className="h-5 w-5 inline" />
+                        </button>
+                        <button
+                          onClick={() => setAuditPart(part)}
+                          className="text-gray-400 hover:text-white mr-4 transition-colors"
+                          title="Audit Trail"
+                        >
+                          <ClipboardDocumentListIcon className="h-5 w-5 inline" />
+                        </button>
+                        {canEdit && (
+                          <>
+                            <button
+                              onClick={() => handleEdit(part)}
+                              className="text-gray-400 hover:text-white mr-4 transition-colors"
+                              title="Edit"
+                            >
+                              <PencilIcon className="h-5 w-5 inline" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(part)}
+                              className="text-gray-400 hover:text-red-400 transition-colors"
+                              title="Delete"
+                            >
+                              <TrashIcon className="h-5 w-5 inline" />
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Part Form Modal */}
+        <Modal
+          isOpen={isModalOpen}
+          onClose={handleCloseModal}
+          title={selectedPart ? 'EDIT SPARE PART' : 'ADD SPARE PART'}
+          size="md"
+        >
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Part Number *</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.partNumber}
+                  onChange={(e) => setFormData({ ...formData, partNumber: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Unit *</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.unit}
+                  onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Name *</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g. MECHANICAL SEAL 45MM"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Description</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {!selectedPart && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Opening Stock</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.quantityOnHand}
+                    onChange={(e) => setFormData({ ...formData, quantityOnHand: parseFloat(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Reorder Point *</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  required
+                  value={formData.reorderPoint}
+                  onChange={(e) => setFormData({ ...formData, reorderPoint: parseFloat(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Reorder Quantity</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.reorderQuantity}
+                  onChange={(e) => setFormData({ ...formData, reorderQuantity: e.target.value ? parseFloat(e.target.value) : '' })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Cost Per Unit</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.costPerUnit}
+                  onChange={(e) => setFormData({ ...formData, costPerUnit: e.target.value ? parseFloat(e.target.value) : '' })}
+                  className={inputClass}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Supplier</label>
+                <input
+                  type="text"
+                  value={formData.supplier}
+                  onChange={(e) => setFormData({ ...formData, supplier: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Location</label>
+                <input
+                  type="text"
+                  value={formData.location}
+                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                  className={inputClass}
+                  placeholder="STOREROOM / BIN"
+                />
+              </div>
+            </div>
+
+            <div className="border-t border-white/10 pt-4">
+              <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Fits Equipment</label>
+              <p className="text-[10px] text-gray-500 font-mono mb-2">LEAVE ALL UNCHECKED FOR A PART THAT FITS ANY EQUIPMENT</p>
+              <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto pr-2 custom-scrollbar">
+                {equipment.map(eq => (
+                  <label key={eq.id} className="flex items-center gap-2 cursor-pointer group">
+                    <input
+                      type="checkbox"
+                      checked={formData.equipmentIds.includes(eq.id)}
+                      onChange={(e) => toggleEquipment(eq.id, e.target.checked)}
+                      className="rounded border-gray-600 bg-gray-800 text-blue-500 focus:ring-offset-black focus:ring-blue-500"
+                    />
+                    <span className="text-xs text-gray-300 group-hover:text-white transition-colors">{eq.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4 border-t border-white/10">
+              <button
+                type="button"
+                onClick={handleCloseModal}
+                className="px-4 py-2 border border-white/20 text-gray-300 rounded-sm hover:bg-white/10 hover:text-white font-tech text-sm tracking-wider"
+              >
+                CANCEL
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-white/10 text-white border border-white/50 rounded-sm hover:bg-white/20 hover:shadow-[0_0_15px_rgba(255,255,255,0.3)] font-tech text-sm tracking-wider font-bold"
+              >
+                {selectedPart ? 'UPDATE' : 'CREATE'}
+              </button>
+            </div>
+          </form>
+        </Modal>
+
+        {/* Stock History Modal */}
+        {stockPart && (
+          <Modal
+            isOpen={!!stockPart}
+            onClose={() => {
+              setStockPart(null);
+              setTransactions([]);
+            }}
+            title={`STOCK: ${stockPart.partNumber} ${stockPart.name.toUpperCase()}`}
+            size="2xl"
+          >
+            <div className="text-sm text-gray-400 font-mono mb-4">
+              ON HAND: <span className="text-white font-bold">{Number(stockPart.quantityOnHand).toFixed(2)} {stockPart.unit}</span>
+              <span className="ml-4">RESERVED: <span className="text-white font-bold">{stockPart.reserved.toFixed(2)}</span></span>
+              <span className="ml-4">AVAILABLE: <span className="text-white font-bold">{stockPart.available.toFixed(2)}</span></span>
+            </div>
+
+            {canEdit && (
+              <form onSubmit={handleAddTransaction} className="grid grid-cols-4 gap-2 items-end mb-6">
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Type</label>
+                  <select
+                    value={transactionData.transactionType}
+                    onChange={(e) => setTransactionData({ ...transactionData, transactionType: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="received">RECEIVED (ADD)</option>
+                    <option value="adjusted">ADJUSTED (SET)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Quantity</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    required
+                    value={transactionData.quantity}
+                    onChange={(e) => setTransactionData({ ...transactionData, quantity: parseFloat(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1 font-mono uppercase">Notes</label>
+                  <input
+                    type="text"
+                    value={transactionData.notes}
+                    onChange={(e) => setTransactionData({ ...transactionData, notes: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-white/10 text-white border border-white/50 rounded-sm hover:bg-white/20 font-tech text-sm tracking-wider font-bold"
+                >
+                  RECORD
+                </button>
+              </form>
+            )}
+
+            <div className="overflow-hidden border border-white/10 rounded-sm">
+              <table className="min-w-full divide-y divide-white/10">
+                <thead className="bg-white/5">
+                  <tr>
+                    <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Date</th>
+                    <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Type</th>
+                    <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Qty</th>
+                    <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Balance</th>
+                    <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Maintenance</th>
+                    <th className="px-3 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider font-tech">Notes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10 bg-black/30">
+                  {transactions.map((txn) => (
+                    <tr key={txn.id}>
+                      <td className="whitespace-nowrap px-3 py-3 text-xs text-gray-400 font-mono">
+                        {new Date(txn.timestamp).toLocaleString()}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-3 text-xs">
+                        <span className={`inline-flex rounded px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider ${txn.transactionType === 'consumed' ? 'bg-red-900/40 text-red-300 border border-red-500/30' :
+                          txn.transactionType === 'received' ? 'bg-green-900/40 text-green-300 border border-green-500/30' :
+                            'bg-blue-900/40 text-blue-300 border border-blue-500/30'
+                          }`}>
+                          {txn.transactionType}
+                        </span>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-3 text-xs text-white font-mono">
+                        {txn.transactionType === 'consumed' ? '-' : txn.transactionType === 'received' ? '+' : '='}{Number(txn.quantity).toFixed(2)}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-3 text-xs text-gray-400 font-mono">
+                        {Number(txn.remainingBalance).toFixed(2)}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-3 text-xs text-gray-400 font-mono">
+                        {txn.maintenanceEvent ? `${txn.maintenanceEvent.equipment.name} (${txn.maintenanceEvent.reason})` : '-'}
+                      </td>
+                      <td className="px-3 py-3 text-xs text-gray-500 italic">
+                        {txn.notes || '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Modal>
+        )}
+
+        {/* Audit Trail Modal */}
+        {auditPart && (
+          <Modal
+            isOpen={!!auditPart}
+            onClose={() => setAuditPart(null)}
+            title={`AUDIT TRAIL: ${auditPart.partNumber}`}
+            size="2xl"
+          >
+            <AuditHistory entityType="spare_part" entityId={auditPart.id} />
+          </Modal>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default SpareParts;
@@ -2,12 +2,15 @@ import React, { useState, useEffect } from 'react';
 import axios from 'axios';
 import toast from 'react-hot-toast';
 import Layout from '../components/Layout';
-import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { PlusIcon, PencilIcon, TrashIcon, ClockIcon, NoSymbolIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import Modal from '../components/Modal';
+import AuditHistory from '../components/AuditHistory';
 
 interface User {
   id: number;
   email: string;
   role: 'admin' | 'planner' | 'viewer';
+  active: boolean;
   createdAt: string;
   _count: {
     createdEquipment: number;
@@ -20,6 +23,7 @@ const Users: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [historyUser, setHistoryUser] = useState<User | null>(null);
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -108,6 +112,22 @@ const Users: React.FC = () => {
     }
   };
 
+  const handleToggleActive = async (user: User) => {
+    if (user.active && !window.confirm(`Deactivate "${user.email}"? They will be signed out and unable to log in.`)) {
+      return;
+    }
+
+    try {
+      const response = await axios.put(`/users/${user.id}`, { active: !user.active });
+      setUsers(prev => prev.map(u => u.id === user.id ? { ...u, ...response.data } : u));
+      toast.success(user.active ? 'User deactivated' : 'User reactivated');
+    } catch (error: any) {
+      console.error('Error updating user:', error);
+      const message = error.response?.data?.error || 'Failed to update user';
+      toast.error(message);
+    }
+  };
+
   const getRoleBadgeColor = (role: string) => {
     switch (role) {
       case 'admin':
@@ -184,6 +204,11 @@ const Users: React.FC = () => {
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getRoleBadgeColor(user.role)}`}>
                       {user.role}
                     </span>
+                    {!user.active && (
+                      <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                        inactive
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {user._count.createdEquipment} equipment created<br />
@@ -194,6 +219,13 @@ const Users: React.FC = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     <div className="flex items-center justify-end space-x-2">
+                      <button
+                        onClick={() => setHistoryUser(user)}
+                        className="text-gray-500 hover:text-gray-900"
+                        title="Change history"
+                      >
+                        <ClockIcon className="h-4 w-4" />
+                      </button>
                       <button
                         onClick={() => handleEdit(user)}
                         className="text-blue-600 hover:text-blue-900"
@@ -201,6 +233,13 @@ const Users: React.FC = () => {
                       >
                         <PencilIcon className="h-4 w-4" />
                       </button>
+                      <button
+                        onClick={() => handleToggleActive(user)}
+                        className={user.active ? 'text-yellow-600 hover:text-yellow-900' : 'text-green-600 hover:text-green-900'}
+                        title={user.active ? 'Deactivate user' : 'Reactivate user'}
+                      >
+                        {user.active ? <NoSymbolIcon className="h-4 w-4" /> : <CheckCircleIcon className="h-4 w-4" />}
+                      </button>
                       <button
                         onClick={() => handleDelete(user)}
                         className="text-red-600 hover:text-red-900"
@@ -318,6 +357,17 @@ const Users: React.FC = () => {
           </div>
         </div>
       )}
+
+      {historyUser && (
+        <Modal
+          isOpen={!!historyUser}
+          onClose={() => setHistoryUser(null)}
+          title={`HISTORY: ${historyUser.email.toUpperCase()}`}
+          size="2xl"
+        >
+          <AuditHistory entityType="user" entityId={historyUser.id} />
+        </Modal>
+      )}
     </Layout>
   );
 };